@@ -0,0 +1,40 @@
+// Babylon.js API used by the cloners that is newer than the typings of babylon.d.ts
+declare module BABYLON {
+    interface Vector3 {
+        /**
+         * Updates the current Vector3 with the minimal coordinate values between its and the passed vector ones, the name of MinimizeInPlace since 3.2.
+         * Returns the updated Vector3.
+         */
+        minimizeInPlace(other: Vector3): Vector3;
+        /**
+         * Updates the current Vector3 with the maximal coordinate values between its and the passed vector ones, the name of MaximizeInPlace since 3.2.
+         * Returns the updated Vector3.
+         */
+        maximizeInPlace(other: Vector3): Vector3;
+    }
+
+    interface Mesh {
+        /**
+         * Number of thin instances drawn, the count of the "matrix" buffer by default.
+         */
+        thinInstanceCount: number;
+        /**
+         * Sets a per thin instance buffer ("matrix", "color" or a custom attribute), null removes it.
+         * @param kind buffer kind
+         * @param buffer values, stride floats per instance
+         * @param stride number of floats per instance, 16 for "matrix"
+         * @param staticBuffer true if the buffer won't change
+         */
+        thinInstanceSetBuffer(kind: string, buffer: Float32Array, stride?: number, staticBuffer?: boolean): void;
+        /**
+         * Notifies that the values of a thin instance buffer changed, its length being the same.
+         * @param kind buffer kind
+         */
+        thinInstanceBufferUpdated(kind: string): void;
+        /**
+         * Recomputes the bounding info of the mesh from the thin instance matrices.
+         * @param forceRefreshParentInfo true to recompute the bounding info of the mesh itself first
+         */
+        thinInstanceRefreshBoundingInfo(forceRefreshParentInfo?: boolean): void;
+    }
+}
@@ -1,6 +1,7 @@
 
 
 ///<reference path="../lib/babylon.d.ts" />
+///<reference path="../lib/babylon.additions.d.ts" />
 ///<reference path="../lib/babylon.marbleProceduralTexture.d.ts" />
 module BABYLONX {
     export class Demoscene {
@@ -227,6 +228,7 @@ module BABYLONX {
         }
         delete() {
             if (this._cloner != null) {
+                this._cloner.releaseRuntime();
                 this._cloner.delete();
             } else {
                 this.getChildren()[0].dispose();
@@ -235,10 +237,21 @@ module BABYLONX {
             this.dispose();
 
         }
-        createClone(item, useInstances, name) {
+        get cloner() {
+            return this._cloner;
+        }
+        /**
+         * 
+         * @param item mesh to clone or instantiate, or cloner: a nested copy of it is then created
+         * @param useInstances
+         * @param name
+         * @param owner cloner of this node, passed to a nested cloner with the node index
+         */
+        createClone(item, useInstances, name, owner: Cloner = null) {
             var c;
             if (item instanceof Cloner) {
                 c = item.createClone(this);
+                this._cloner.setParentClone(item, owner, this._index);
             } else {
                 if (useInstances) {
                     c = item.createInstance(name + "_i");
@@ -255,51 +268,160 @@ module BABYLONX {
         }
     }
 
+    /**
+     * Lightweight stand-in for a CMesh node and its clone, used by the thin-instance backend.
+     * It only holds the transforms computed by the effectors, the cloner then writes them into the matrix buffer of a host mesh.
+     */
+    export class CThinClone {
+        static _q = new BABYLON.Quaternion();
+        static _m = new BABYLON.Matrix();
+        static _m2 = new BABYLON.Matrix();
+        _index: number = 0;
+        parent = null;
+        position: BABYLON.Vector3 = new BABYLON.Vector3(0, 0, 0);
+        rotation: BABYLON.Vector3 = new BABYLON.Vector3(0, 0, 0);
+        scaling: BABYLON.Vector3 = new BABYLON.Vector3(1, 1, 1);
+        private _item: CThinClone = null;
+        /**
+         * 
+         * @param index clone index
+         * @param isItem true for the inner item, which stands for the mesh clone of a CMesh node
+         */
+        constructor(index: number, isItem = false) {
+            this._index = index;
+            if (!isItem) {
+                this._item = new CThinClone(index, true);
+            }
+        }
+        getChildren() {
+            return [this._item];
+        }
+        /**
+         * computes the clone matrix relative to the cloner root: item transform, then node transform
+         * @param result matrix to store the result
+         */
+        getMatrix(result: BABYLON.Matrix): BABYLON.Matrix {
+            if (this._item != null) {
+                this._item.getMatrix(CThinClone._m);
+            }
+            BABYLON.Quaternion.RotationYawPitchRollToRef(this.rotation.y, this.rotation.x, this.rotation.z, CThinClone._q);
+            BABYLON.Matrix.ComposeToRef(this.scaling, CThinClone._q, this.position, CThinClone._m2);
+            if (this._item != null) {
+                CThinClone._m.multiplyToRef(CThinClone._m2, result);
+            } else {
+                result.copyFrom(CThinClone._m2);
+            }
+            return result;
+        }
+        delete() { }
+        dispose() { }
+    }
+
+    /**
+     * Stateless seeded random numbers: the value only depends on (seed, clone index, channel),
+     * so adding or removing clones doesn't change the values of the others.
+     * Shared by RandomEffector, RandomNumberGen and the random colors.
+     */
+    export class RandomStream {
+        static POSITION = 0;
+        static ROTATION = 3;
+        static SCALE = 6;
+        static COLOR = 9;
+        static SEQUENCE = 12;
+        static mix(h: number, v: number): number {
+            h = Math.imul(h ^ (v | 0), 0x5bd1e995);
+            return h ^ (h >>> 15);
+        }
+        /**
+         * random value 0..1
+         * @param seed integer seed
+         * @param index clone index
+         * @param channel value channel, see RandomStream.POSITION etc., x/y/z or r/g/b being channel + 0/1/2
+         * @param parent key of the parent clones for nested cloners, see parentKey()
+         */
+        static get(seed: number, index: number, channel: number, parent: number = 0): number {
+            let h = RandomStream.mix(RandomStream.mix(RandomStream.mix(RandomStream.mix(0x9e3779b9, seed), index), channel), parent);
+            h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+            h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+            h ^= h >>> 16;
+            return (h >>> 0) / 4294967296;
+        }
+        /**
+         * key of the parent clone chain of a nested cloner clone, 0 for a top level clone
+         */
+        static parentKey(context: IEffectorContext): number {
+            if (context == null || context.parent == null) {
+                return 0;
+            }
+            return RandomStream.mix(RandomStream.parentKey(context.parent) + 1, context.parent.index + 1);
+        }
+    }
     export class RandomEffector {
         private _seed: number;
         private _s: number;
-        private _rfunction;
         private _strength: number = 0.0;
         private _position: BABYLON.Vector3 = new BABYLON.Vector3(0, 0, 0);
         private _rotation: BABYLON.Vector3 = new BABYLON.Vector3(0, 0, 0);
         private _scale: BABYLON.Vector3 = new BABYLON.Vector3(0, 0, 0);
         private _uniformScale = false;
         private _clients = [];
+        animations = [];
         constructor(seed = 42) {
-            this._seed = this._s = seed;
-            this._rfunction = function () {
-                this._s = Math.sin(this._s) * 10000; return this._s - Math.floor(this._s);
-            };
+            this._seed = seed;
+            this._s = 0;
         }
+        /**
+         * next value 0..1 of the sequential stream, restarted by reset()
+         */
         random(): number {
-            return this._rfunction();
+            return RandomStream.get(this._seed, this._s++, RandomStream.SEQUENCE);
+        }
+        /**
+         * value 0..1 of a clone channel, the same for the same seed, clone index and channel.
+         * Without clone index, the sequential stream is used.
+         * @param context clone context, see Cloner.eContext()
+         * @param channel see RandomStream
+         */
+        cloneRandom(context: IEffectorContext, channel: number): number {
+            if (context == null || context.index < 0) {
+                return this.random();
+            }
+            return RandomStream.get(this._seed, context.index, channel, RandomStream.parentKey(context));
         }
         reset(): void {
-            this._s = this._seed;
+            this._s = 0;
         }
-        updateRotation(vec: BABYLON.Vector3) {
-            var m1 = this._rotation.multiplyByFloats((-.5 + this.random()) * this._strength, (-.5 + this.random()) * this._strength, (-.5 + this.random()) * this._strength);
+        updateRotation(vec: BABYLON.Vector3, context: IEffectorContext = null) {
+            let r = RandomStream.ROTATION;
+            var m1 = this._rotation.multiplyByFloats((-.5 + this.cloneRandom(context, r)) * this._strength, (-.5 + this.cloneRandom(context, r + 1)) * this._strength, (-.5 + this.cloneRandom(context, r + 2)) * this._strength);
             return vec.add(m1);
         }
-        updatePosition(vec: BABYLON.Vector3) {
-            var m1 = this._position.multiplyByFloats((-.5 + this.random()) * this._strength, (-.5 + this.random()) * this._strength, (-.5 + this.random()) * this._strength);
+        updatePosition(vec: BABYLON.Vector3, context: IEffectorContext = null) {
+            let p = RandomStream.POSITION;
+            var m1 = this._position.multiplyByFloats((-.5 + this.cloneRandom(context, p)) * this._strength, (-.5 + this.cloneRandom(context, p + 1)) * this._strength, (-.5 + this.cloneRandom(context, p + 2)) * this._strength);
             return vec.add(m1);
         }
-        updateScale(vec: BABYLON.Vector3) { 
-            let a = this.random();
+        updateScale(vec: BABYLON.Vector3, context: IEffectorContext = null) { 
+            let a = this.cloneRandom(context, RandomStream.SCALE);
             let b = a;
             let c = a;
             if (this._uniformScale == false) {
-                b = this.random();
-                c = this.random();
+                b = this.cloneRandom(context, RandomStream.SCALE + 1);
+                c = this.cloneRandom(context, RandomStream.SCALE + 2);
             }
-            var m1 = this._scale.multiplyByFloats((-.5 + a) * this._strength, (-.5 + b) * this._strength, (-.5 + b) * this._strength);
+            var m1 = this._scale.multiplyByFloats((-.5 + a) * this._strength, (-.5 + b) * this._strength, (-.5 + c) * this._strength);
             //var m1=this._scale.multiplyByFloats(this._strength,this._strength,this._strength);
             return vec.add(m1);
         }
         addClient(c) {
             this._clients.push(c);
         }
+        removeClient(c) {
+            let index = this._clients.indexOf(c);
+            if (index >= 0) {
+                this._clients.splice(index, 1);
+            }
+        }
         updateClients() {
             this._clients.forEach(function (c) { c.update() })
             return this;
@@ -309,7 +431,7 @@ module BABYLONX {
         }
         set strength(s: number) {
             this._strength = s;
-
+            this.updateClients();
         }
         str(s: number) {
             this.strength = s;
@@ -319,6 +441,7 @@ module BABYLONX {
             this._position.x = p.x;
             this._position.y = p.y;
             this._position.z = p.z;
+            this.updateClients();
         }
         get position() {
             return this._position;
@@ -329,7 +452,7 @@ module BABYLONX {
                 this._scale.y = s.y;
                 this._scale.z = s.z;
             }
-
+            this.updateClients();
         }
         get scale() {
             return this._scale;
@@ -338,6 +461,7 @@ module BABYLONX {
             this._rotation.x = s.x * Math.PI / 180;
             this._rotation.y = s.y * Math.PI / 180;
             this._rotation.z = s.z * Math.PI / 180;
+            this.updateClients();
         }
         get rotation() {
             return this._rotation;
@@ -352,7 +476,9 @@ module BABYLONX {
         }
         
         set seed(s: number) {
-            this._seed = this._s = s;
+            this._seed = s;
+            this._s = 0;
+            this.updateClients();
         }
         get seed() {
             return this._seed;
@@ -363,8 +489,35 @@ module BABYLONX {
         get uniformScale() {
             return this._uniformScale;
         }
-        getRandomColor() {
-            return this.random();
+        /**
+         * random color component 0..1 of a clone, keyed like the position, rotation and scale values
+         * @param context clone context, see Cloner.eContext(), null: next value of the sequential stream
+         * @param channel 0, 1, 2 for r, g, b
+         */
+        getRandomColor(context: IEffectorContext = null, channel: number = 0) {
+            return this.cloneRandom(context, RandomStream.COLOR + channel);
+        }
+        serialize(): ISerializedRandomEffector {
+            return {
+                type: "RandomEffector",
+                seed: this._seed,
+                state: this._s,
+                strength: this._strength,
+                position: { x: this._position.x, y: this._position.y, z: this._position.z },
+                rotation: { x: this._rotation.x * 180 / Math.PI, y: this._rotation.y * 180 / Math.PI, z: this._rotation.z * 180 / Math.PI },
+                scale: { x: this._scale.x, y: this._scale.y, z: this._scale.z },
+                uniformScale: this._uniformScale
+            };
+        }
+        static Parse(data: ISerializedRandomEffector): RandomEffector {
+            let e = new RandomEffector(data.seed);
+            e.uniformScale = data.uniformScale;
+            e.strength = data.strength;
+            e.position = data.position;
+            e.rotation = data.rotation;
+            e.scale = data.scale;
+            e._s = data.state;
+            return e;
         }
         getRandomInt({ min = 0, max = 10 } = {}) {
             return min+Math.floor(this.random()*(max-min));
@@ -380,6 +533,12 @@ module BABYLONX {
             this._generator = new RandomEffector(seed);
             return this;
         }
+        serialize() {
+            return { min: this._min, max: this._max, seed: this._generator.seed };
+        }
+        static Parse(data: { min: number, max: number, seed: number }): RandomNumberGen {
+            return new RandomNumberGen({ min: data.min, max: data.max, seed: data.seed });
+        }
         nextInt() {
             return this._generator.getRandomInt({
                 min: this._min, max: this._max
@@ -402,6 +561,7 @@ module BABYLONX {
         _autoanimate: boolean = true;
         _reverse: boolean = false;
         _framerate: number = 1/50;
+        animations = [];
         static cubicPulse(c:number, w:number, x:number) {
             x = Math.abs(x - c);
             if (x < w) return 0.0;
@@ -449,6 +609,12 @@ module BABYLONX {
                 r: aa * aa, g: bb * bb, b: cc * cc,a:a
             }
         }
+        serialize(): ISerializedColorEffector {
+            return { type: "ColorEffector", autoanimate: this._autoanimate, reverse: this._reverse, framerate: 1 / this._framerate };
+        }
+        static Parse(data: ISerializedColorEffector): ColorEffector {
+            return new ColorEffector().auto(data.autoanimate).reverse(data.reverse).framerate(data.framerate);
+        }
         get autoanimate() {
             return this._autoanimate;
         }
@@ -457,202 +623,1885 @@ module BABYLONX {
         }
 
     }
-    export class Cloner {
-        static vOne = new BABYLON.Vector3(1, 1, 1);
-        static vZero = new BABYLON.Vector3(0, 0, 0);
-        _rootNode = null;
-        _mesh;
-        _scene;
-        _clones;
-        _frame: number;
-        _index: number;
-       
-        _count: number;
-        _effectors = [];
-        setEnabled(enabled) {
-            this._rootNode.setEnabled(enabled);
-        }
-        createClone(parent) { }
-        update() { }
-        addEffector(effector, sensitivity) {
-            this._effectors.push({ effector: effector, sensitivity: sensitivity });
-            effector.addClient(this);
-            this.update();
-        }
-        get effectors() {
-            return this._effectors;
+    /**
+     * clone data passed by the cloners to the effectors
+     */
+    export interface IEffectorContext {
+        index: number;
+        count: number;
+        position: BABYLON.Vector3;
+        cloner: Cloner;
+        /**
+         * clone index in the parent cloner for a nested cloner, -1 otherwise
+         */
+        parentIndex: number;
+        /**
+         * context of the parent clone for a nested cloner, null otherwise
+         */
+        parent: IEffectorContext;
+    }
+    /**
+     * x, y, z of a serialized vector
+     */
+    export interface ISerializedVector {
+        x: number;
+        y: number;
+        z: number;
+    }
+    /**
+     * serialize() data of an effector, type being its class name
+     */
+    export interface ISerializedEffector {
+        type: string;
+        strength?: number;
+    }
+    export interface ISerializedRandomEffector extends ISerializedEffector {
+        seed: number;
+        /**
+         * position in the sequential random stream
+         */
+        state: number;
+        position: ISerializedVector;
+        /**
+         * degrees
+         */
+        rotation: ISerializedVector;
+        scale: ISerializedVector;
+        uniformScale: boolean;
+    }
+    export interface ISerializedColorEffector extends ISerializedEffector {
+        autoanimate: boolean;
+        reverse: boolean;
+        framerate: number;
+    }
+    export interface ISerializedPlainEffector extends ISerializedEffector {
+        position: ISerializedVector;
+        /**
+         * degrees
+         */
+        rotation: ISerializedVector;
+        scale: ISerializedVector;
+        /**
+         * StepEffector only
+         */
+        curve?: string;
+    }
+    export interface ISerializedTargetEffector extends ISerializedEffector {
+        /**
+         * target node name or world position
+         */
+        target: { name?: string, x?: number, y?: number, z?: number };
+    }
+    export interface ISerializedDelayEffector extends ISerializedEffector {
+        mode: string;
+        delay: number;
+        stiffness: number;
+        damping: number;
+    }
+    export interface ISerializedFormulaEffector extends ISerializedEffector {
+        position: string | { x?: string, y?: string, z?: string };
+        rotation: string | { x?: string, y?: string, z?: string };
+        scale: string | { x?: string, y?: string, z?: string };
+        animate: boolean;
+    }
+    /**
+     * serialize() data of a falloff, the options of its constructor
+     */
+    export interface ISerializedFalloff {
+        shape: string;
+        position: ISerializedVector;
+        size: ISerializedVector;
+        direction: ISerializedVector;
+        falloff: number;
+        curve: string;
+        invert: boolean;
+        min: number;
+        max: number;
+        blend: string;
+        noiseScale: number;
+        seed: number;
+    }
+    /**
+     * effector of a serialized cloner, the effector and falloffs being inline or indexes in the shared lists of a rig
+     */
+    export interface ISerializedEffectorLink {
+        effector: number | ISerializedEffector;
+        sensitivity: number;
+        falloffs: (number | ISerializedFalloff)[];
+    }
+    /**
+     * serialize() data of a cloner, type being its class name.
+     * The source meshes are names, a cloner used as source is its serialize() data.
+     */
+    export interface ISerializedCloner {
+        type: string;
+        meshes: (string | ISerializedCloner)[];
+        useInstances: boolean;
+        useThinInstances?: boolean;
+        colorize?: ISerializedColorEffector;
+        autoFrame?: boolean;
+        effectors: ISerializedEffectorLink[];
+    }
+    export interface ISerializedRadialCloner extends ISerializedCloner {
+        count: number;
+        offset: number;
+        radius: number;
+        align: boolean;
+        startangle: number;
+        endangle: number;
+        plane: ISerializedVector;
+    }
+    export interface ISerializedObjectCloner extends ISerializedCloner {
+        /**
+         * reference mesh name
+         */
+        template: string;
+        mode: string;
+        count: number;
+        spacing: number;
+        seed: number;
+        align: boolean;
+    }
+    export interface ISerializedMatrixCloner extends ISerializedCloner {
+        mcount: ISerializedVector;
+        size: ISerializedVector;
+        iModeRelative: boolean;
+    }
+    export interface ISerializedLinearCloner extends ISerializedCloner {
+        /**
+         * clone count or RandomNumberGen settings
+         */
+        count: number | { min: number, max: number, seed: number };
+        offset: number;
+        growth: number;
+        P: ISerializedVector;
+        S: ISerializedVector;
+        R: ISerializedVector;
+        iModeRelative: boolean;
+    }
+    export interface ISerializedSplineCloner extends ISerializedCloner {
+        path: ISerializedVector[];
+        count: number;
+        spacing: number;
+        startOffset: number;
+        endOffset: number;
+        align: boolean;
+        up: ISerializedVector;
+        loop: boolean;
+    }
+    /**
+     * effectors and falloffs shared by several cloners, see Cloner.SerializeRig()
+     */
+    export interface IRig {
+        effectors: (Effector | RandomEffector)[];
+        falloffs: Falloff[];
+    }
+    /**
+     * SerializeRig() data: the cloners refer to the shared effectors and falloffs by index
+     */
+    export interface ISerializedRig {
+        cloners: ISerializedCloner[];
+        effectors: ISerializedEffector[];
+        falloffs: ISerializedFalloff[];
+    }
+    /**
+     * Base of the Plain, Step, Target, Delay and Formula effectors: strength and clients handling.
+     * updatePosition, updateRotation and updateScale get the value computed by the previous effectors and the clone context.
+     */
+    export class Effector {
+        _strength: number = 1.0;
+        _clients = [];
+        _scene = null;
+        _beforeRender = null;
+        animations = [];
+        reset(): void { }
+        updatePosition(vec: BABYLON.Vector3, context: IEffectorContext): BABYLON.Vector3 {
+            return vec;
+        }
+        updateRotation(vec: BABYLON.Vector3, context: IEffectorContext): BABYLON.Vector3 {
+            return vec;
+        }
+        updateScale(vec: BABYLON.Vector3, context: IEffectorContext): BABYLON.Vector3 {
+            return vec;
         }
-        eScale(vec: BABYLON.Vector3): BABYLON.Vector3 {
-            var vRet = Cloner.vZero.add(vec);
-            for (let i = 0; i < this._effectors.length; i++) {
-                vRet = BABYLON.Vector3.Lerp(vec, this._effectors[i].effector.updateScale(vRet), this._effectors[i].sensitivity);
+        addClient(c) {
+            if (this._clients.indexOf(c) < 0) {
+                this._clients.push(c);
             }
-            return vRet;
         }
-        eRotate(vec: BABYLON.Vector3): BABYLON.Vector3 {
-            var vRet = Cloner.vZero.add(vec);
-            for (let i = 0; i < this._effectors.length; i++) {
-                vRet = BABYLON.Vector3.Lerp(vec, this._effectors[i].effector.updateRotation(vRet), this._effectors[i].sensitivity);
+        removeClient(c) {
+            let index = this._clients.indexOf(c);
+            if (index >= 0) {
+                this._clients.splice(index, 1);
             }
-            return vRet;
         }
-        ePosition(vec): BABYLON.Vector3 {
-            var vRet = Cloner.vZero.add(vec);
-            for (let i = 0; i < this._effectors.length; i++) {
-                vRet = BABYLON.Vector3.Lerp(vec, this._effectors[i].effector.updatePosition(vRet), this._effectors[i].sensitivity);
+        updateClients() {
+            this._clients.forEach(function (c) { c.update() })
+            return this;
+        }
+        /**
+         * registers the per frame callback of the effector, see dispose()
+         * @param scene
+         * @param callback
+         */
+        registerBeforeRender(scene, callback: () => void) {
+            this.dispose();
+            this._scene = scene;
+            this._beforeRender = callback;
+            scene.registerBeforeRender(callback);
+        }
+        /**
+         * stops the per frame callback, the clients keep the effector
+         */
+        dispose() {
+            if (this._beforeRender != null) {
+                this._scene.unregisterBeforeRender(this._beforeRender);
+                this._beforeRender = null;
             }
-            return vRet;// BABYLON.Vector3.Lerp(vec,vRet,this._effectorStrength.x);
         }
-        eReset() {
-            this._effectors.forEach(function (e) { e.effector.reset() });
+        serialize(): ISerializedEffector {
+            return { type: "Effector", strength: this._strength };
+        }
+        get strength(): number {
+            return this._strength;
+        }
+        set strength(s: number) {
+            this._strength = s;
+            this.updateClients();
+        }
+        str(s: number) {
+            this.strength = s;
+            return this;
         }
-        getScene() { 
-            return this._scene;
-        }  
     }
-    export class RadialCloner extends Cloner {
-        static instance_nr;
-        private _instance_nr;
-        private _useInstances: boolean;
-        private _radius: number;
-        private _plane: BABYLON.Vector3;
-        private _startangle: number;
-        private _endangle: number;
-        private _offset: number;
-        private _align: boolean;
-        private _formula: string;
-        private _colorize: ColorEffector;
-
-
+    /**
+     * Plain effector: fixed position, rotation (degrees) and scale offsets
+     */
+    export class PlainEffector extends Effector {
+        _position: BABYLON.Vector3 = new BABYLON.Vector3(0, 0, 0);
+        _rotation: BABYLON.Vector3 = new BABYLON.Vector3(0, 0, 0);
+        _scale: BABYLON.Vector3 = new BABYLON.Vector3(0, 0, 0);
         /**
          * 
-         * @param mesh mesh to clone
-         * @param scene
-         * @param param2 all optional: count, offset, radius startangle, endangle, useInstances, plane,colorize
-         * if colorize function is provided, useInstances is set to false!
+         * @param param0 all optional: position, rotation (degrees), scale, strength
          */
-        constructor(mesh, scene, { count = 3, offset = 0, radius = 3, align = true, startangle = 0, endangle = 360, useInstances = true, plane = { x: 1, y: 0, z: 1 }, colorize = null} = {}) {
+        constructor({ position = { x: 0, y: 0, z: 0 }, rotation = { x: 0, y: 0, z: 0 }, scale = { x: 0, y: 0, z: 0 }, strength = 1 } = {}) {
             super();
-            RadialCloner.instance_nr = 0 | (RadialCloner.instance_nr + 1);
-            this._instance_nr = RadialCloner.instance_nr;
-            this._mesh = mesh;
-            this._mesh.forEach(function (m) { m.setEnabled(false); })
-            this._scene = scene;
-            this._useInstances = useInstances;
-            this._clones = [];
-            this._count = Number(count);
-            this._radius = Number(radius);
-            this._plane = new BABYLON.Vector3(plane.x, plane.y, plane.z);
-            this._startangle = Math.PI * startangle / 180;
-            this._endangle = Math.PI * endangle / 180;
-            this._offset = offset;
-            this._align = align;
-            this._frame = 0;
-            this._index = 0;
-            this._colorize = colorize;
-            if (colorize != null) this._useInstances = false;
-            this._formula = "2-Math.pow(Math.abs(Math.sin(frame/10+Math.PI*i/2)),0.1)*1.5"
-            this._formula = "scaling=1-Math.sin(frame/6+2*ix*Math.PI)/2"
-
-
-            //this._rootNode=new CMesh("root",this._scene,this);
-            this._rootNode = new CMesh(`rootRC_${this._instance_nr}`, this._scene, null, this);
-            this._scene.registerBeforeRender(() => {
-                this._frame++;
-                this._index = 0;
-            });
-            this.createClones();
-            this.update();
-
+            this._position.copyFromFloats(position.x, position.y, position.z);
+            this._rotation.copyFromFloats(rotation.x * Math.PI / 180, rotation.y * Math.PI / 180, rotation.z * Math.PI / 180);
+            this._scale.copyFromFloats(scale.x, scale.y, scale.z);
+            this._strength = strength;
         }
-        createClone(parent, dummyUseInstances = null, dummyName = null) {
-            var c = new RadialCloner(this._mesh, this._scene, { count: this._count, offset: this._offset, radius: this._radius, startangle: this._startangle * 180 / Math.PI, endangle: this._endangle * 180 / Math.PI, useInstances: this._useInstances, plane: { x: this._plane.x, y: this._plane.y, z: this._plane.z } })
-            parent._cloner = c;
-            c.root.parent = parent;
-            return c.root;
+        updatePosition(vec: BABYLON.Vector3, context: IEffectorContext) {
+            return vec.add(this._position.scale(this._strength));
         }
-
-        createClones(start = 0) {
-            for (let i = start; i < this._count; i++) {
-                //create Node for each clone, RADIAL=>parent = rootnode 
-                var n = new CMesh(`n_rc${this._instance_nr}_${i}`, this._scene, this._rootNode);
-                n._index = i;
-                this._clones.push(n);
-                //create clone
-                let cix = i % this._mesh.length;
-                let c = n.createClone(this._mesh[cix], this._useInstances, `${this._mesh[cix].name}_rc${this._instance_nr}_${i}`);
-                if (this._colorize != null) {
-                    c.registerBeforeRender(() => {
-                        let color = this._colorize.animate(c.parent._index / this._count, this._frame);
-                        c.material.diffuseColor.r = color.r;
-                        c.material.diffuseColor.g = color.g;
-                        c.material.diffuseColor.b = color.b;
-                        //if (color.r < 0.5)
-                        c.material.alpha = color.a;
-                    });
-                }
-            }
+        updateRotation(vec: BABYLON.Vector3, context: IEffectorContext) {
+            return vec.add(this._rotation.scale(this._strength));
         }
-        calcRot() {
-            for (let i = 0; i < this._count; i++) {
-                let arange = this._endangle - this._startangle;
-                let step = arange / this._count;
-                this._clones[i].getChildren()[0].rotation.x = this._clones[i].getChildren()[0].rotation.y = this._clones[i].getChildren()[0].rotation.z = 0;
-                if (this._plane.y === 0) {
-                    this._clones[i].getChildren()[0].rotation.y = this._align ? this._offset + this._startangle + i * step : 0;
-                } else if (this._plane.x === 0) {
-                    this._clones[i].getChildren()[0].rotation.x = this._align ? -this._offset - this._startangle - i * step : 0;
-                } else {
-                    this._clones[i].getChildren()[0].rotation.z = this._align ? -this._offset - this._startangle - i * step : 0;
-                }
-
-                let vRet = this.eRotate(this._clones[i].getChildren()[0].rotation);
-                this._clones[i].getChildren()[0].rotation = vRet;
-            }
-
+        updateScale(vec: BABYLON.Vector3, context: IEffectorContext) {
+            return vec.add(this._scale.scale(this._strength));
         }
-        calcSize() {
-            for (let i = 0; i < this._count; i++) {
-                //var orig=BABYLON.Vector3.Lerp(Cloner.vOne, this._S, this._iModeRelative ? i : i / (this._count - 1));
-                this._clones[i].getChildren()[0].scaling = this.eScale(Cloner.vOne);
-            }
+        serialize(): ISerializedPlainEffector {
+            return {
+                type: "PlainEffector",
+                strength: this._strength,
+                position: { x: this._position.x, y: this._position.y, z: this._position.z },
+                rotation: this.rotation,
+                scale: { x: this._scale.x, y: this._scale.y, z: this._scale.z }
+            };
         }
-        calcPos() {
-            this.eReset();
-            for (let i = 0; i < this._count; i++) {
-                let arange = this._endangle - this._startangle;
-                let step = arange / this._count;
-                this._clones[i].position.x = this._clones[i].position.y = this._clones[i].position.z = 0;
-                //this._clones[i].getChildren()[0].rotation.x = this._clones[i].getChildren()[0].rotation.y = this._clones[i].getChildren()[0].rotation.z = 0;
-                if (this._plane.y === 0) {
-                    this._clones[i].position.x = Math.sin(this._offset + this._startangle + i * step) * this._radius;
-                    this._clones[i].position.z = Math.cos(this._offset + this._startangle + i * step) * this._radius;
-                    //console.log(this._clones[i].position);
-                    this._clones[i].position = this.ePosition(this._clones[i].position);
-                    //this._clones[i].getChildren()[0].rotation.y = this._align ? this._offset + this._startangle + i * step : 0;
-                    //this._clones[i].scaling=RadialCloner.vOne.multiplyByFloats(1,(0.5+(this.frame%this._count))/this._count,1);
-                } else if (this._plane.x === 0) {
-                    this._clones[i].position.y = Math.sin(this._offset + this._startangle + i * step) * this._radius;
-                    this._clones[i].position.z = Math.cos(this._offset + this._startangle + i * step) * this._radius;
-                    this._clones[i].position = this.ePosition(this._clones[i].position);
-                    //this._clones[i].getChildren()[0].rotation.x = this._align ? -this._offset - this._startangle - i * step : 0;
-                } else {
-                    this._clones[i].position.x = Math.sin(this._offset + this._startangle + i * step) * this._radius;
-                    this._clones[i].position.y = Math.cos(this._offset + this._startangle + i * step) * this._radius;
-                    this._clones[i].position = this.ePosition(this._clones[i].position);
-                    //this._clones[i].getChildren()[0].rotation.z = this._align ? -this._offset - this._startangle - i * step : 0;
-                }
-            }
+        static Parse(data: ISerializedPlainEffector): PlainEffector {
+            return new PlainEffector({ position: data.position, rotation: data.rotation, scale: data.scale, strength: data.strength });
         }
-        update() {
-            this.calcRot();
-            this.calcPos();
-            this.calcSize();
+        set position(p: { x: number, y: number, z: number }) {
+            this._position.copyFromFloats(p.x, p.y, p.z);
+            this.updateClients();
         }
-        delete() {
-            for (let i = this._count - 1; i >= 0; i--) {
-                this._clones[i].delete();
-            }
+        get position() {
+            return this._position;
+        }
+        set rotation(r: { x: number, y: number, z: number }) {
+            this._rotation.copyFromFloats(r.x * Math.PI / 180, r.y * Math.PI / 180, r.z * Math.PI / 180);
+            this.updateClients();
+        }
+        get rotation() {
+            return { x: this._rotation.x * 180 / Math.PI, y: this._rotation.y * 180 / Math.PI, z: this._rotation.z * 180 / Math.PI };
+        }
+        set scale(s: { x: number, y: number, z: number }) {
+            this._scale.copyFromFloats(s.x, s.y, s.z);
+            this.updateClients();
+        }
+        get scale() {
+            return this._scale;
+        }
+    }
+    /**
+     * Step effector: position, rotation (degrees) and scale offsets interpolated from 0 for the first clone to their full value for the last one
+     */
+    export class StepEffector extends PlainEffector {
+        private _curve;
+        /**
+         * 
+         * @param param0 all optional: position, rotation (degrees), scale, strength, curve ("linear", "smooth" or a function of 0..1)
+         */
+        constructor({ position = { x: 0, y: 0, z: 0 }, rotation = { x: 0, y: 0, z: 0 }, scale = { x: 0, y: 0, z: 0 }, strength = 1, curve = "linear" } = {}) {
+            super({ position: position, rotation: rotation, scale: scale, strength: strength });
+            this._curve = curve;
+        }
+        /**
+         * interpolation step 0..1 of a clone
+         * @param context
+         */
+        getStep(context: IEffectorContext): number {
+            let t = (context.index < 0 || context.count < 2) ? 0 : context.index / (context.count - 1);
+            if (typeof this._curve === "function") {
+                return this._curve(t);
+            }
+            return this._curve == "smooth" ? t * t * (3 - 2 * t) : t;
+        }
+        updatePosition(vec: BABYLON.Vector3, context: IEffectorContext) {
+            return vec.add(this._position.scale(this._strength * this.getStep(context)));
+        }
+        updateRotation(vec: BABYLON.Vector3, context: IEffectorContext) {
+            return vec.add(this._rotation.scale(this._strength * this.getStep(context)));
+        }
+        updateScale(vec: BABYLON.Vector3, context: IEffectorContext) {
+            return vec.add(this._scale.scale(this._strength * this.getStep(context)));
+        }
+        /**
+         * a curve function isn't serialized, it is replaced by "linear"
+         */
+        serialize(): ISerializedPlainEffector {
+            let data = super.serialize();
+            data.type = "StepEffector";
+            data.curve = typeof this._curve === "function" ? "linear" : this._curve;
+            return data;
+        }
+        static Parse(data: ISerializedPlainEffector): StepEffector {
+            return new StepEffector({ position: data.position, rotation: data.rotation, scale: data.scale, strength: data.strength, curve: data.curve });
+        }
+        set curve(c) {
+            this._curve = c;
+            this.updateClients();
+        }
+        get curve() {
+            return this._curve;
+        }
+    }
+    /**
+     * Target effector: orients the clones (their Z axis) toward a node or a world position.
+     * The clients are updated when the target node moves.
+     */
+    export class TargetEffector extends Effector {
+        private _target;
+        private _lastTarget: BABYLON.Vector3 = new BABYLON.Vector3(0, 0, 0);
+        private _tmpMatrix: BABYLON.Matrix = new BABYLON.Matrix();
+        /**
+         * 
+         * @param target node (mesh, transform node, camera...) or world position
+         * @param param1 all optional: strength
+         */
+        constructor(target, { strength = 1 } = {}) {
+            super();
+            this._target = target;
+            this._strength = strength;
+            if (target.getScene) {
+                this.registerBeforeRender(target.getScene(), () => {
+                    let p = this.getTargetPosition();
+                    if (!p.equals(this._lastTarget)) {
+                        this._lastTarget.copyFrom(p);
+                        this.updateClients();
+                    }
+                });
+            }
+        }
+        getTargetPosition(): BABYLON.Vector3 {
+            return this._target.getAbsolutePosition ? this._target.getAbsolutePosition() : this._target;
+        }
+        updateRotation(vec: BABYLON.Vector3, context: IEffectorContext) {
+            if (context.position == null) {
+                return vec;
+            }
+            // target in the cloner space
+            let root = context.cloner._rootNode;
+            root.computeWorldMatrix(true).invertToRef(this._tmpMatrix);
+            let target = BABYLON.Vector3.TransformCoordinates(this.getTargetPosition(), this._tmpMatrix);
+            let d = target.subtract(context.position);
+            let aim = new BABYLON.Vector3(-Math.atan2(d.y, Math.sqrt(d.x * d.x + d.z * d.z)), Math.atan2(d.x, d.z), 0);
+            return BABYLON.Vector3.Lerp(vec, aim, this._strength);
+        }
+        /**
+         * the target node is referenced by name
+         */
+        serialize(): ISerializedTargetEffector {
+            let target = this._target.getAbsolutePosition ? { name: this._target.name } : { x: this._target.x, y: this._target.y, z: this._target.z };
+            return { type: "TargetEffector", strength: this._strength, target: target };
+        }
+        static Parse(data: ISerializedTargetEffector, scene): TargetEffector {
+            let target = data.target.name !== undefined ? scene.getNodeByName(data.target.name) : new BABYLON.Vector3(data.target.x, data.target.y, data.target.z);
+            if (!target) {
+                throw new Error(`TargetEffector.Parse: node ${data.target.name} not found`);
+            }
+            return new TargetEffector(target, { strength: data.strength });
+        }
+        set target(t) {
+            this._target = t;
+            this.updateClients();
+        }
+        get target() {
+            return this._target;
+        }
+    }
+    /**
+     * Delay effector: the clones follow the result of the previous effectors with a delay, by blending or with a spring.
+     * The clients are updated on each frame until the clones are settled.
+     */
+    export class DelayEffector extends Effector {
+        private _mode: string;
+        private _delay: number;
+        private _stiffness: number;
+        private _damping: number;
+        private _frame: number = 0;
+        private _moving: boolean = false;
+        private _states = [[], [], []];
+        /**
+         * 
+         * @param scene
+         * @param param1 all optional: mode ("blend" or "spring"), delay (blend: 0 no delay .. 1 frozen), stiffness and damping (spring), strength
+         */
+        constructor(scene, { mode = "blend", delay = 0.8, stiffness = 0.2, damping = 0.7, strength = 1 } = {}) {
+            super();
+            this._mode = mode;
+            this._delay = delay;
+            this._stiffness = stiffness;
+            this._damping = damping;
+            this._strength = strength;
+            this.registerBeforeRender(scene, () => {
+                this._frame++;
+                if (this._moving) {
+                    this._moving = false;
+                    this.updateClients();
+                }
+            });
+        }
+        /**
+         * one step per frame toward the target value, computed again from the previous frame state if called several times in a frame
+         */
+        follow(channel: number, vec: BABYLON.Vector3, context: IEffectorContext): BABYLON.Vector3 {
+            if (context.index < 0) {
+                return vec;
+            }
+            let state = this._states[channel][context.index];
+            if (state == undefined) {
+                state = this._states[channel][context.index] = { frame: this._frame, prev: vec.clone(), value: vec.clone(), prevVelocity: BABYLON.Vector3.Zero(), velocity: BABYLON.Vector3.Zero() };
+                return vec;
+            }
+            if (state.frame != this._frame) {
+                state.frame = this._frame;
+                state.prev.copyFrom(state.value);
+                state.prevVelocity.copyFrom(state.velocity);
+            }
+            let delta = vec.subtract(state.prev);
+            if (this._mode == "spring") {
+                state.velocity = state.prevVelocity.scale(this._damping).add(delta.scale(this._stiffness));
+            } else {
+                state.velocity = delta.scale(1 - this._delay);
+            }
+            state.value = state.prev.add(state.velocity);
+            if (vec.subtract(state.value).lengthSquared() > 1e-8 || state.velocity.lengthSquared() > 1e-8) {
+                this._moving = true;
+            }
+            return BABYLON.Vector3.Lerp(vec, state.value, this._strength);
+        }
+        updatePosition(vec: BABYLON.Vector3, context: IEffectorContext) {
+            return this.follow(0, vec, context);
+        }
+        updateRotation(vec: BABYLON.Vector3, context: IEffectorContext) {
+            return this.follow(1, vec, context);
+        }
+        updateScale(vec: BABYLON.Vector3, context: IEffectorContext) {
+            return this.follow(2, vec, context);
+        }
+        /**
+         * forgets the clone states: the clones jump to their current values
+         */
+        serialize(): ISerializedDelayEffector {
+            return { type: "DelayEffector", strength: this._strength, mode: this._mode, delay: this._delay, stiffness: this._stiffness, damping: this._damping };
+        }
+        static Parse(data: ISerializedDelayEffector, scene): DelayEffector {
+            return new DelayEffector(scene, { mode: data.mode, delay: data.delay, stiffness: data.stiffness, damping: data.damping, strength: data.strength });
+        }
+        clear() {
+            this._states = [[], [], []];
+        }
+        set mode(m: string) {
+            this._mode = m;
+        }
+        get mode() {
+            return this._mode;
+        }
+        set delay(d: number) {
+            this._delay = d;
+        }
+        get delay() {
+            return this._delay;
+        }
+        set stiffness(s: number) {
+            this._stiffness = s;
+        }
+        get stiffness() {
+            return this._stiffness;
+        }
+        set damping(d: number) {
+            this._damping = d;
+        }
+        get damping() {
+            return this._damping;
+        }
+    }
+    /**
+     * Formula effector: position, rotation (degrees) and scale computed from expressions of the clone variables:
+     * i (index), ix (index/count), count, frame, x, y, z (clone position),
+     * j (parent clone index), jx (j/jcount), jcount (parent clone count) for the clones of a nested cloner, 0 otherwise.
+     * A string applies to the 3 axes, an object {x, y, z} of strings to each axis. Position and rotation are added, scale is multiplied.
+     * The expressions are compiled by FormulaExpression, no eval is involved.
+     */
+    export class FormulaEffector extends Effector {
+        private _frame: number = 0;
+        private _position;
+        private _rotation;
+        private _scale;
+        private _compiled = { position: null, rotation: null, scale: null };
+        private _vars = { i: 0, ix: 0, count: 0, frame: 0, x: 0, y: 0, z: 0, j: 0, jx: 0, jcount: 0 };
+        private _animate: boolean;
+        /**
+         * 
+         * @param scene if provided, frame is incremented on each render and the clients are updated
+         * @param param1 all optional: position, rotation, scale (expression strings or {x, y, z} of expression strings), strength
+         */
+        constructor(scene = null, { position = null, rotation = null, scale = null, strength = 1 } = {}) {
+            super();
+            this._strength = strength;
+            this.position = position;
+            this.rotation = rotation;
+            this.scale = scale;
+            this._animate = scene != null;
+            if (scene != null) {
+                this.registerBeforeRender(scene, () => {
+                    this._frame++;
+                    this.updateClients();
+                });
+            }
+        }
+        serialize(): ISerializedFormulaEffector {
+            return { type: "FormulaEffector", strength: this._strength, position: this._position, rotation: this._rotation, scale: this._scale, animate: this._animate };
+        }
+        static Parse(data: ISerializedFormulaEffector, scene): FormulaEffector {
+            return new FormulaEffector(data.animate ? scene : null, { position: data.position, rotation: data.rotation, scale: data.scale, strength: data.strength });
+        }
+        static compileChannel(formula) {
+            if (formula == null) {
+                return null;
+            }
+            if (typeof formula === "string") {
+                let f = FormulaExpression.Compile(formula);
+                return [f, f, f];
+            }
+            return [formula.x, formula.y, formula.z].map(function (f) { return f == null ? null : FormulaExpression.Compile(f) });
+        }
+        evaluate(channel: string, context: IEffectorContext, neutral: number): BABYLON.Vector3 {
+            let f = this._compiled[channel];
+            let v = this._vars;
+            v.i = context.index < 0 ? 0 : context.index;
+            v.count = context.count;
+            v.ix = context.count > 0 ? v.i / context.count : 0;
+            v.frame = this._frame;
+            v.x = context.position ? context.position.x : 0;
+            v.y = context.position ? context.position.y : 0;
+            v.z = context.position ? context.position.z : 0;
+            v.j = context.parent != null && context.parent.index >= 0 ? context.parent.index : 0;
+            v.jcount = context.parent != null ? context.parent.count : 0;
+            v.jx = v.jcount > 0 ? v.j / v.jcount : 0;
+            return new BABYLON.Vector3(f[0] ? f[0](v) : neutral, f[1] ? f[1](v) : neutral, f[2] ? f[2](v) : neutral);
+        }
+        updatePosition(vec: BABYLON.Vector3, context: IEffectorContext) {
+            if (this._compiled.position == null) {
+                return vec;
+            }
+            return vec.add(this.evaluate("position", context, 0).scale(this._strength));
+        }
+        updateRotation(vec: BABYLON.Vector3, context: IEffectorContext) {
+            if (this._compiled.rotation == null) {
+                return vec;
+            }
+            return vec.add(this.evaluate("rotation", context, 0).scale(this._strength * Math.PI / 180));
+        }
+        updateScale(vec: BABYLON.Vector3, context: IEffectorContext) {
+            if (this._compiled.scale == null) {
+                return vec;
+            }
+            let s = BABYLON.Vector3.Lerp(Cloner.vOne, this.evaluate("scale", context, 1), this._strength);
+            return vec.multiply(s);
+        }
+        set position(p) {
+            this._compiled.position = FormulaEffector.compileChannel(p);
+            this._position = p;
+            this.updateClients();
+        }
+        get position() {
+            return this._position;
+        }
+        set rotation(r) {
+            this._compiled.rotation = FormulaEffector.compileChannel(r);
+            this._rotation = r;
+            this.updateClients();
+        }
+        get rotation() {
+            return this._rotation;
+        }
+        set scale(s) {
+            this._compiled.scale = FormulaEffector.compileChannel(s);
+            this._scale = s;
+            this.updateClients();
+        }
+        get scale() {
+            return this._scale;
+        }
+        get frame() {
+            return this._frame;
+        }
+        set frame(f: number) {
+            this._frame = f;
+            this.updateClients();
+        }
+    }
+    /**
+     * Compiles a math expression to a function of a variable object, without eval.
+     * Operators: + - * / % ^ (power) and parentheses. Constants: PI, E.
+     * Functions: sin, cos, tan, asin, acos, atan, atan2, abs, pow, sqrt, exp, log, min, max, floor, ceil, round, sign, fract, mod, clamp, mix, step, smoothstep.
+     * The "Math." prefix is accepted. Unknown names and syntax errors throw an Error at compile time.
+     */
+    export class FormulaExpression {
+        static Variables = ["i", "ix", "count", "frame", "x", "y", "z", "j", "jx", "jcount"];
+        static Constants = { PI: Math.PI, E: Math.E };
+        static Functions = {
+            sin: Math.sin, cos: Math.cos, tan: Math.tan, asin: Math.asin, acos: Math.acos, atan: Math.atan, atan2: Math.atan2,
+            abs: Math.abs, pow: Math.pow, sqrt: Math.sqrt, exp: Math.exp, log: Math.log, min: Math.min, max: Math.max,
+            floor: Math.floor, ceil: Math.ceil, round: Math.round,
+            sign: function (a) { return a > 0 ? 1 : a < 0 ? -1 : 0 },
+            fract: function (a) { return a - Math.floor(a) },
+            mod: function (a, b) { return a - b * Math.floor(a / b) },
+            clamp: function (a, b, c) { return Math.min(Math.max(a, b), c) },
+            mix: function (a, b, t) { return a + (b - a) * t },
+            step: function (e, a) { return a < e ? 0 : 1 },
+            smoothstep: function (e0, e1, a) { let t = Math.min(Math.max((a - e0) / (e1 - e0), 0), 1); return t * t * (3 - 2 * t) }
+        };
+        private _tokens: string[];
+        private _pos: number = 0;
+        private _source: string;
+        private _variables: string[];
+        private constructor(source: string, variables: string[]) {
+            this._source = source;
+            this._variables = variables;
+            this._tokens = source.match(/\d*\.?\d+(?:[eE][-+]?\d+)?|[A-Za-z_][\w.]*|\S/g) || [];
+        }
+        /**
+         * 
+         * @param source expression, e.g. "1-sin(frame/6+2*ix*PI)/2"
+         * @param variables allowed variable names, FormulaExpression.Variables by default
+         */
+        static Compile(source: string, variables: string[] = FormulaExpression.Variables): (vars) => number {
+            let parser = new FormulaExpression(String(source), variables);
+            let f = parser.parseSum();
+            if (parser._pos < parser._tokens.length) {
+                parser.error("unexpected '" + parser._tokens[parser._pos] + "'");
+            }
+            return f;
+        }
+        private error(message: string) {
+            throw new Error("FormulaExpression: " + message + " in \"" + this._source + "\"");
+        }
+        private peek(): string {
+            return this._tokens[this._pos];
+        }
+        private expect(token: string) {
+            if (this._tokens[this._pos] !== token) {
+                this.error("'" + token + "' expected");
+            }
+            this._pos++;
+        }
+        private parseSum(): (vars) => number {
+            let left = this.parseProduct();
+            while (this.peek() === "+" || this.peek() === "-") {
+                let op = this._tokens[this._pos++];
+                let a = left, b = this.parseProduct();
+                left = op === "+" ? function (v) { return a(v) + b(v) } : function (v) { return a(v) - b(v) };
+            }
+            return left;
+        }
+        private parseProduct(): (vars) => number {
+            let left = this.parseUnary();
+            while (this.peek() === "*" || this.peek() === "/" || this.peek() === "%") {
+                let op = this._tokens[this._pos++];
+                let a = left, b = this.parseUnary();
+                if (op === "*") {
+                    left = function (v) { return a(v) * b(v) };
+                } else if (op === "/") {
+                    left = function (v) { return a(v) / b(v) };
+                } else {
+                    left = function (v) { return a(v) % b(v) };
+                }
+            }
+            return left;
+        }
+        private parseUnary(): (vars) => number {
+            if (this.peek() === "-") {
+                this._pos++;
+                let a = this.parseUnary();
+                return function (v) { return -a(v) };
+            }
+            if (this.peek() === "+") {
+                this._pos++;
+                return this.parseUnary();
+            }
+            return this.parsePower();
+        }
+        private parsePower(): (vars) => number {
+            let base = this.parsePrimary();
+            if (this.peek() === "^") {
+                this._pos++;
+                let exponent = this.parseUnary();
+                return function (v) { return Math.pow(base(v), exponent(v)) };
+            }
+            return base;
+        }
+        private parsePrimary(): (vars) => number {
+            let token = this._tokens[this._pos++];
+            if (token === undefined) {
+                this.error("unexpected end");
+            }
+            if (token === "(") {
+                let e = this.parseSum();
+                this.expect(")");
+                return e;
+            }
+            if (/^\d|^\.\d/.test(token)) {
+                let n = parseFloat(token);
+                return function (v) { return n };
+            }
+            if (/^[A-Za-z_]/.test(token)) {
+                let name = token.indexOf("Math.") === 0 ? token.substring(5) : token;
+                if (this.peek() === "(") {
+                    let fn = FormulaExpression.Functions[name];
+                    if (!FormulaExpression.Functions.hasOwnProperty(name)) {
+                        this.error("unknown function '" + name + "'");
+                    }
+                    this._pos++;
+                    let args = [];
+                    if (this.peek() !== ")") {
+                        args.push(this.parseSum());
+                        while (this.peek() === ",") {
+                            this._pos++;
+                            args.push(this.parseSum());
+                        }
+                    }
+                    this.expect(")");
+                    if (fn.length > 0 && args.length != fn.length && name != "min" && name != "max") {
+                        this.error("'" + name + "' expects " + fn.length + " arguments");
+                    }
+                    return function (v) {
+                        let values = [];
+                        for (let k = 0; k < args.length; k++) {
+                            values.push(args[k](v));
+                        }
+                        return fn.apply(null, values);
+                    };
+                }
+                if (FormulaExpression.Constants.hasOwnProperty(name)) {
+                    let c = FormulaExpression.Constants[name];
+                    return function (v) { return c };
+                }
+                if (this._variables.indexOf(name) < 0) {
+                    this.error("unknown variable '" + name + "'");
+                }
+                return function (v) { return v[name] };
+            }
+            this.error("unexpected '" + token + "'");
+        }
+    }
+    /**
+     * Falloff field: weights an effector per clone, according to the clone position in the cloner space.
+     * Shapes: "sphere", "box", "cylinder" (Y axis), "linear" (gradient from position to position+direction) and "noise".
+     */
+    export class Falloff {
+        private _shape: string;
+        private _position: BABYLON.Vector3 = new BABYLON.Vector3(0, 0, 0);
+        private _size: BABYLON.Vector3 = new BABYLON.Vector3(1, 1, 1);
+        private _direction: BABYLON.Vector3 = new BABYLON.Vector3(0, 1, 0);
+        private _falloff: number;
+        private _curve;
+        private _invert: boolean;
+        private _min: number;
+        private _max: number;
+        private _blend: string;
+        private _noiseScale: number;
+        private _seed: number;
+        private _clients = [];
+        animations = [];
+        /**
+         * 
+         * @param param0 all optional: shape, position, size (sphere/box/cylinder half extents), direction (linear), falloff (0: hard edge, 1: smooth from the center),
+         * curve ("linear", "smooth", "smoother" or a function of 0..1), invert, min, max (output range), blend (stacking mode: "max", "min", "add", "subtract", "multiply"), noiseScale, seed
+         */
+        constructor({ shape = "sphere", position = { x: 0, y: 0, z: 0 }, size = { x: 1, y: 1, z: 1 }, direction = { x: 0, y: 1, z: 0 }, falloff = 0.5, curve = "linear", invert = false, min = 0, max = 1, blend = "max", noiseScale = 1, seed = 42 } = {}) {
+            this._shape = shape;
+            this._position.copyFromFloats(position.x, position.y, position.z);
+            this._size.copyFromFloats(size.x, size.y, size.z);
+            this._direction.copyFromFloats(direction.x, direction.y, direction.z);
+            this._falloff = falloff;
+            this._curve = curve;
+            this._invert = invert;
+            this._min = min;
+            this._max = max;
+            this._blend = blend;
+            this._noiseScale = noiseScale;
+            this._seed = seed;
+        }
+        /**
+         * weight 0..1 of the falloff field at a position
+         * @param p position in the cloner space
+         */
+        getWeight(p: BABYLON.Vector3): number {
+            let x = p.x - this._position.x;
+            let y = p.y - this._position.y;
+            let z = p.z - this._position.z;
+            let v = 0;
+            if (this._shape == "linear") {
+                let d = this._direction;
+                let l2 = d.x * d.x + d.y * d.y + d.z * d.z;
+                v = l2 > 0 ? Falloff.clamp((x * d.x + y * d.y + z * d.z) / l2) : 1;
+            } else if (this._shape == "noise") {
+                v = Falloff.noise(x * this._noiseScale, y * this._noiseScale, z * this._noiseScale, this._seed);
+            } else {
+                // normalized distance to the center: 1 on the shape border
+                let dist;
+                let sx = x / this._size.x, sy = y / this._size.y, sz = z / this._size.z;
+                if (this._shape == "box") {
+                    dist = Math.max(Math.abs(sx), Math.abs(sy), Math.abs(sz));
+                } else if (this._shape == "cylinder") {
+                    dist = Math.max(Math.sqrt(sx * sx + sz * sz), Math.abs(sy));
+                } else {
+                    dist = Math.sqrt(sx * sx + sy * sy + sz * sz);
+                }
+                let inner = 1 - Falloff.clamp(this._falloff);
+                v = dist <= inner ? 1 : dist >= 1 ? 0 : 1 - (dist - inner) / (1 - inner);
+            }
+            v = this.remap(v);
+            return this._min + (this._max - this._min) * v;
+        }
+        remap(v: number): number {
+            if (typeof this._curve === "function") {
+                v = Falloff.clamp(this._curve(v));
+            } else if (this._curve == "smooth") {
+                v = v * v * (3 - 2 * v);
+            } else if (this._curve == "smoother") {
+                v = v * v * v * (v * (v * 6 - 15) + 10);
+            }
+            return this._invert ? 1 - v : v;
+        }
+        /**
+         * combined weight of stacked falloffs, each one blended on the previous result with its blend mode
+         * @param falloffs 
+         * @param p position in the cloner space
+         */
+        static getStackWeight(falloffs: Falloff[], p: BABYLON.Vector3): number {
+            let w = 0;
+            for (let i = 0; i < falloffs.length; i++) {
+                let v = falloffs[i].getWeight(p);
+                if (i == 0) {
+                    w = v;
+                    continue;
+                }
+                switch (falloffs[i]._blend) {
+                    case "min": w = Math.min(w, v); break;
+                    case "add": w = w + v; break;
+                    case "subtract": w = w - v; break;
+                    case "multiply": w = w * v; break;
+                    default: w = Math.max(w, v);
+                }
+            }
+            return Falloff.clamp(w);
+        }
+        static clamp(v: number): number {
+            return v < 0 ? 0 : v > 1 ? 1 : v;
+        }
+        static hash(x: number, y: number, z: number, seed: number): number {
+            let h = Math.sin(x * 127.1 + y * 311.7 + z * 74.7 + seed * 13.3) * 43758.5453;
+            return h - Math.floor(h);
+        }
+        /**
+         * seeded 3D value noise, 0..1
+         */
+        static noise(x: number, y: number, z: number, seed: number): number {
+            let ix = Math.floor(x), iy = Math.floor(y), iz = Math.floor(z);
+            let fx = x - ix, fy = y - iy, fz = z - iz;
+            fx = fx * fx * (3 - 2 * fx);
+            fy = fy * fy * (3 - 2 * fy);
+            fz = fz * fz * (3 - 2 * fz);
+            let h = Falloff.hash;
+            let x00 = h(ix, iy, iz, seed) + (h(ix + 1, iy, iz, seed) - h(ix, iy, iz, seed)) * fx;
+            let x10 = h(ix, iy + 1, iz, seed) + (h(ix + 1, iy + 1, iz, seed) - h(ix, iy + 1, iz, seed)) * fx;
+            let x01 = h(ix, iy, iz + 1, seed) + (h(ix + 1, iy, iz + 1, seed) - h(ix, iy, iz + 1, seed)) * fx;
+            let x11 = h(ix, iy + 1, iz + 1, seed) + (h(ix + 1, iy + 1, iz + 1, seed) - h(ix, iy + 1, iz + 1, seed)) * fx;
+            let y0 = x00 + (x10 - x00) * fy;
+            let y1 = x01 + (x11 - x01) * fy;
+            return y0 + (y1 - y0) * fz;
+        }
+        /**
+         * a curve function isn't serialized, it is replaced by "linear"
+         */
+        serialize(): ISerializedFalloff {
+            return {
+                shape: this._shape,
+                position: { x: this._position.x, y: this._position.y, z: this._position.z },
+                size: { x: this._size.x, y: this._size.y, z: this._size.z },
+                direction: { x: this._direction.x, y: this._direction.y, z: this._direction.z },
+                falloff: this._falloff,
+                curve: typeof this._curve === "function" ? "linear" : this._curve,
+                invert: this._invert,
+                min: this._min,
+                max: this._max,
+                blend: this._blend,
+                noiseScale: this._noiseScale,
+                seed: this._seed
+            };
+        }
+        static Parse(data: ISerializedFalloff): Falloff {
+            return new Falloff(data);
+        }
+        addClient(c) {
+            if (this._clients.indexOf(c) < 0) {
+                this._clients.push(c);
+            }
+        }
+        removeClient(c) {
+            let index = this._clients.indexOf(c);
+            if (index >= 0) {
+                this._clients.splice(index, 1);
+            }
+        }
+        updateClients() {
+            this._clients.forEach(function (c) { c.update() })
+            return this;
+        }
+        set shape(s: string) {
+            this._shape = s;
+            this.updateClients();
+        }
+        get shape() {
+            return this._shape;
+        }
+        set position(p: { x: number, y: number, z: number }) {
+            this._position.copyFromFloats(p.x, p.y, p.z);
+            this.updateClients();
+        }
+        get position() {
+            return this._position;
+        }
+        pos(p: { x: number, y: number, z: number }) {
+            this.position = p;
+            return this;
+        }
+        set size(s: { x: number, y: number, z: number }) {
+            this._size.copyFromFloats(s.x, s.y, s.z);
+            this.updateClients();
+        }
+        get size() {
+            return this._size;
+        }
+        set radius(r: number) {
+            this._size.copyFromFloats(r, r, r);
+            this.updateClients();
+        }
+        get radius() {
+            return this._size.x;
+        }
+        set direction(d: { x: number, y: number, z: number }) {
+            this._direction.copyFromFloats(d.x, d.y, d.z);
+            this.updateClients();
+        }
+        get direction() {
+            return this._direction;
+        }
+        set falloff(f: number) {
+            this._falloff = f;
+            this.updateClients();
+        }
+        get falloff() {
+            return this._falloff;
+        }
+        set curve(c) {
+            this._curve = c;
+            this.updateClients();
+        }
+        get curve() {
+            return this._curve;
+        }
+        set invert(i: boolean) {
+            this._invert = i;
+            this.updateClients();
+        }
+        get invert() {
+            return this._invert;
+        }
+        set min(m: number) {
+            this._min = m;
+            this.updateClients();
+        }
+        get min() {
+            return this._min;
+        }
+        set max(m: number) {
+            this._max = m;
+            this.updateClients();
+        }
+        get max() {
+            return this._max;
+        }
+        set blend(b: string) {
+            this._blend = b;
+            this.updateClients();
+        }
+        get blend() {
+            return this._blend;
+        }
+        set noiseScale(n: number) {
+            this._noiseScale = n;
+            this.updateClients();
+        }
+        get noiseScale() {
+            return this._noiseScale;
+        }
+        set seed(s: number) {
+            this._seed = s;
+            this.updateClients();
+        }
+        get seed() {
+            return this._seed;
+        }
+    }
+    export class Cloner {
+        static vOne = new BABYLON.Vector3(1, 1, 1);
+        static vZero = new BABYLON.Vector3(0, 0, 0);
+        _rootNode = null;
+        _mesh;
+        _scene;
+        _clones;
+        _frame: number = 0;
+        _index: number;
+       
+        _count: number;
+        _effectors = [];
+        _useThinInstances: boolean = false;
+        _thinHosts: BABYLON.Mesh[] = [];
+        _thinBuffers: Float32Array[] = [];
+        _thinColorBuffers: Float32Array[] = [];
+        _colorize: ColorEffector = null;
+        _beforeRender = null;
+        _autoFrame: boolean = true;
+        _parentCloner: Cloner = null;
+        _parentIndex: number = -1;
+        animations = [];
+        static _tmpMatrix = new BABYLON.Matrix();
+        setEnabled(enabled) {
+            this._rootNode.setEnabled(enabled);
+        }
+        createClone(parent) { }
+        update() { }
+        /**
+         * links a nested cloner, created by createClone() for a cloner used as source, to the clone of its parent cloner.
+         * The nested cloner gets the effectors of the cloner it was copied from.
+         * @param template cloner used as source
+         * @param parent cloner owning the clone, null if unknown
+         * @param index clone index in the parent cloner
+         */
+        setParentClone(template: Cloner, parent: Cloner, index: number) {
+            this._parentCloner = parent;
+            this._parentIndex = parent != null ? index : -1;
+            template._effectors.forEach((e) => {
+                this._effectors.push({ effector: e.effector, sensitivity: e.sensitivity, falloffs: e.falloffs });
+                e.effector.addClient(this);
+                e.falloffs.forEach((f) => { f.addClient(this) });
+            });
+            this.update();
+        }
+        get parentCloner(): Cloner {
+            return this._parentCloner;
+        }
+        get parentIndex(): number {
+            return this._parentIndex;
+        }
+        /**
+         * 
+         * @param effector
+         * @param sensitivity overall influence of the effector
+         * @param falloff optional Falloff, or array of stacked Falloffs, weighting the effector per clone position
+         */
+        addEffector(effector, sensitivity, falloff: Falloff | Falloff[] = null) {
+            this._effectors.push({ effector: effector, sensitivity: sensitivity, falloffs: [] });
+            effector.addClient(this);
+            this.setFalloff(effector, falloff);
+        }
+        /**
+         * replaces the falloffs of an effector already added
+         * @param effector
+         * @param falloff Falloff, array of stacked Falloffs or null
+         */
+        setFalloff(effector, falloff: Falloff | Falloff[]) {
+            let falloffs = falloff == null ? [] : falloff instanceof Array ? falloff : [falloff];
+            for (let i = 0; i < this._effectors.length; i++) {
+                if (this._effectors[i].effector === effector) {
+                    this._effectors[i].falloffs = falloffs;
+                }
+            }
+            falloffs.forEach((f) => { f.addClient(this) });
+            this.update();
+        }
+        get effectors() {
+            return this._effectors;
+        }
+        /**
+         * clone position before the effectors, in the cloner space, used by the falloffs
+         * @param i clone index
+         */
+        getClonePosition(i: number): BABYLON.Vector3 {
+            return null;
+        }
+        /**
+         * clone data passed to the effectors: index, count, position (see getClonePosition()), cloner and for a nested cloner the parent clone context
+         * @param index clone index, -1 if unknown
+         */
+        eContext(index: number): IEffectorContext {
+            let parent = this._parentCloner != null ? this._parentCloner.eContext(this._parentIndex) : null;
+            return { index: index, count: this._count, position: index < 0 ? null : this.getClonePosition(index), cloner: this, parentIndex: this._parentIndex, parent: parent };
+        }
+        /**
+         * effector influence for a clone: sensitivity weighted by the falloffs
+         * @param e effector entry
+         * @param position clone position, see getClonePosition()
+         */
+        eWeight(e, position: BABYLON.Vector3): number {
+            if (e.falloffs.length == 0 || position == null) {
+                return e.sensitivity;
+            }
+            return e.sensitivity * Falloff.getStackWeight(e.falloffs, position);
+        }
+        eScale(vec: BABYLON.Vector3, index: number = -1): BABYLON.Vector3 {
+            var vRet = Cloner.vZero.add(vec);
+            var context = this.eContext(index);
+            for (let i = 0; i < this._effectors.length; i++) {
+                vRet = BABYLON.Vector3.Lerp(vec, this._effectors[i].effector.updateScale(vRet, context), this.eWeight(this._effectors[i], context.position));
+            }
+            return vRet;
+        }
+        eRotate(vec: BABYLON.Vector3, index: number = -1): BABYLON.Vector3 {
+            var vRet = Cloner.vZero.add(vec);
+            var context = this.eContext(index);
+            for (let i = 0; i < this._effectors.length; i++) {
+                vRet = BABYLON.Vector3.Lerp(vec, this._effectors[i].effector.updateRotation(vRet, context), this.eWeight(this._effectors[i], context.position));
+            }
+            return vRet;
+        }
+        ePosition(vec, index: number = -1): BABYLON.Vector3 {
+            var vRet = Cloner.vZero.add(vec);
+            var context = this.eContext(index);
+            for (let i = 0; i < this._effectors.length; i++) {
+                vRet = BABYLON.Vector3.Lerp(vec, this._effectors[i].effector.updatePosition(vRet, context), this.eWeight(this._effectors[i], context.position));
+            }
+            return vRet;// BABYLON.Vector3.Lerp(vec,vRet,this._effectorStrength.x);
+        }
+        eReset() {
+            this._effectors.forEach(function (e) { e.effector.reset() });
+        }
+        /**
+         * thin-instance backend: creates one host mesh per source mesh, parented to the root node
+         * @param suffix name suffix of the host meshes
+         */
+        initThinInstances(suffix: string) {
+            this._thinHosts = [];
+            this._thinBuffers = [];
+            this._thinColorBuffers = [];
+            if (this._mesh.some(function (m) { return m instanceof Cloner })) {
+                // a nested cloner is not a mesh, the cloner keeps its node hierarchy
+                this._useThinInstances = false;
+                return;
+            }
+            for (let j = 0; j < this._mesh.length; j++) {
+                let host = this._mesh[j].clone(`${this._mesh[j].name}_${suffix}`);
+                host.parent = this._rootNode;
+                host.setEnabled(true);
+                this._thinHosts.push(host);
+                this._thinBuffers.push(null);
+                this._thinColorBuffers.push(null);
+            }
+        }
+        /**
+         * thin-instance backend: clone i is the thin instance i/meshcount of the host i%meshcount
+         * @param host host index
+         */
+        getThinInstanceCount(host: number): number {
+            let nbHosts = this._thinHosts.length;
+            return this._count > host ? Math.ceil((this._count - host) / nbHosts) : 0;
+        }
+        /**
+         * thin-instance backend: writes the clone transforms into the matrix buffers of the host meshes
+         */
+        updateThinInstances() {
+            let nbHosts = this._thinHosts.length;
+            for (let j = 0; j < nbHosts; j++) {
+                let host = this._thinHosts[j];
+                let nb = this.getThinInstanceCount(j);
+                // a host without thin instance would be rendered as a plain mesh
+                host.setEnabled(nb > 0);
+                if (nb == 0) {
+                    continue;
+                }
+                let buffer = this._thinBuffers[j];
+                let resized = buffer == null || buffer.length != nb * 16;
+                if (resized) {
+                    buffer = this._thinBuffers[j] = new Float32Array(nb * 16);
+                }
+                for (let k = 0; k < nb; k++) {
+                    this._clones[j + k * nbHosts].getMatrix(Cloner._tmpMatrix).copyToArray(buffer, k * 16);
+                }
+                if (resized) {
+                    host.thinInstanceSetBuffer("matrix", buffer, 16, false);
+                } else {
+                    host.thinInstanceBufferUpdated("matrix");
+                }
+                host.thinInstanceRefreshBoundingInfo(false);
+            }
+        }
+        /**
+         * thin-instance backend: writes the colors of a ColorEffector into the per instance color buffers of the host meshes
+         * @param colorize ColorEffector
+         * @param frame current frame
+         */
+        updateThinColors(colorize: ColorEffector, frame: number) {
+            let nbHosts = this._thinHosts.length;
+            for (let j = 0; j < nbHosts; j++) {
+                let nb = this.getThinInstanceCount(j);
+                if (nb == 0) {
+                    continue;
+                }
+                let buffer = this._thinColorBuffers[j];
+                let resized = buffer == null || buffer.length != nb * 4;
+                if (resized) {
+                    buffer = this._thinColorBuffers[j] = new Float32Array(nb * 4);
+                }
+                for (let k = 0; k < nb; k++) {
+                    let color = colorize.animate((j + k * nbHosts) / this._count, frame);
+                    buffer[k * 4] = color.r;
+                    buffer[k * 4 + 1] = color.g;
+                    buffer[k * 4 + 2] = color.b;
+                    buffer[k * 4 + 3] = color.a;
+                }
+                if (resized) {
+                    this._thinHosts[j].thinInstanceSetBuffer("color", buffer, 4, false);
+                } else {
+                    this._thinHosts[j].thinInstanceBufferUpdated("color");
+                }
+            }
+        }
+        /**
+         * sets the ColorEffector of the cloner, the frame then runs on each render
+         * @param colorize ColorEffector, null for none
+         */
+        initColorize(colorize: ColorEffector) {
+            this._colorize = colorize;
+            if (colorize == null || this._beforeRender != null) {
+                return;
+            }
+            this._beforeRender = () => {
+                if (this._autoFrame) this._frame++;
+                this.calcColor();
+            };
+            this._scene.registerBeforeRender(this._beforeRender);
+        }
+        /**
+         * colors a clone mesh just before its rendering, the clones share the material of their source mesh
+         * @param c clone mesh, child of the CMesh node holding the clone index
+         */
+        colorizeClone(c) {
+            c.registerBeforeRender(() => {
+                let color = this._colorize.animate(c.parent._index / this._count, this._frame);
+                c.material.diffuseColor.r = color.r;
+                c.material.diffuseColor.g = color.g;
+                c.material.diffuseColor.b = color.b;
+                c.material.alpha = color.a;
+            });
+        }
+        /**
+         * thin-instance backend: writes the ColorEffector output into the per instance color buffers
+         */
+        calcColor() {
+            if (this._useThinInstances && this._colorize != null) {
+                this.updateThinColors(this._colorize, this._frame);
+            }
+        }
+        /**
+         * serializes the effectors with their sensitivity and falloffs, inline or as indexes in the shared lists of a rig
+         * @param rig optional { effectors: [], falloffs: [] } shared lists, see SerializeRig()
+         */
+        serializeEffectors(rig: IRig = null): ISerializedEffectorLink[] {
+            return this._effectors.map(function (e) {
+                return {
+                    effector: rig ? Cloner.RigIndex(rig.effectors, e.effector) : e.effector.serialize(),
+                    sensitivity: e.sensitivity,
+                    falloffs: e.falloffs.map(function (f) { return rig ? Cloner.RigIndex(rig.falloffs, f) : f.serialize() })
+                };
+            });
+        }
+        /**
+         * adds the serialized effectors
+         * @param data serialized cloner
+         * @param scene
+         * @param rig optional { effectors: [], falloffs: [] } parsed shared lists, see ParseRig()
+         */
+        parseEffectors(data: ISerializedCloner, scene, rig: IRig = null) {
+            (data.effectors || []).forEach((e) => {
+                let effector = typeof e.effector === "number" ? rig.effectors[e.effector] : Cloner.ParseEffector(e.effector, scene);
+                let falloffs = e.falloffs.map(function (f) { return typeof f === "number" ? rig.falloffs[f] : Falloff.Parse(f) });
+                this.addEffector(effector, e.sensitivity, falloffs);
+            });
+        }
+        serialize(rig: IRig = null): ISerializedCloner {
+            return null;
+        }
+        static RigIndex<T>(list: T[], object: T): number {
+            let index = list.indexOf(object);
+            if (index < 0) {
+                list.push(object);
+                index = list.length - 1;
+            }
+            return index;
+        }
+        /**
+         * source meshes as names, a cloner used as source as its serialize() data
+         */
+        static SerializeMeshes(meshes: (BABYLON.AbstractMesh | Cloner)[], rig: IRig = null): (string | ISerializedCloner)[] {
+            return meshes.map(function (m) { return m instanceof Cloner ? m.serialize(rig) : m.name });
+        }
+        /**
+         * source meshes from their names, nested cloners from their serialize() data
+         */
+        static GetMeshes(names: (string | ISerializedCloner)[], scene, rig: IRig = null): (BABYLON.AbstractMesh | Cloner)[] {
+            return names.map(function (name) {
+                if (typeof name !== "string") {
+                    return Cloner.Parse(name, scene, rig);
+                }
+                let mesh = scene.getMeshByName(name);
+                if (!mesh) {
+                    throw new Error(`Cloner.Parse: mesh ${name} not found`);
+                }
+                return mesh;
+            });
+        }
+        static ParseEffector(data: ISerializedEffector, scene): Effector | RandomEffector {
+            switch (data.type) {
+                case "RandomEffector": return RandomEffector.Parse(<ISerializedRandomEffector>data);
+                case "PlainEffector": return PlainEffector.Parse(<ISerializedPlainEffector>data);
+                case "StepEffector": return StepEffector.Parse(<ISerializedPlainEffector>data);
+                case "TargetEffector": return TargetEffector.Parse(<ISerializedTargetEffector>data, scene);
+                case "DelayEffector": return DelayEffector.Parse(<ISerializedDelayEffector>data, scene);
+                case "FormulaEffector": return FormulaEffector.Parse(<ISerializedFormulaEffector>data, scene);
+            }
+            throw new Error(`Cloner.ParseEffector: unknown effector type ${data.type}`);
+        }
+        /**
+         * rebuilds a cloner from its serialize() data
+         * @param data
+         * @param scene scene where the source meshes are looked up by name
+         * @param rig optional parsed shared lists, see ParseRig()
+         */
+        static Parse(data: ISerializedCloner, scene, rig: IRig = null): Cloner {
+            switch (data.type) {
+                case "RadialCloner": return RadialCloner.Parse(<ISerializedRadialCloner>data, scene, rig);
+                case "ObjectCloner": return ObjectCloner.Parse(<ISerializedObjectCloner>data, scene, rig);
+                case "MatrixCloner": return MatrixCloner.Parse(<ISerializedMatrixCloner>data, scene, rig);
+                case "LinearCloner2": return LinearCloner2.Parse(<ISerializedLinearCloner>data, scene, rig);
+                case "LinearCloner": return LinearCloner.Parse(<ISerializedLinearCloner>data, scene, rig);
+                case "SplineCloner": return SplineCloner.Parse(<ISerializedSplineCloner>data, scene, rig);
+            }
+            throw new Error(`Cloner.Parse: unknown cloner type ${data.type}`);
+        }
+        /**
+         * JSON description of several cloners sharing effectors and falloffs
+         * @param cloners
+         */
+        static SerializeRig(cloners: Cloner[]): ISerializedRig {
+            let rig: IRig = { effectors: [], falloffs: [] };
+            let data = cloners.map(function (c) { return c.serialize(rig) });
+            return {
+                cloners: data,
+                effectors: rig.effectors.map(function (e) { return e.serialize() }),
+                falloffs: rig.falloffs.map(function (f) { return f.serialize() })
+            };
+        }
+        /**
+         * rebuilds the cloners of a SerializeRig() description, the effectors and falloffs are shared again
+         * @param data
+         * @param scene
+         */
+        static ParseRig(data: ISerializedRig, scene): Cloner[] {
+            let rig: IRig = {
+                effectors: data.effectors.map(function (e) { return Cloner.ParseEffector(e, scene) }),
+                falloffs: data.falloffs.map(function (f) { return Falloff.Parse(f) })
+            };
+            return data.cloners.map(function (c) { return Cloner.Parse(c, scene, rig) });
+        }
+        /**
+         * color of a clone, null if the cloner has no ColorEffector
+         * @param index clone index
+         */
+        getCloneColor(index: number): { r: number, g: number, b: number, a: number } {
+            return this._colorize != null ? this._colorize.animate(index / this._count, this._frame) : null;
+        }
+        /**
+         * evaluates the effectors and returns the clones, nested cloners included, as { mesh, matrix, color } items,
+         * mesh being the mesh holding the geometry and matrix the transform relative to the cloner root
+         */
+        getBakeItems() {
+            this.update();
+            let root = this._rootNode;
+            root.computeWorldMatrix(true);
+            let invRoot = BABYLON.Matrix.Invert(root.getWorldMatrix());
+            let items = [];
+            // descendants come parents first, so the world matrices are computed in order
+            root.getDescendants(false).forEach((node) => {
+                if (!(node instanceof BABYLON.AbstractMesh)) {
+                    return;
+                }
+                let m = <any>node;
+                m.computeWorldMatrix(true);
+                if (m.getTotalVertices() == 0 || !this.isCloneEnabled(m)) {
+                    return;
+                }
+                let world = m.getWorldMatrix().multiply(invRoot);
+                let owner: Cloner = m.parent && m.parent.cloner ? m.parent.cloner : null;
+                let host = owner != null ? owner._thinHosts.indexOf(m) : -1;
+                if (host >= 0) {
+                    let nbHosts = owner._thinHosts.length;
+                    for (let k = 0; k < owner.getThinInstanceCount(host); k++) {
+                        let index = host + k * nbHosts;
+                        items.push({ mesh: m, matrix: owner._clones[index].getMatrix(new BABYLON.Matrix()).multiply(world), color: owner.getCloneColor(index) });
+                    }
+                    return;
+                }
+                owner = m.parent && m.parent.parent && m.parent.parent.cloner ? m.parent.parent.cloner : null;
+                let color = owner != null ? owner.getCloneColor(m.parent._index) : null;
+                items.push({ mesh: m instanceof BABYLON.InstancedMesh ? m.sourceMesh : m, matrix: world, color: color });
+            });
+            return items;
+        }
+        /**
+         * the clones copy the enabled state of their source mesh, disabled by the cloner: the roots of this cloner and of its nested cloners tell whether a clone is shown
+         * @param mesh clone, instance or thin-instance host
+         */
+        isCloneEnabled(mesh: BABYLON.Node): boolean {
+            for (let node = mesh.parent; node != null; node = node.parent) {
+                if (node instanceof CMesh && node.cloner != null && node.cloner._rootNode === node && !node.isEnabled()) {
+                    return false;
+                }
+                if (node === this._rootNode) {
+                    return true;
+                }
+            }
+            return true;
+        }
+        /**
+         * freezes the cloner output at the current frame, then disposes the cloner.
+         * A disabled cloner gives an empty result and is not disposed.
+         * @param param0 all optional: merge (true: one merged mesh with vertex colors, false: a plain node tree of mesh clones), name, dispose
+         */
+        bake({ merge = true, name = null, dispose = true } = {}): BABYLON.Mesh {
+            name = name || this._rootNode.name + "_baked";
+            let items = this.getBakeItems();
+            let result = merge ? Cloner.MergeBakeItems(items, name, this._scene) : Cloner.BuildBakeNodes(items, name, this._scene);
+            let root = this._rootNode;
+            result.parent = root.parent;
+            result.position = root.position.clone();
+            result.rotation = root.rotation.clone();
+            if (root.rotationQuaternion) {
+                result.rotationQuaternion = root.rotationQuaternion.clone();
+            }
+            result.scaling = root.scaling.clone();
+            if (dispose && items.length > 0) {
+                this.dispose();
+            }
+            return result;
+        }
+        /**
+         * one mesh from the bake items: a submesh per geometry and material with a MultiMaterial if needed, the clone colors as vertex colors
+         */
+        static MergeBakeItems(items, name: string, scene): BABYLON.Mesh {
+            // the mesh clones and the thin-instance hosts share the geometry and material of their source mesh
+            let sources = [], groups = [];
+            items.forEach(function (item) {
+                let group = -1;
+                for (let s = 0; s < sources.length && group < 0; s++) {
+                    if (sources[s].geometry === item.mesh.geometry && sources[s].material === item.mesh.material) {
+                        group = s;
+                    }
+                }
+                if (group < 0) {
+                    sources.push(item.mesh);
+                    group = sources.length - 1;
+                }
+                groups.push(group);
+            });
+            let hasColors = items.some(function (item) { return item.color != null }) || sources.some(function (m) { return m.isVerticesDataPresent(BABYLON.VertexBuffer.ColorKind) });
+            let hasUVs = sources.length > 0 && sources.every(function (m) { return m.isVerticesDataPresent(BABYLON.VertexBuffer.UVKind) });
+            let positions = [], normals = [], uvs = [], colors = [], indices = [];
+            let subMeshes = [];
+            let v = new BABYLON.Vector3(0, 0, 0);
+            sources.forEach(function (source, s) {
+                let sp = source.getVerticesData(BABYLON.VertexBuffer.PositionKind);
+                let sn = source.getVerticesData(BABYLON.VertexBuffer.NormalKind);
+                let suv = hasUVs ? source.getVerticesData(BABYLON.VertexBuffer.UVKind) : null;
+                let sc = source.getVerticesData(BABYLON.VertexBuffer.ColorKind);
+                let si = source.getIndices();
+                let nbVertices = sp.length / 3;
+                if (!si) {
+                    si = [];
+                    for (let k = 0; k < nbVertices; k++) {
+                        si.push(k);
+                    }
+                }
+                if (!sn) {
+                    // keeps the normals aligned with the positions when only some sources have normals
+                    sn = [];
+                    BABYLON.VertexData.ComputeNormals(sp, si, sn);
+                }
+                let verticesStart = positions.length / 3;
+                let indexStart = indices.length;
+                items.forEach(function (item, i) {
+                    if (groups[i] !== s) {
+                        return;
+                    }
+                    let offset = positions.length / 3;
+                    let normalMatrix = BABYLON.Matrix.Transpose(BABYLON.Matrix.Invert(item.matrix));
+                    // a mirroring matrix turns the faces inside out, their winding is flipped back
+                    let mirrored = item.matrix.determinant() < 0;
+                    for (let k = 0; k < nbVertices; k++) {
+                        BABYLON.Vector3.TransformCoordinatesFromFloatsToRef(sp[k * 3], sp[k * 3 + 1], sp[k * 3 + 2], item.matrix, v);
+                        positions.push(v.x, v.y, v.z);
+                        BABYLON.Vector3.TransformNormalFromFloatsToRef(sn[k * 3], sn[k * 3 + 1], sn[k * 3 + 2], normalMatrix, v);
+                        v.normalize();
+                        normals.push(v.x, v.y, v.z);
+                        if (suv) {
+                            uvs.push(suv[k * 2], suv[k * 2 + 1]);
+                        }
+                        if (hasColors) {
+                            if (item.color != null) {
+                                colors.push(item.color.r, item.color.g, item.color.b, item.color.a === undefined ? 1 : item.color.a);
+                            } else if (sc) {
+                                colors.push(sc[k * 4], sc[k * 4 + 1], sc[k * 4 + 2], sc[k * 4 + 3]);
+                            } else {
+                                colors.push(1, 1, 1, 1);
+                            }
+                        }
+                    }
+                    for (let k = 0; k + 2 < si.length; k += 3) {
+                        if (mirrored) {
+                            indices.push(si[k] + offset, si[k + 2] + offset, si[k + 1] + offset);
+                        } else {
+                            indices.push(si[k] + offset, si[k + 1] + offset, si[k + 2] + offset);
+                        }
+                    }
+                });
+                subMeshes.push({ materialIndex: s, verticesStart: verticesStart, verticesCount: positions.length / 3 - verticesStart, indexStart: indexStart, indexCount: indices.length - indexStart });
+            });
+            let mesh = new BABYLON.Mesh(name, scene);
+            if (positions.length == 0) {
+                return mesh;
+            }
+            let vertexData = new BABYLON.VertexData();
+            vertexData.positions = positions;
+            vertexData.indices = indices;
+            vertexData.normals = normals;
+            if (hasUVs) {
+                vertexData.uvs = uvs;
+            }
+            if (hasColors) {
+                vertexData.colors = colors;
+            }
+            vertexData.applyToMesh(mesh);
+            if (sources.length == 1) {
+                mesh.material = sources[0].material;
+            } else {
+                let multi = new BABYLON.MultiMaterial(name + "_mm", scene);
+                sources.forEach(function (m) { multi.subMaterials.push(m.material) });
+                mesh.material = multi;
+                mesh.subMeshes = [];
+                subMeshes.forEach(function (sm) { new BABYLON.SubMesh(sm.materialIndex, sm.verticesStart, sm.verticesCount, sm.indexStart, sm.indexCount, mesh) });
+            }
+            return mesh;
+        }
+        /**
+         * plain node tree from the bake items: an empty root mesh with one mesh clone per item, colored clones get their own material
+         */
+        static BuildBakeNodes(items, name: string, scene): BABYLON.Mesh {
+            let root = new BABYLON.Mesh(name, scene);
+            let scale = new BABYLON.Vector3(0, 0, 0);
+            let rotation = new BABYLON.Quaternion();
+            let translation = new BABYLON.Vector3(0, 0, 0);
+            items.forEach(function (item, i) {
+                let m = item.mesh.clone(`${item.mesh.name}_${name}_${i}`, root, true);
+                if (m.thinInstanceCount > 0) {
+                    m.thinInstanceSetBuffer("matrix", null);
+                }
+                m.setEnabled(true);
+                item.matrix.decompose(scale, rotation, translation);
+                m.position = translation.clone();
+                m.rotationQuaternion = rotation.clone();
+                m.scaling = scale.clone();
+                if (item.color != null && m.material) {
+                    let material = m.material.clone(`${m.name}_mat`);
+                    let color = new BABYLON.Color3(item.color.r, item.color.g, item.color.b);
+                    if (material.diffuseColor !== undefined) {
+                        material.diffuseColor = color;
+                    } else if (material.albedoColor !== undefined) {
+                        material.albedoColor = color;
+                    }
+                    m.material = material;
+                }
+            });
+            return root;
+        }
+        /**
+         * stops the per frame callback and detaches the cloner from its effectors and falloffs
+         */
+        releaseRuntime() {
+            if (this._beforeRender != null) {
+                this._scene.unregisterBeforeRender(this._beforeRender);
+                this._beforeRender = null;
+            }
+            this._effectors.forEach((e) => {
+                if (e.effector.removeClient) {
+                    e.effector.removeClient(this);
+                }
+                e.falloffs.forEach((f) => { f.removeClient(this) });
+            });
+        }
+        /**
+         * disposes the cloner: root node, clones, thin-instance hosts and nested cloners
+         */
+        dispose() {
+            let nested = [];
+            this._rootNode.getDescendants(false).forEach((node) => {
+                let cloner = node instanceof CMesh ? node.cloner : null;
+                if (cloner != null && cloner !== this && nested.indexOf(cloner) < 0) {
+                    nested.push(cloner);
+                }
+            });
+            nested.forEach(function (c) { c.releaseRuntime() });
+            this.releaseRuntime();
+            this._rootNode.dispose();
+        }
+        /**
+         * frame used by the ColorEffector, incremented on each render when autoFrame is set.
+         * Setting it, by a BABYLON.Animation or an AnimationGroup for instance, updates the cloner.
+         */
+        get frame(): number {
+            return this._frame;
+        }
+        set frame(f: number) {
+            this._frame = f;
+            this.update();
+        }
+        /**
+         * false to drive frame from the scene timeline only
+         */
+        get autoFrame(): boolean {
+            return this._autoFrame;
+        }
+        set autoFrame(auto: boolean) {
+            this._autoFrame = auto;
+        }
+        /**
+         * creates a BABYLON.Animation for a cloner, effector or falloff property, to be played with scene.beginDirectAnimation() or added to an AnimationGroup.
+         * The number properties (count, radius, startangle, strength...) get a float animation, the others ({x, y, z} or Vector3) a Vector3 animation.
+         * @param property property name
+         * @param keys animation keys { frame, value }
+         * @param framePerSecond
+         * @param loopMode BABYLON.Animation loop mode
+         */
+        static CreateAnimation(property: string, keys: { frame: number, value: any }[], framePerSecond = 30, loopMode = BABYLON.Animation.ANIMATIONLOOPMODE_CYCLE): BABYLON.Animation {
+            let isNumber = keys.length == 0 || typeof keys[0].value === "number";
+            let animation = new BABYLON.Animation(`${property}Animation`, property, framePerSecond, isNumber ? BABYLON.Animation.ANIMATIONTYPE_FLOAT : BABYLON.Animation.ANIMATIONTYPE_VECTOR3, loopMode);
+            animation.setKeys(keys.map(function (k) {
+                return { frame: k.frame, value: isNumber ? k.value : new BABYLON.Vector3(k.value.x, k.value.y, k.value.z) };
+            }));
+            return animation;
+        }
+        getScene() { 
+            return this._scene;
+        }  
+    }
+    export class RadialCloner extends Cloner {
+        static instance_nr;
+        private _instance_nr;
+        private _useInstances: boolean;
+        private _radius: number;
+        private _plane: BABYLON.Vector3;
+        private _startangle: number;
+        private _endangle: number;
+        private _offset: number;
+        private _align: boolean;
+
+
+        /**
+         * 
+         * @param mesh mesh to clone
+         * @param scene
+         * @param param2 all optional: count, offset, radius startangle, endangle, useInstances, useThinInstances, plane,colorize
+         * if colorize function is provided, useInstances is set to false!
+         * useThinInstances draws all the clones of a source mesh as thin instances of one host mesh, colorize then fills a per instance color buffer
+         * autoFrame false: the frame only changes when set, e.g. by an animation
+         */
+        constructor(mesh, scene, { count = 3, offset = 0, radius = 3, align = true, startangle = 0, endangle = 360, useInstances = true, useThinInstances = false, plane = { x: 1, y: 0, z: 1 }, colorize = null, autoFrame = true} = {}) {
+            super();
+            RadialCloner.instance_nr = 0 | (RadialCloner.instance_nr + 1);
+            this._instance_nr = RadialCloner.instance_nr;
+            this._mesh = mesh;
+            this._mesh.forEach(function (m) { m.setEnabled(false); })
+            this._scene = scene;
+            this._useInstances = useInstances;
+            this._useThinInstances = useThinInstances;
+            this._clones = [];
+            this._count = Number(count);
+            this._radius = Number(radius);
+            this._plane = new BABYLON.Vector3(plane.x, plane.y, plane.z);
+            this._startangle = Math.PI * startangle / 180;
+            this._endangle = Math.PI * endangle / 180;
+            this._offset = offset;
+            this._align = align;
+            this._frame = 0;
+            this._index = 0;
+            this._colorize = colorize;
+            this._autoFrame = autoFrame;
+            if (colorize != null) this._useInstances = false;
+
+
+            //this._rootNode=new CMesh("root",this._scene,this);
+            this._rootNode = new CMesh(`rootRC_${this._instance_nr}`, this._scene, null, this);
+            if (this._useThinInstances) this.initThinInstances(`rc${this._instance_nr}`);
+            this._beforeRender = () => {
+                if (this._autoFrame) this._frame++;
+                this._index = 0;
+                this.calcColor();
+            };
+            this._scene.registerBeforeRender(this._beforeRender);
+            this.createClones();
+            this.update();
+
+        }
+        createClone(parent, dummyUseInstances = null, dummyName = null) {
+            var c = new RadialCloner(this._mesh, this._scene, { count: this._count, offset: this._offset, radius: this._radius, align: this._align, startangle: this._startangle * 180 / Math.PI, endangle: this._endangle * 180 / Math.PI, useInstances: this._useInstances, useThinInstances: this._useThinInstances, plane: { x: this._plane.x, y: this._plane.y, z: this._plane.z }, colorize: this._colorize, autoFrame: this._autoFrame })
+            parent._cloner = c;
+            c.root.parent = parent;
+            return c.root;
+        }
+
+        createClones(start = 0) {
+            for (let i = start; i < this._count; i++) {
+                if (this._useThinInstances) {
+                    this._clones.push(new CThinClone(i));
+                    continue;
+                }
+                //create Node for each clone, RADIAL=>parent = rootnode 
+                var n = new CMesh(`n_rc${this._instance_nr}_${i}`, this._scene, this._rootNode);
+                n._index = i;
+                this._clones.push(n);
+                //create clone
+                let cix = i % this._mesh.length;
+                let c = n.createClone(this._mesh[cix], this._useInstances, `${this._mesh[cix].name}_rc${this._instance_nr}_${i}`, this);
+                if (this._colorize != null && !(this._mesh[cix] instanceof Cloner)) this.colorizeClone(c);
+            }
+        }
+        calcRot() {
+            for (let i = 0; i < this._count; i++) {
+                let arange = this._endangle - this._startangle;
+                let step = arange / this._count;
+                this._clones[i].getChildren()[0].rotation.x = this._clones[i].getChildren()[0].rotation.y = this._clones[i].getChildren()[0].rotation.z = 0;
+                if (this._plane.y === 0) {
+                    this._clones[i].getChildren()[0].rotation.y = this._align ? this._offset + this._startangle + i * step : 0;
+                } else if (this._plane.x === 0) {
+                    this._clones[i].getChildren()[0].rotation.x = this._align ? -this._offset - this._startangle - i * step : 0;
+                } else {
+                    this._clones[i].getChildren()[0].rotation.z = this._align ? -this._offset - this._startangle - i * step : 0;
+                }
+
+                let vRet = this.eRotate(this._clones[i].getChildren()[0].rotation, i);
+                this._clones[i].getChildren()[0].rotation = vRet;
+            }
+
+        }
+        calcSize() {
+            for (let i = 0; i < this._count; i++) {
+                //var orig=BABYLON.Vector3.Lerp(Cloner.vOne, this._S, this._iModeRelative ? i : i / (this._count - 1));
+                this._clones[i].getChildren()[0].scaling = this.eScale(Cloner.vOne, i);
+            }
+        }
+        calcPos() {
+            this.eReset();
+            for (let i = 0; i < this._count; i++) {
+                let arange = this._endangle - this._startangle;
+                let step = arange / this._count;
+                this._clones[i].position.x = this._clones[i].position.y = this._clones[i].position.z = 0;
+                //this._clones[i].getChildren()[0].rotation.x = this._clones[i].getChildren()[0].rotation.y = this._clones[i].getChildren()[0].rotation.z = 0;
+                if (this._plane.y === 0) {
+                    this._clones[i].position.x = Math.sin(this._offset + this._startangle + i * step) * this._radius;
+                    this._clones[i].position.z = Math.cos(this._offset + this._startangle + i * step) * this._radius;
+                    //console.log(this._clones[i].position);
+                    this._clones[i].position = this.ePosition(this._clones[i].position, i);
+                    //this._clones[i].getChildren()[0].rotation.y = this._align ? this._offset + this._startangle + i * step : 0;
+                    //this._clones[i].scaling=RadialCloner.vOne.multiplyByFloats(1,(0.5+(this.frame%this._count))/this._count,1);
+                } else if (this._plane.x === 0) {
+                    this._clones[i].position.y = Math.sin(this._offset + this._startangle + i * step) * this._radius;
+                    this._clones[i].position.z = Math.cos(this._offset + this._startangle + i * step) * this._radius;
+                    this._clones[i].position = this.ePosition(this._clones[i].position, i);
+                    //this._clones[i].getChildren()[0].rotation.x = this._align ? -this._offset - this._startangle - i * step : 0;
+                } else {
+                    this._clones[i].position.x = Math.sin(this._offset + this._startangle + i * step) * this._radius;
+                    this._clones[i].position.y = Math.cos(this._offset + this._startangle + i * step) * this._radius;
+                    this._clones[i].position = this.ePosition(this._clones[i].position, i);
+                    //this._clones[i].getChildren()[0].rotation.z = this._align ? -this._offset - this._startangle - i * step : 0;
+                }
+            }
+        }
+        getClonePosition(i: number): BABYLON.Vector3 {
+            let angle = this._offset + this._startangle + i * (this._endangle - this._startangle) / this._count;
+            let a = Math.sin(angle) * this._radius;
+            let b = Math.cos(angle) * this._radius;
+            if (this._plane.y === 0) {
+                return new BABYLON.Vector3(a, 0, b);
+            } else if (this._plane.x === 0) {
+                return new BABYLON.Vector3(0, a, b);
+            }
+            return new BABYLON.Vector3(a, b, 0);
+        }
+        update() {
+            this.calcRot();
+            this.calcPos();
+            this.calcSize();
+            if (this._useThinInstances) this.updateThinInstances();
+        }
+        delete() {
+            for (let i = this._count - 1; i >= 0; i--) {
+                this._clones[i].delete();
+            }
             this._rootNode.dispose();
         }
         recalc() {
@@ -662,7 +2511,7 @@ module BABYLONX {
         }
         set count(scnt) {
 
-            let cnt = Number(scnt);
+            let cnt = Math.round(Number(scnt));
             if (cnt < Number(this._count)) {
                 for (let i = this._count - 1; i >= cnt; i--) {
                     this._clones[i].delete(); 
@@ -688,6 +2537,33 @@ module BABYLONX {
         get offset() {
             return this._offset * 180 / Math.PI;
         }
+        serialize(rig: IRig = null): ISerializedRadialCloner {
+            return {
+                type: "RadialCloner",
+                meshes: Cloner.SerializeMeshes(this._mesh, rig),
+                count: this._count,
+                offset: this._offset,
+                radius: this._radius,
+                align: this._align,
+                startangle: this.startangle,
+                endangle: this.endangle,
+                useInstances: this._useInstances,
+                useThinInstances: this._useThinInstances,
+                plane: { x: this._plane.x, y: this._plane.y, z: this._plane.z },
+                colorize: this._colorize != null ? this._colorize.serialize() : null,
+                autoFrame: this._autoFrame,
+                effectors: this.serializeEffectors(rig)
+            };
+        }
+        static Parse(data: ISerializedRadialCloner, scene, rig: IRig = null): RadialCloner {
+            let c = new RadialCloner(Cloner.GetMeshes(data.meshes, scene, rig), scene, {
+                count: data.count, offset: data.offset, radius: data.radius, align: data.align, startangle: data.startangle, endangle: data.endangle,
+                useInstances: data.useInstances, useThinInstances: data.useThinInstances, plane: data.plane, colorize: data.colorize ? ColorEffector.Parse(data.colorize) : null,
+                autoFrame: data.autoFrame !== false
+            });
+            c.parseEffectors(data, scene, rig);
+            return c;
+        }
         get root() {
             return this._rootNode;
         }
@@ -719,67 +2595,362 @@ module BABYLONX {
         get endangle() {
             return this._endangle * 180 / Math.PI;
         }
-        set plane(p) {
-            this._plane = new BABYLON.Vector3(p.x, p.y, p.z);
-            this.update();
+        set plane(p) {
+            this._plane = new BABYLON.Vector3(p.x, p.y, p.z);
+            this.update();
+        }
+        setScaling(ix, sc) {
+            this._clones[ix].scaling = new BABYLON.Vector3(sc.x, sc.y, sc.z);
+            this.update();  
+        }
+    }
+    export class ObjectCloner extends Cloner {
+        static instance_nr;
+        private _useInstances: boolean=true;
+        private _template;
+        private _instance_nr;
+        private _positions;
+        private _normals;
+        private _rotations = [];
+        private _mode: string;
+        private _sampleCount: number;
+        private _spacing: number;
+        private _seed: number;
+        private _align: boolean;
+        /**
+         * 
+         * @param mesh mesh to clone
+         * @param template reference mesh
+         * @param scene
+         * @param param3 all optional: useInstances, useThinInstances, mode ("facets", "vertices", "edges", "surface", "volume", "poisson"),
+         * count (surface and volume: number of clones, poisson: maximum), spacing (poisson: minimum distance), seed, align (clone Y axis along the surface normal),
+         * colorize (ColorEffector, useInstances is then set to false), autoFrame
+         */
+        constructor(mesh, template: BABYLON.Mesh, scene, {useInstances = true, useThinInstances = false, mode = "facets", count = 100, spacing = 0.5, seed = 42, align = false, colorize = null, autoFrame = true} = {}){
+            super();
+            ObjectCloner.instance_nr = 0 | (ObjectCloner.instance_nr + 1);
+            this._mesh = mesh;
+            this._scene=scene;
+            this._template = template;
+            this._useInstances = useInstances;
+            this._useThinInstances = useThinInstances;
+            this._clones = [];
+            this._mode = mode;
+            this._sampleCount = count;
+            this._spacing = spacing;
+            this._seed = seed;
+            this._align = align;
+            this._autoFrame = autoFrame;
+            if (colorize != null) this._useInstances = false;
+            this.calcSamples();
+            this._template.isVisible=false;//  setEnabled(false);
+            this._mesh.forEach(function (m) {
+                m.setEnabled(false);
+            })
+            this._instance_nr = ObjectCloner.instance_nr;
+            this._rootNode = new CMesh(`rootOC_${ObjectCloner.instance_nr}`, this._scene, null, this);
+            if (this._useThinInstances) this.initThinInstances(`oc${this._instance_nr}`);
+            this.initColorize(colorize);
+            this.createClones();
+            this.calcPos();
+            if (this._useThinInstances) this.updateThinInstances();
+        }
+        createClone(parent, dummyUseInstances = null, dummyName = null) {
+            var c = new ObjectCloner(this._mesh, this._template, this._scene, { useInstances: this._useInstances, useThinInstances: this._useThinInstances, mode: this._mode, count: this._sampleCount, spacing: this._spacing, seed: this._seed, align: this._align, colorize: this._colorize, autoFrame: this._autoFrame });
+            parent._cloner = c;
+            c.root.parent = parent;
+            return c.root;
+        }
+        createClones(start = 0) {
+            var cix = 0;
+            this._count=this._positions.length;
+            for(let i=0;i<this._positions.length;i++) {
+                if (this._useThinInstances) {
+                    this._clones.push(new CThinClone(i));
+                    continue;
+                }
+                cix = i % this._mesh.length;
+                var n = new CMesh(`n_lc${ObjectCloner.instance_nr}_${i}`, this._scene, this._rootNode);
+                n._index = i;
+                this._clones.push(n);
+                let c = n.createClone(this._mesh[cix], this._useInstances, `${this._mesh[cix].name}_mc${ObjectCloner.instance_nr}_${i}`, this);
+                if (this._colorize != null && !(this._mesh[cix] instanceof Cloner)) this.colorizeClone(c);
+           }
+        }
+        /**
+         * computes the clone positions, normals and rotations on the reference mesh according to the mode
+         */
+        calcSamples() {
+            this._rotations = [];
+            if (this._mode == "facets") {
+                this._positions = this._template.getFacetLocalPositions();
+                this._normals = this._template.getFacetLocalNormals();
+            } else {
+                let surface = this.getSurface();
+                let samples;
+                if (this._mode == "vertices") {
+                    samples = this.sampleVertices(surface);
+                } else if (this._mode == "edges") {
+                    samples = this.sampleEdges(surface);
+                } else if (this._mode == "volume") {
+                    samples = this.sampleVolume(surface);
+                } else if (this._mode == "poisson") {
+                    samples = this.samplePoisson(surface);
+                } else {
+                    samples = this.sampleSurface(surface, this._sampleCount, new RandomEffector(this._seed));
+                }
+                this._positions = samples.positions;
+                this._normals = samples.normals;
+            }
+            for (let i = 0; i < this._positions.length; i++) {
+                this._rotations.push(this._align && this._normals[i] ? ObjectCloner.getNormalRotation(this._normals[i]) : Cloner.vZero);
+            }
+        }
+        /**
+         * rotation turning the Y axis to the normal
+         * @param normal
+         */
+        static getNormalRotation(normal: BABYLON.Vector3): BABYLON.Vector3 {
+            let y = normal.clone().normalize();
+            let ref = Math.abs(y.z) < 0.9 ? BABYLON.Axis.Z : BABYLON.Axis.X;
+            let z = ref.subtract(y.scale(BABYLON.Vector3.Dot(ref, y))).normalize();
+            let x = BABYLON.Vector3.Cross(y, z);
+            return BABYLON.Vector3.RotationFromAxis(x, y, z);
+        }
+        /**
+         * local positions, normals and indices of the reference mesh
+         */
+        getSurface() {
+            let positions = this._template.getVerticesData(BABYLON.VertexBuffer.PositionKind);
+            let indices = this._template.getIndices();
+            let normals = this._template.getVerticesData(BABYLON.VertexBuffer.NormalKind);
+            if (!indices) {
+                indices = [];
+                for (let i = 0; i < positions.length / 3; i++) {
+                    indices.push(i);
+                }
+            }
+            if (!normals) {
+                normals = [];
+                BABYLON.VertexData.ComputeNormals(positions, indices, normals);
+            }
+            return { positions: positions, normals: normals, indices: indices };
+        }
+        static vertexKey(positions, i: number): string {
+            return `${Math.round(positions[i * 3] * 1e4)}_${Math.round(positions[i * 3 + 1] * 1e4)}_${Math.round(positions[i * 3 + 2] * 1e4)}`;
+        }
+        /**
+         * one sample per distinct vertex position, the normals of the vertices sharing a position are averaged
+         */
+        sampleVertices(surface) {
+            let p = surface.positions, n = surface.normals;
+            let keys = {};
+            let positions = [], normals = [];
+            for (let i = 0; i < p.length / 3; i++) {
+                let key = ObjectCloner.vertexKey(p, i);
+                if (keys[key] === undefined) {
+                    keys[key] = positions.length;
+                    positions.push(new BABYLON.Vector3(p[i * 3], p[i * 3 + 1], p[i * 3 + 2]));
+                    normals.push(new BABYLON.Vector3(0, 0, 0));
+                }
+                normals[keys[key]].addInPlace(new BABYLON.Vector3(n[i * 3], n[i * 3 + 1], n[i * 3 + 2]));
+            }
+            normals.forEach(function (v) { v.normalize() });
+            return { positions: positions, normals: normals };
+        }
+        /**
+         * one sample per distinct edge midpoint
+         */
+        sampleEdges(surface) {
+            let p = surface.positions, n = surface.normals, ind = surface.indices;
+            let keys = {};
+            let positions = [], normals = [];
+            for (let t = 0; t < ind.length; t += 3) {
+                for (let e = 0; e < 3; e++) {
+                    let a = ind[t + e], b = ind[t + (e + 1) % 3];
+                    let ka = ObjectCloner.vertexKey(p, a), kb = ObjectCloner.vertexKey(p, b);
+                    let key = ka < kb ? ka + "|" + kb : kb + "|" + ka;
+                    if (keys[key] === undefined) {
+                        keys[key] = positions.length;
+                        positions.push(new BABYLON.Vector3((p[a * 3] + p[b * 3]) / 2, (p[a * 3 + 1] + p[b * 3 + 1]) / 2, (p[a * 3 + 2] + p[b * 3 + 2]) / 2));
+                        normals.push(new BABYLON.Vector3(0, 0, 0));
+                    }
+                    normals[keys[key]].addInPlace(new BABYLON.Vector3(n[a * 3] + n[b * 3], n[a * 3 + 1] + n[b * 3 + 1], n[a * 3 + 2] + n[b * 3 + 2]));
+                }
+            }
+            normals.forEach(function (v) { v.normalize() });
+            return { positions: positions, normals: normals };
+        }
+        /**
+         * random points on the surface, the triangles being picked according to their area, with the interpolated vertex normals
+         * @param surface
+         * @param count
+         * @param generator seeded random generator
+         */
+        sampleSurface(surface, count: number, generator: RandomEffector) {
+            let p = surface.positions, n = surface.normals, ind = surface.indices;
+            let cumulated = [];
+            let total = 0;
+            for (let t = 0; t < ind.length; t += 3) {
+                let a = ind[t] * 3, b = ind[t + 1] * 3, c = ind[t + 2] * 3;
+                let ab = new BABYLON.Vector3(p[b] - p[a], p[b + 1] - p[a + 1], p[b + 2] - p[a + 2]);
+                let ac = new BABYLON.Vector3(p[c] - p[a], p[c + 1] - p[a + 1], p[c + 2] - p[a + 2]);
+                total += BABYLON.Vector3.Cross(ab, ac).length() / 2;
+                cumulated.push(total);
+            }
+            let positions = [], normals = [];
+            if (total == 0) {
+                return { positions: positions, normals: normals };
+            }
+            for (let k = 0; k < count; k++) {
+                // triangle by binary search on the cumulated areas
+                let r = generator.random() * total;
+                let lo = 0, hi = cumulated.length - 1;
+                while (lo < hi) {
+                    let mid = (lo + hi) >> 1;
+                    if (cumulated[mid] < r) {
+                        lo = mid + 1;
+                    } else {
+                        hi = mid;
+                    }
+                }
+                // uniform barycentric coordinates
+                let r1 = Math.sqrt(generator.random());
+                let r2 = generator.random();
+                let u = 1 - r1, v = r1 * (1 - r2), w = r1 * r2;
+                let a = ind[lo * 3] * 3, b = ind[lo * 3 + 1] * 3, c = ind[lo * 3 + 2] * 3;
+                positions.push(new BABYLON.Vector3(u * p[a] + v * p[b] + w * p[c], u * p[a + 1] + v * p[b + 1] + w * p[c + 1], u * p[a + 2] + v * p[b + 2] + w * p[c + 2]));
+                normals.push(new BABYLON.Vector3(u * n[a] + v * n[b] + w * n[c], u * n[a + 1] + v * n[b + 1] + w * n[c + 1], u * n[a + 2] + v * n[b + 2] + w * n[c + 2]).normalize());
+            }
+            return { positions: positions, normals: normals };
+        }
+        /**
+         * random points inside the closed volume of the reference mesh, by rejection in its bounding box
+         */
+        sampleVolume(surface) {
+            let p = surface.positions;
+            let min = new BABYLON.Vector3(Number.MAX_VALUE, Number.MAX_VALUE, Number.MAX_VALUE);
+            let max = min.scale(-1);
+            for (let i = 0; i < p.length; i += 3) {
+                let v = new BABYLON.Vector3(p[i], p[i + 1], p[i + 2]);
+                min.minimizeInPlace(v);
+                max.maximizeInPlace(v);
+            }
+            let generator = new RandomEffector(this._seed);
+            let positions = [], normals = [];
+            let attempts = this._sampleCount * 100;
+            while (positions.length < this._sampleCount && attempts-- > 0) {
+                let point = new BABYLON.Vector3(min.x + generator.random() * (max.x - min.x), min.y + generator.random() * (max.y - min.y), min.z + generator.random() * (max.z - min.z));
+                if (ObjectCloner.isInside(point, surface)) {
+                    positions.push(point);
+                    normals.push(null);
+                }
+            }
+            return { positions: positions, normals: normals };
+        }
+        /**
+         * point in closed mesh test: odd number of triangles crossed by a ray
+         */
+        static isInside(point: BABYLON.Vector3, surface): boolean {
+            let p = surface.positions, ind = surface.indices;
+            // slightly tilted direction, not to hit the edges of axis aligned geometries
+            let dx = 1, dy = 0.0013, dz = 0.0007;
+            let crossings = 0;
+            for (let t = 0; t < ind.length; t += 3) {
+                let a = ind[t] * 3, b = ind[t + 1] * 3, c = ind[t + 2] * 3;
+                let e1x = p[b] - p[a], e1y = p[b + 1] - p[a + 1], e1z = p[b + 2] - p[a + 2];
+                let e2x = p[c] - p[a], e2y = p[c + 1] - p[a + 1], e2z = p[c + 2] - p[a + 2];
+                let hx = dy * e2z - dz * e2y, hy = dz * e2x - dx * e2z, hz = dx * e2y - dy * e2x;
+                let det = e1x * hx + e1y * hy + e1z * hz;
+                if (Math.abs(det) < 1e-12) {
+                    continue;
+                }
+                let f = 1 / det;
+                let sx = point.x - p[a], sy = point.y - p[a + 1], sz = point.z - p[a + 2];
+                let u = f * (sx * hx + sy * hy + sz * hz);
+                if (u < 0 || u > 1) {
+                    continue;
+                }
+                let qx = sy * e1z - sz * e1y, qy = sz * e1x - sx * e1z, qz = sx * e1y - sy * e1x;
+                let v = f * (dx * qx + dy * qy + dz * qz);
+                if (v < 0 || u + v > 1) {
+                    continue;
+                }
+                if (f * (e2x * qx + e2y * qy + e2z * qz) > 0) {
+                    crossings++;
+                }
+            }
+            return crossings % 2 == 1;
         }
-        setScaling(ix, sc) {
-            this._clones[ix].scaling = new BABYLON.Vector3(sc.x, sc.y, sc.z);
-            this.update();  
+        /**
+         * Poisson-disk sampling of the surface: random surface points, rejected if closer than spacing to an accepted one
+         */
+        samplePoisson(surface) {
+            let generator = new RandomEffector(this._seed);
+            let spacing = this._spacing;
+            let candidates = this.sampleSurface(surface, this._sampleCount * 30, generator);
+            let grid = {};
+            let positions = [], normals = [];
+            for (let k = 0; k < candidates.positions.length && positions.length < this._sampleCount; k++) {
+                let c = candidates.positions[k];
+                let gx = Math.floor(c.x / spacing), gy = Math.floor(c.y / spacing), gz = Math.floor(c.z / spacing);
+                let rejected = false;
+                for (let x = gx - 1; x <= gx + 1 && !rejected; x++) {
+                    for (let y = gy - 1; y <= gy + 1 && !rejected; y++) {
+                        for (let z = gz - 1; z <= gz + 1 && !rejected; z++) {
+                            let cell = grid[x + "_" + y + "_" + z];
+                            if (cell) {
+                                for (let j = 0; j < cell.length; j++) {
+                                    if (BABYLON.Vector3.DistanceSquared(cell[j], c) < spacing * spacing) {
+                                        rejected = true;
+                                        break;
+                                    }
+                                }
+                            }
+                        }
+                    }
+                }
+                if (!rejected) {
+                    let key = gx + "_" + gy + "_" + gz;
+                    (grid[key] = grid[key] || []).push(c);
+                    positions.push(c);
+                    normals.push(candidates.normals[k]);
+                }
+            }
+            return { positions: positions, normals: normals };
         }
-    }
-    export class ObjectCloner extends Cloner {
-        static instance_nr;
-        private _useInstances: boolean=true;
-        private _template;
-        private _instance_nr;
-        private _positions;
-        private _normals;
-        constructor(mesh, template: BABYLON.Mesh, scene, {useInstances = true} = {}){
-            super();
-            ObjectCloner.instance_nr = 0 | (ObjectCloner.instance_nr + 1);
-            this._mesh = mesh;
-            this._scene=scene;
-            this._template = template;
-            this._useInstances = useInstances;
-            this._clones = [];
-            this._positions=template.getFacetLocalPositions();
-            this._normals=template.getFacetLocalNormals();
-            this._template.isVisible=false;//  setEnabled(false);
-            this._mesh.forEach(function (m) {
-                m.setEnabled(false);
-            })
-            this._instance_nr = ObjectCloner.instance_nr;
-            this._rootNode = new CMesh(`rootOC_${ObjectCloner.instance_nr}`, this._scene, null, this);
+        /**
+         * computes the samples again and creates the clones again
+         */
+        rebuild() {
+            for (let i = this._clones.length - 1; i >= 0; i--) {
+                this._clones[i].delete();
+            }
+            this._clones.length = 0;
+            this.calcSamples();
             this.createClones();
-            this.calcPos();
-        }
-        createClones(start = 0) {
-            var cix = 0;
-            this._count=this._positions.length;
-            for(let i=0;i<this._positions.length;i++) {
-                cix = i % this._mesh.length;
-                var n = new CMesh(`n_lc${ObjectCloner.instance_nr}_${i}`, this._scene, this._rootNode);
-                this._clones.push(n);
-                n.createClone(this._mesh[cix], this._useInstances, `${this._mesh[cix].name}_mc${ObjectCloner.instance_nr}_${i}`);
-           }
+            this.update();
+            if (this._count == 0 && this._useThinInstances) this.updateThinInstances();
         }
         calcRot() {
             for (let i = 0; i < this._count; i++) {
-                let vRet = this.eRotate(Cloner.vZero);
+                let vRet = this.eRotate(this._rotations[i], i);
                 this._clones[i].getChildren()[0].rotation = vRet;
             }
 
         }
         calcSize() {
             for (let i = 0; i < this._count; i++) {
-                this._clones[i].scaling = this.eScale(Cloner.vOne);
+                this._clones[i].scaling = this.eScale(Cloner.vOne, i);
             }
         }
+        getClonePosition(i: number): BABYLON.Vector3 {
+            return this._positions[i];
+        }
         calcPos() { 
             this.eReset();
             for(let i=0;i<this._clones.length;i++) {
-                this._clones[i].position=this.ePosition(this._positions[i]);
+                this._clones[i].position=this.ePosition(this._positions[i], i);
                 /*
                 this._clones[i].position.x=this._positions[i].x;
                 this._clones[i].position.y=this._positions[i].y;
@@ -792,8 +2963,73 @@ module BABYLONX {
                 this.calcRot();
                 this.calcPos();
                 this.calcSize();
+                if (this._useThinInstances) this.updateThinInstances();
             }
         }
+        set mode(m: string) {
+            this._mode = m;
+            this.rebuild();
+        }
+        get mode() {
+            return this._mode;
+        }
+        set count(c: number) {
+            this._sampleCount = Math.round(c);
+            this.rebuild();
+        }
+        get count() {
+            return this._count;
+        }
+        set spacing(s: number) {
+            this._spacing = s;
+            this.rebuild();
+        }
+        get spacing() {
+            return this._spacing;
+        }
+        set seed(s: number) {
+            this._seed = s;
+            this.rebuild();
+        }
+        get seed() {
+            return this._seed;
+        }
+        set align(a: boolean) {
+            this._align = a;
+            this.calcSamples();
+            this.update();
+        }
+        get align() {
+            return this._align;
+        }
+        /**
+         * the reference mesh is referenced by name
+         */
+        serialize(rig: IRig = null): ISerializedObjectCloner {
+            return {
+                type: "ObjectCloner",
+                meshes: Cloner.SerializeMeshes(this._mesh, rig),
+                template: this._template.name,
+                useInstances: this._useInstances,
+                useThinInstances: this._useThinInstances,
+                mode: this._mode,
+                count: this._sampleCount,
+                spacing: this._spacing,
+                seed: this._seed,
+                align: this._align,
+                colorize: this._colorize != null ? this._colorize.serialize() : null,
+                autoFrame: this._autoFrame,
+                effectors: this.serializeEffectors(rig)
+            };
+        }
+        static Parse(data: ISerializedObjectCloner, scene, rig: IRig = null): ObjectCloner {
+            let c = new ObjectCloner(Cloner.GetMeshes(data.meshes, scene, rig), <BABYLON.Mesh>Cloner.GetMeshes([data.template], scene)[0], scene, {
+                useInstances: data.useInstances, useThinInstances: data.useThinInstances, mode: data.mode, count: data.count, spacing: data.spacing, seed: data.seed, align: data.align,
+                colorize: data.colorize ? ColorEffector.Parse(data.colorize) : null, autoFrame: data.autoFrame !== false
+            });
+            c.parseEffectors(data, scene, rig);
+            return c;
+        }
         get root() {
             return this._rootNode;
         }
@@ -806,7 +3042,7 @@ module BABYLONX {
         private _iModeRelative;
         private _instance_nr;
 
-        constructor(mesh, scene, { useInstances = true, mcount = { x: 3, y: 3, z: 3 }, size = { x: 2, y: 2, z: 2 }, iModeRelative = false } = {}) {
+        constructor(mesh, scene, { useInstances = true, useThinInstances = false, mcount = { x: 3, y: 3, z: 3 }, size = { x: 2, y: 2, z: 2 }, iModeRelative = false, colorize = null, autoFrame = true } = {}) {
             super();
             MatrixCloner.instance_nr = 0 | (MatrixCloner.instance_nr + 1);
             this._mesh = mesh;
@@ -815,18 +3051,23 @@ module BABYLONX {
             })
             this._scene = scene,
                 this._useInstances = useInstances;
+            this._useThinInstances = useThinInstances;
             this._clones = [];
             this._size = size;
             this._mcount = mcount;
             this._count = Number(mcount.x * mcount.y * mcount.z);
             this._iModeRelative = iModeRelative;
+            this._autoFrame = autoFrame;
+            if (colorize != null) this._useInstances = false;
             this._instance_nr = MatrixCloner.instance_nr;
             this._rootNode = new CMesh(`rootMC_${MatrixCloner.instance_nr}`, this._scene, null, this);
+            if (this._useThinInstances) this.initThinInstances(`mc${this._instance_nr}`);
+            this.initColorize(colorize);
             this.createClones();
             this.update();
         }
         createClone(parent, dummyUseInstances = null, dummyName = null) {
-            var c = new MatrixCloner(this._mesh, this._scene, { mcount: this._mcount, size:this._size })
+            var c = new MatrixCloner(this._mesh, this._scene, { mcount: this._mcount, size:this._size, useInstances: this._useInstances, useThinInstances: this._useThinInstances, colorize: this._colorize, autoFrame: this._autoFrame })
             parent._cloner = c;
             c.root.parent = parent;
             return c.root;
@@ -836,21 +3077,28 @@ module BABYLONX {
             for (let z = start; z < this._mcount.z; z++) {
                 for (let y = start; y < this._mcount.y; y++) {
                     for (let x = start; x < this._mcount.x; x++) {
+                        if (this._useThinInstances) {
+                            this._clones.push(new CThinClone(x + this._mcount.x * y + this._mcount.x * this._mcount.y * z));
+                            continue;
+                        }
                         var n = new CMesh(`n_lc${MatrixCloner.instance_nr}_${x}${y}${z}`, this._scene, this._rootNode);
                         this._clones.push(n);
                         var xyz = x + this._mcount.x * y + this._mcount.x * this._mcount.y * z;
+                        n._index = xyz;
                         cix = xyz % this._mesh.length;
-                        n.createClone(this._mesh[cix], this._useInstances, `${this._mesh[cix].name}_mc${MatrixCloner.instance_nr}_${x}${y}${z}`);
+                        let c = n.createClone(this._mesh[cix], this._useInstances, `${this._mesh[cix].name}_mc${MatrixCloner.instance_nr}_${x}${y}${z}`, this);
+                        if (this._colorize != null && !(this._mesh[cix] instanceof Cloner)) this.colorizeClone(c);
                     }
                 }
             }
             this.calcPos();
         }
         set mcount(m) {
-            this._mcount = m;
+            this._mcount = { x: Math.round(m.x), y: Math.round(m.y), z: Math.round(m.z) };
             this.delete();
             this._count = Number(this._mcount.x * this._mcount.y * this._mcount.z);
             this.createClones();
+            if (this._useThinInstances) this.updateThinInstances();
         }
         get mcount() {
             return this._mcount;
@@ -880,16 +3128,25 @@ module BABYLONX {
         }
         calcRot() {
             for (let i = 0; i < this._count; i++) {
-                let vRet = this.eRotate(Cloner.vZero);
+                let vRet = this.eRotate(Cloner.vZero, i);
                 this._clones[i].getChildren()[0].rotation = vRet;
             }
 
         }
         calcSize() {
             for (let i = 0; i < this._count; i++) {
-                this._clones[i].getChildren()[0].scaling = this.eScale(Cloner.vOne);
+                this._clones[i].getChildren()[0].scaling = this.eScale(Cloner.vOne, i);
             }
         }
+        getClonePosition(i: number): BABYLON.Vector3 {
+            let x = i % this._mcount.x;
+            let y = Math.floor(i / this._mcount.x) % this._mcount.y;
+            let z = Math.floor(i / (this._mcount.x * this._mcount.y));
+            return new BABYLON.Vector3(
+                -this._size.x * (this._mcount.x - 1) / 2 + x * this._size.x,
+                -this._size.y * (this._mcount.y - 1) / 2 + y * this._size.y,
+                -this._size.z * (this._mcount.z - 1) / 2 + z * this._size.z);
+        }
         calcPos() {
             this.eReset();
             var cix = 0;
@@ -904,12 +3161,34 @@ module BABYLONX {
                         this._clones[xyz].position.x = xo + x * this._size.x;
                         this._clones[xyz].position.y = yo + y * this._size.y;
                         this._clones[xyz].position.z = zo + z * this._size.z;
-                        this._clones[xyz].getChildren()[0].position = this.ePosition(Cloner.vZero);
+                        this._clones[xyz].getChildren()[0].position = this.ePosition(Cloner.vZero, xyz);
                     }
                 }
             }
 
         }
+        serialize(rig: IRig = null): ISerializedMatrixCloner {
+            return {
+                type: "MatrixCloner",
+                meshes: Cloner.SerializeMeshes(this._mesh, rig),
+                useInstances: this._useInstances,
+                useThinInstances: this._useThinInstances,
+                mcount: { x: this._mcount.x, y: this._mcount.y, z: this._mcount.z },
+                size: { x: this._size.x, y: this._size.y, z: this._size.z },
+                iModeRelative: this._iModeRelative,
+                colorize: this._colorize != null ? this._colorize.serialize() : null,
+                autoFrame: this._autoFrame,
+                effectors: this.serializeEffectors(rig)
+            };
+        }
+        static Parse(data: ISerializedMatrixCloner, scene, rig: IRig = null): MatrixCloner {
+            let c = new MatrixCloner(Cloner.GetMeshes(data.meshes, scene, rig), scene, {
+                useInstances: data.useInstances, useThinInstances: data.useThinInstances, mcount: data.mcount, size: data.size, iModeRelative: data.iModeRelative,
+                colorize: data.colorize ? ColorEffector.Parse(data.colorize) : null, autoFrame: data.autoFrame !== false
+            });
+            c.parseEffectors(data, scene, rig);
+            return c;
+        }
         get root() {
             return this._rootNode;
         }
@@ -925,6 +3204,7 @@ module BABYLONX {
                 this.calcRot();
                 this.calcPos();
                 this.calcSize();
+                if (this._useThinInstances) this.updateThinInstances();
             }
 
 
@@ -975,15 +3255,16 @@ module BABYLONX {
             var cix = 0;
             for (let i = start; i < this._count; i++) {
                 var n = new CMesh(`n_lc${LinearCloner.instance_nr}_${i}`, this._scene, i == 0 ? this._rootNode : this._clones[i - 1]);
+                n._index = i;
                 this._clones.push(n);
                 cix = i % this._mesh.length;
-                n.createClone(this._mesh[cix], this._useInstances, `${this._mesh[cix].name}_lc${LinearCloner.instance_nr}_${i}`);
+                n.createClone(this._mesh[cix], this._useInstances, `${this._mesh[cix].name}_lc${LinearCloner.instance_nr}_${i}`, this);
             }
         }
         calcSize() {
             for (let i = 1; i < this._count; i++) {
                 var orig = BABYLON.Vector3.Lerp(Cloner.vOne, this._S, this._iModeRelative ? i : i / (this._count - 1));
-                this._clones[i].getChildren()[0].scaling = this.eScale(orig);
+                this._clones[i].getChildren()[0].scaling = this.eScale(orig, i);
             }
         }
         calcPos() {
@@ -995,10 +3276,10 @@ module BABYLONX {
             }
             //shift offset
             this._clones[0].position = BABYLON.Vector3.Lerp(Cloner.vZero, this._P, f * this._offset);
-            this._clones[0].position = this.ePosition(this._clones[0].position);
+            this._clones[0].position = this.ePosition(this._clones[0].position, 0);
             for (let i = 1; i < this._count; i++) {
                 this._clones[i].position = BABYLON.Vector3.Lerp(Cloner.vZero, this._P, f);
-                this._clones[i].getChildren()[0].position = this.ePosition(Cloner.vZero);
+                this._clones[i].getChildren()[0].position = this.ePosition(Cloner.vZero, i);
             }
         }
         calcRot() {
@@ -1007,7 +3288,7 @@ module BABYLONX {
                 //this._clones[i].getChildren()[0].rotation = BABYLON.Vector3.Lerp(Cloner.vZero, this._R, this._iModeRelative ? i * this._growth : i / (this._count - 1) * this._growth);
                 //this._clones[i].getChildren()[0].rotation = this.eRotate(Cloner.vZero);//   this._clones[i].rotation);
                 let vRot = BABYLON.Vector3.Lerp(Cloner.vZero, this._R, this._iModeRelative ? i * this._growth : i / (this._count - 1) * this._growth);
-                this._clones[i].getChildren()[0].rotation = this.eRotate(vRot);//   this._clones[i].rotation);
+                this._clones[i].getChildren()[0].rotation = this.eRotate(vRot, i);//   this._clones[i].rotation);
             }
         }
         update() {
@@ -1039,7 +3320,7 @@ module BABYLONX {
             this._rootNode.dispose();
         }
         set count(scnt) {
-            let cnt = Number(scnt);
+            let cnt = Math.round(Number(scnt));
 
             if (cnt < Number(this._count)) {
                 for (let i = this._count - 1; i >= cnt; i--) {
@@ -1106,6 +3387,28 @@ module BABYLONX {
         get offset() {
             return this._offset;
         }
+        serialize(rig: IRig = null): ISerializedLinearCloner {
+            return {
+                type: "LinearCloner2",
+                meshes: Cloner.SerializeMeshes(this._mesh, rig),
+                count: this._count,
+                offset: this._offset,
+                growth: this._growth,
+                useInstances: this._useInstances,
+                P: { x: this._P.x, y: this._P.y, z: this._P.z },
+                S: { x: this._S.x, y: this._S.y, z: this._S.z },
+                R: { x: this._R.x, y: this._R.y, z: this._R.z },
+                iModeRelative: this._iModeRelative,
+                effectors: this.serializeEffectors(rig)
+            };
+        }
+        static Parse(data: ISerializedLinearCloner, scene, rig: IRig = null): LinearCloner2 {
+            let c = new LinearCloner2(Cloner.GetMeshes(data.meshes, scene, rig), scene, {
+                count: <number>data.count, offset: data.offset, growth: data.growth, useInstances: data.useInstances, P: data.P, S: data.S, R: data.R, iModeRelative: data.iModeRelative
+            });
+            c.parseEffectors(data, scene, rig);
+            return c;
+        }
         get root() {
             return this._rootNode;
         }
@@ -1126,7 +3429,7 @@ module BABYLONX {
         private _countNumberGen = null;
 
 
-        constructor(mesh, scene, { count =null, offset = 0, growth = 1, useInstances = true, P = { x: 0, y: 2, z: 0 }, S = { x: 1, y: 1, z: 1 }, R = { x: 0, y: 0, z: 0 }, iModeRelative = false } = {}) {
+        constructor(mesh, scene, { count =null, offset = 0, growth = 1, useInstances = true, useThinInstances = false, P = { x: 0, y: 2, z: 0 }, S = { x: 1, y: 1, z: 1 }, R = { x: 0, y: 0, z: 0 }, iModeRelative = false, colorize = null, autoFrame = true } = {}) {
             super();
             LinearCloner.instance_nr = 0 | (LinearCloner.instance_nr + 1);
             this._mesh = mesh;
@@ -1135,6 +3438,7 @@ module BABYLONX {
             })
             this._scene = scene,
                 this._useInstances = useInstances;
+            this._useThinInstances = useThinInstances;
             this._clones = [];
             this._countNumberGen = count instanceof RandomNumberGen ? count : null;
             this._count = count instanceof RandomNumberGen ? count.nextInt():Number(count);
@@ -1144,29 +3448,37 @@ module BABYLONX {
             this._R = new BABYLON.Vector3(R.x * Math.PI / 180, R.y* Math.PI / 180, R.z* Math.PI / 180);
             this._iModeRelative = iModeRelative;
             this._growth = growth;
+            this._autoFrame = autoFrame;
+            if (colorize != null) this._useInstances = false;
             this._instance_nr = LinearCloner.instance_nr;
             this._rootNode = new CMesh(`rootLC_${LinearCloner.instance_nr}`, this._scene, null, this);
+            if (this._useThinInstances) this.initThinInstances(`lc${this._instance_nr}`);
+            this.initColorize(colorize);
             this.createClones();
             this.update();
 
         }
         createClone(parent, dummyUseInstances = null, dummyName = null) {
             let cnt = this._countNumberGen != null ? this._countNumberGen.nextInt() : this._count;
-            var c = new LinearCloner(this._mesh, this._scene, { count: cnt, offset: this._offset, growth: this._growth, useInstances: this._useInstances, P: { x: this._P.x, y: this._P.y, z: this._P.z }, S: { x: this._S.x, y: this._S.y, z: this._S.z }, R: { x: this._R.x, y: this._R.y, z: this._R.z }, iModeRelative: this._iModeRelative })
+            var c = new LinearCloner(this._mesh, this._scene, { count: cnt, offset: this._offset, growth: this._growth, useInstances: this._useInstances, useThinInstances: this._useThinInstances, P: { x: this._P.x, y: this._P.y, z: this._P.z }, S: { x: this._S.x, y: this._S.y, z: this._S.z }, R: { x: this._R.x, y: this._R.y, z: this._R.z }, iModeRelative: this._iModeRelative, colorize: this._colorize, autoFrame: this._autoFrame })
             parent._cloner = c;
             c.root.parent = parent;
             return c.root;
         }
         createClones(start = 0) {
             for (let i = start; i < this._count; i++) {
+                if (this._useThinInstances) {
+                    this._clones.push(new CThinClone(i));
+                    continue;
+                }
                 //create Node for each clone, RADIAL=>parent = rootnode 
                 var n = new CMesh(`n_lc${this._instance_nr}_${i}`, this._scene, this._rootNode);
-                //n.index = i;
+                n._index = i;
                 this._clones.push(n);
                 //create clone
                 let cix = i % this._mesh.length;
-                let c = n.createClone(this._mesh[cix], this._useInstances, `${this._mesh[cix].name}_lc${this._instance_nr}_${i}`);
-                //c.material.diffuseColor.g = 1-i / this._count;
+                let c = n.createClone(this._mesh[cix], this._useInstances, `${this._mesh[cix].name}_lc${this._instance_nr}_${i}`, this);
+                if (this._colorize != null && !(this._mesh[cix] instanceof Cloner)) this.colorizeClone(c);
             }
         }
         
@@ -1174,15 +3486,16 @@ module BABYLONX {
             var cix = 0;
             for (let i = start; i < this._count; i++) {
                 var n = new CMesh(`n_lc${LinearCloner.instance_nr}_${i}`, this._scene, i == 0 ? this._rootNode : this._clones[i - 1]);
+                n._index = i;
                 this._clones.push(n);
                 cix = i % this._mesh.length;
-                n.createClone(this._mesh[cix], this._useInstances, `${this._mesh[cix].name}_lc${LinearCloner.instance_nr}_${i}`);
+                n.createClone(this._mesh[cix], this._useInstances, `${this._mesh[cix].name}_lc${LinearCloner.instance_nr}_${i}`, this);
             }
         }
         calcSize() {
             for (let i = 1; i < this._count; i++) {
                 var orig = BABYLON.Vector3.Lerp(Cloner.vOne, this._S, this._iModeRelative ? i : i / (this._count - 1));
-                this._clones[i].getChildren()[0].scaling = this.eScale(orig);
+                this._clones[i].getChildren()[0].scaling = this.eScale(orig, i);
                 //this._clones[i].scaling = this.eScale(orig);
             }
         }
@@ -1197,9 +3510,16 @@ module BABYLONX {
                 let off=BABYLON.Vector3.Lerp(Cloner.vZero, this._P, f * this._offset);
                 let v=BABYLON.Vector3.Lerp(Cloner.vZero, this._P, i*f );
                 let v2=v.add(off);
-                this._clones[i].position = this.ePosition(v2);
+                this._clones[i].position = this.ePosition(v2, i);
             }
          }
+        getClonePosition(i: number): BABYLON.Vector3 {
+            let f = this._growth;
+            if (this._iModeRelative == false) {
+                f = 1 / (this._count == 1 ? 1 : this._count - 1) * this._growth;
+            }
+            return BABYLON.Vector3.Lerp(Cloner.vZero, this._P, (i + this._offset) * f);
+        }
         calcPos2() {
             this.eReset();
             let f = this._growth;
@@ -1209,11 +3529,11 @@ module BABYLONX {
             }
             //shift offset
             this._clones[0].position = BABYLON.Vector3.Lerp(Cloner.vZero, this._P, f * this._offset);
-            this._clones[0].position = this.ePosition(this._clones[0].position);
+            this._clones[0].position = this.ePosition(this._clones[0].position, 0);
             for (let i = 1; i < this._count; i++) {
                 let v=BABYLON.Vector3.Lerp(Cloner.vZero, this._P, f);
                 this._clones[i].position = v;
-                this._clones[i].getChildren()[0].position = this.ePosition(Cloner.vZero);
+                this._clones[i].getChildren()[0].position = this.ePosition(Cloner.vZero, i);
             }
         }
         calcRot() { 
@@ -1222,23 +3542,8 @@ module BABYLONX {
                 //this._clones[i].getChildren()[0].rotation = BABYLON.Vector3.Lerp(Cloner.vZero, this._R, this._iModeRelative ? i * this._growth : i / (this._count - 1) * this._growth);
                 //this._clones[i].getChildren()[0].rotation = this.eRotate(Cloner.vZero);//   this._clones[i].rotation);
                 let vRot = BABYLON.Vector3.Lerp(Cloner.vZero, this._R, this._iModeRelative ? i * this._growth : i / (this._count - 1) * this._growth);
-                this._clones[i].getChildren()[0].rotation = this.eRotate(vRot);//   this._clones[i].rotation);
-            }
-        }
-        calcColor() {
-            /*
-            if (this._effectors.length > 0) {
-                let e = this._effectors[0];
-                for (let i = 1; i < this._count; i++) {
-                    let cr = e.effector.getRandomColor();
-                    let cg = e.effector.getRandomColor();
-                    let cb = e.effector.getRandomColor();
-                    this._clones[i].getChildren()[0].material.diffuseColor.r = cr;
-                    this._clones[i].getChildren()[0].material.diffuseColor.g = cg;
-                    this._clones[i].getChildren()[0].material.diffuseColor.b = cb;
-                }
+                this._clones[i].getChildren()[0].rotation = this.eRotate(vRot, i);//   this._clones[i].rotation);
             }
-            */
         }
         update() {
             if (this._count > 0) {
@@ -1246,6 +3551,7 @@ module BABYLONX {
                 this.calcPos();
                 this.calcSize();
                 this.calcColor();
+                if (this._useThinInstances) this.updateThinInstances();
             }
 
 
@@ -1273,7 +3579,7 @@ module BABYLONX {
             this._rootNode.dispose();
         }
         set count(scnt) {
-            let cnt = Number(scnt);
+            let cnt = Math.round(Number(scnt));
 
             if (cnt < Number(this._count)) {
                 for (let i = this._count - 1; i >= cnt; i--) {
@@ -1359,6 +3665,36 @@ module BABYLONX {
         get offset() {
             return this._offset;
         }
+        /**
+         * a RandomNumberGen count is serialized with its settings
+         */
+        serialize(rig: IRig = null): ISerializedLinearCloner {
+            return {
+                type: "LinearCloner",
+                meshes: Cloner.SerializeMeshes(this._mesh, rig),
+                count: this._countNumberGen != null ? this._countNumberGen.serialize() : this._count,
+                offset: this._offset,
+                growth: this._growth,
+                useInstances: this._useInstances,
+                useThinInstances: this._useThinInstances,
+                P: { x: this._P.x, y: this._P.y, z: this._P.z },
+                S: { x: this._S.x, y: this._S.y, z: this._S.z },
+                R: this.rotation,
+                iModeRelative: this._iModeRelative,
+                colorize: this._colorize != null ? this._colorize.serialize() : null,
+                autoFrame: this._autoFrame,
+                effectors: this.serializeEffectors(rig)
+            };
+        }
+        static Parse(data: ISerializedLinearCloner, scene, rig: IRig = null): LinearCloner {
+            let c = new LinearCloner(Cloner.GetMeshes(data.meshes, scene, rig), scene, {
+                count: typeof data.count === "number" ? data.count : RandomNumberGen.Parse(data.count), offset: data.offset, growth: data.growth,
+                useInstances: data.useInstances, useThinInstances: data.useThinInstances, P: data.P, S: data.S, R: data.R, iModeRelative: data.iModeRelative,
+                colorize: data.colorize ? ColorEffector.Parse(data.colorize) : null, autoFrame: data.autoFrame !== false
+            });
+            c.parseEffectors(data, scene, rig);
+            return c;
+        }
         get root() {
             return this._rootNode;
         }
@@ -1366,4 +3702,312 @@ module BABYLONX {
             return this._mesh;
         }
     }
+    export class SplineCloner extends Cloner {
+        static instance_nr;
+        private _instance_nr;
+        private _useInstances: boolean;
+        private _path;
+        private _path3d: BABYLON.Path3D;
+        private _length: number;
+        private _spacing: number;
+        private _startOffset: number;
+        private _endOffset: number;
+        private _align: boolean;
+        private _up: BABYLON.Vector3;
+        private _loop: boolean;
+        private _samples = [];
+
+        /**
+         * 
+         * @param mesh mesh to clone
+         * @param path Path3D, Curve3 or array of Vector3
+         * @param scene
+         * @param param3 all optional: count, spacing (if > 0, distance between clones, the count is then computed), startOffset, endOffset (fractions of the path length),
+         * align (clone Z axis along the tangent, Y axis along the path normal or the up vector), up, loop (closed path), useInstances, useThinInstances,
+         * colorize (ColorEffector, useInstances is then set to false), autoFrame
+         */
+        constructor(mesh, path, scene, { count = 10, spacing = 0, startOffset = 0, endOffset = 0, align = true, up = null, loop = false, useInstances = true, useThinInstances = false, colorize = null, autoFrame = true } = {}) {
+            super();
+            SplineCloner.instance_nr = 0 | (SplineCloner.instance_nr + 1);
+            this._instance_nr = SplineCloner.instance_nr;
+            this._mesh = mesh;
+            this._mesh.forEach(function (m) { m.setEnabled(false); })
+            this._scene = scene;
+            this._useInstances = useInstances;
+            this._useThinInstances = useThinInstances;
+            this._clones = [];
+            this._count = 0;
+            this._spacing = spacing;
+            this._startOffset = startOffset;
+            this._endOffset = endOffset;
+            this._align = align;
+            this._up = up == null ? null : new BABYLON.Vector3(up.x, up.y, up.z);
+            this._loop = loop;
+            this._autoFrame = autoFrame;
+            if (colorize != null) this._useInstances = false;
+            this._rootNode = new CMesh(`rootSC_${this._instance_nr}`, this._scene, null, this);
+            if (this._useThinInstances) this.initThinInstances(`sc${this._instance_nr}`);
+            this.initColorize(colorize);
+            this.setPath(path);
+            this._count = Number(count);
+            this.calcSamples();
+            this.update();
+        }
+        createClone(parent, dummyUseInstances = null, dummyName = null) {
+            var c = new SplineCloner(this._mesh, this._path, this._scene, { count: this._count, spacing: this._spacing, startOffset: this._startOffset, endOffset: this._endOffset, align: this._align, up: this._up, loop: this._loop, useInstances: this._useInstances, useThinInstances: this._useThinInstances, colorize: this._colorize, autoFrame: this._autoFrame })
+            parent._cloner = c;
+            c.root.parent = parent;
+            return c.root;
+        }
+        createClones(start = 0) {
+            for (let i = start; i < this._count; i++) {
+                if (this._useThinInstances) {
+                    this._clones.push(new CThinClone(i));
+                    continue;
+                }
+                var n = new CMesh(`n_sc${this._instance_nr}_${i}`, this._scene, this._rootNode);
+                n._index = i;
+                this._clones.push(n);
+                let cix = i % this._mesh.length;
+                let c = n.createClone(this._mesh[cix], this._useInstances, `${this._mesh[cix].name}_sc${this._instance_nr}_${i}`, this);
+                if (this._colorize != null && !(this._mesh[cix] instanceof Cloner)) this.colorizeClone(c);
+            }
+        }
+        /**
+         * sets the path, a closed path gets its first point appended when loop is set
+         * @param path Path3D, Curve3 or array of Vector3
+         */
+        setPath(path) {
+            this._path = path;
+            let points: BABYLON.Vector3[] = path instanceof BABYLON.Curve3 ? path.getPoints() : path instanceof BABYLON.Path3D ? path.getCurve() : path;
+            if (this._loop && points.length > 1 && !points[0].equals(points[points.length - 1])) {
+                points = points.concat([points[0]]);
+                this._path3d = new BABYLON.Path3D(points);
+            } else {
+                this._path3d = path instanceof BABYLON.Path3D ? path : new BABYLON.Path3D(points);
+            }
+            let distances = this._path3d.getDistances();
+            this._length = distances[distances.length - 1];
+        }
+        /**
+         * position, tangent and normal at a distance along the path
+         * @param s distance from the path start
+         */
+        getPathFrame(s: number) {
+            let points = this._path3d.getCurve();
+            let tangents = this._path3d.getTangents();
+            let normals = this._path3d.getNormals();
+            let distances = this._path3d.getDistances();
+            let last = points.length - 1;
+            if (last < 1) {
+                return { position: points[0].clone(), tangent: tangents[0].clone(), normal: normals[0].clone() };
+            }
+            // binary search of the segment
+            let lo = 0, hi = last;
+            while (hi - lo > 1) {
+                let mid = (lo + hi) >> 1;
+                if (distances[mid] <= s) {
+                    lo = mid;
+                } else {
+                    hi = mid;
+                }
+            }
+            let d = distances[hi] - distances[lo];
+            let t = d > 0 ? Math.max(0, Math.min(1, (s - distances[lo]) / d)) : 0;
+            // the Path3D tangent and normal of a point are the ones of the segment starting from it
+            return {
+                position: BABYLON.Vector3.Lerp(points[lo], points[hi], t),
+                tangent: tangents[lo].clone(),
+                normal: normals[lo].clone()
+            };
+        }
+        /**
+         * computes the clone positions and orientations along the path, the count is computed in spacing mode
+         */
+        calcSamples() {
+            let length = this._length;
+            let start = this._startOffset * length;
+            let n, step;
+            if (this._loop) {
+                n = this._spacing > 0 ? Math.max(1, Math.floor(length / this._spacing)) : this._count;
+                step = this._spacing > 0 ? this._spacing : length / Math.max(1, n);
+            } else {
+                let range = Math.max(0, (1 - this._endOffset) * length - start);
+                n = this._spacing > 0 ? Math.floor(range / this._spacing) + 1 : this._count;
+                step = this._spacing > 0 ? this._spacing : n > 1 ? range / (n - 1) : 0;
+            }
+            this._samples = [];
+            for (let i = 0; i < n; i++) {
+                let s = start + i * step;
+                if (this._loop) {
+                    s = ((s % length) + length) % length;
+                }
+                let frame = this.getPathFrame(s);
+                let rotation = new BABYLON.Vector3(0, 0, 0);
+                if (this._align) {
+                    let up = this._up != null ? this._up : frame.normal;
+                    let x = BABYLON.Vector3.Cross(up, frame.tangent);
+                    if (x.lengthSquared() < 1e-10) {
+                        x = BABYLON.Vector3.Cross(frame.normal, frame.tangent);
+                    }
+                    x.normalize();
+                    let y = BABYLON.Vector3.Cross(frame.tangent, x);
+                    rotation = BABYLON.Vector3.RotationFromAxis(x, y, frame.tangent);
+                }
+                this._samples.push({ position: frame.position, rotation: rotation });
+            }
+            this.setCount(n);
+        }
+        private setCount(cnt: number) {
+            if (cnt < this._clones.length) {
+                for (let i = this._clones.length - 1; i >= cnt; i--) {
+                    this._clones[i].delete();
+                }
+                this._clones.length = cnt;
+                this._count = cnt;
+            } else if (cnt > this._clones.length) {
+                var start = this._clones.length;
+                this._count = cnt;
+                this.createClones(start);
+            }
+            this._count = cnt;
+        }
+        getClonePosition(i: number): BABYLON.Vector3 {
+            return this._samples[i].position;
+        }
+        calcRot() {
+            for (let i = 0; i < this._count; i++) {
+                this._clones[i].getChildren()[0].rotation = this.eRotate(this._samples[i].rotation, i);
+            }
+        }
+        calcPos() {
+            this.eReset();
+            for (let i = 0; i < this._count; i++) {
+                this._clones[i].position = this.ePosition(this._samples[i].position, i);
+            }
+        }
+        calcSize() {
+            for (let i = 0; i < this._count; i++) {
+                this._clones[i].getChildren()[0].scaling = this.eScale(Cloner.vOne, i);
+            }
+        }
+        update() {
+            if (this._count > 0) {
+                this.calcRot();
+                this.calcPos();
+                this.calcSize();
+            }
+            if (this._useThinInstances) this.updateThinInstances();
+        }
+        /**
+         * computes the samples again, then updates
+         */
+        recalc() {
+            this.calcSamples();
+            this.update();
+        }
+        delete() {
+            for (let i = this._count - 1; i >= 0; i--) {
+                this._clones[i].delete();
+            }
+            this._rootNode.dispose();
+        }
+        set path(p) {
+            this.setPath(p);
+            this.recalc();
+        }
+        get path() {
+            return this._path;
+        }
+        get length() {
+            return this._length;
+        }
+        set count(scnt) {
+            this._count = Math.round(Number(scnt));
+            this._spacing = 0;
+            this.recalc();
+        }
+        get count() {
+            return this._count;
+        }
+        set spacing(s: number) {
+            this._spacing = s;
+            this.recalc();
+        }
+        get spacing() {
+            return this._spacing;
+        }
+        set startOffset(o: number) {
+            this._startOffset = o;
+            this.recalc();
+        }
+        get startOffset() {
+            return this._startOffset;
+        }
+        set endOffset(o: number) {
+            this._endOffset = o;
+            this.recalc();
+        }
+        get endOffset() {
+            return this._endOffset;
+        }
+        set align(a: boolean) {
+            this._align = a;
+            this.recalc();
+        }
+        get align() {
+            return this._align;
+        }
+        set up(u) {
+            this._up = u == null ? null : new BABYLON.Vector3(u.x, u.y, u.z);
+            this.recalc();
+        }
+        get up() {
+            return this._up;
+        }
+        set loop(l: boolean) {
+            this._loop = l;
+            this.setPath(this._path);
+            this.recalc();
+        }
+        get loop() {
+            return this._loop;
+        }
+        /**
+         * the path is serialized as a point array
+         */
+        serialize(rig: IRig = null): ISerializedSplineCloner {
+            let points = this._path instanceof BABYLON.Curve3 ? this._path.getPoints() : this._path instanceof BABYLON.Path3D ? this._path.getCurve() : this._path;
+            return {
+                type: "SplineCloner",
+                meshes: Cloner.SerializeMeshes(this._mesh, rig),
+                path: points.map(function (p) { return { x: p.x, y: p.y, z: p.z } }),
+                count: this._count,
+                spacing: this._spacing,
+                startOffset: this._startOffset,
+                endOffset: this._endOffset,
+                align: this._align,
+                up: this._up != null ? { x: this._up.x, y: this._up.y, z: this._up.z } : null,
+                loop: this._loop,
+                useInstances: this._useInstances,
+                useThinInstances: this._useThinInstances,
+                colorize: this._colorize != null ? this._colorize.serialize() : null,
+                autoFrame: this._autoFrame,
+                effectors: this.serializeEffectors(rig)
+            };
+        }
+        static Parse(data: ISerializedSplineCloner, scene, rig: IRig = null): SplineCloner {
+            let path = data.path.map(function (p) { return new BABYLON.Vector3(p.x, p.y, p.z) });
+            let c = new SplineCloner(Cloner.GetMeshes(data.meshes, scene, rig), path, scene, {
+                count: data.count, spacing: data.spacing, startOffset: data.startOffset, endOffset: data.endOffset, align: data.align, up: data.up, loop: data.loop,
+                useInstances: data.useInstances, useThinInstances: data.useThinInstances,
+                colorize: data.colorize ? ColorEffector.Parse(data.colorize) : null, autoFrame: data.autoFrame !== false
+            });
+            c.parseEffectors(data, scene, rig);
+            return c;
+        }
+        get root() {
+            return this._rootNode;
+        }
+    }
 } 
\ No newline at end of file
@@ -1,4 +1,129 @@
 module BABYLON {
+    /**
+     * Map tile data passed back by a tile provider.
+     * `heights` : the altitudes of the tile points, row by row : tileSubX x tileSubZ floats.
+     * `colors` : optional r, g, b successive floats per tile point.
+     * `uvs` : optional u, v successive floats per tile point.
+     * `normals` : optional x, y, z successive floats per tile point. If not passed, the tile normals are computed from the heights.
+     */
+    export interface IDynamicTerrainTile {
+        heights: number[] | Float32Array;
+        colors?: number[] | Float32Array;
+        uvs?: number[] | Float32Array;
+        normals?: number[] | Float32Array;
+    }
+
+    /**
+     * Object providing the map data tile by tile to a DynamicTerrain.
+     * `tileSubX` : the number of map points on each tile width.
+     * `tileSubZ` : the number of map points on each tile height.
+     * `subSizeX` : the distance between two successive map points on the width.
+     * `subSizeZ` : the distance between two successive map points on the height.
+     * `loadTile()` : called by the terrain each time it needs the tile (tileX, tileZ). It can call back `onLoaded` synchronously or later, once the data are downloaded or computed.
+     */
+    export interface IDynamicTerrainTileProvider {
+        tileSubX: number;
+        tileSubZ: number;
+        subSizeX: number;
+        subSizeZ: number;
+        loadTile(tileX: number, tileZ: number, onLoaded: (tile: IDynamicTerrainTile) => void): void;
+    }
+
+    /**
+     * Result of a ray or sphere cast against a DynamicTerrain map.
+     * `hit` : true if the map was hit.
+     * `distance` : the distance travelled along the cast direction until the hit.
+     * `point` : the hit World position on the map.
+     * `normal` : the map normal at the hit point, oriented towards the cast origin side.
+     */
+    export interface IDynamicTerrainRaycastHit {
+        hit: boolean;
+        distance: number;
+        point: Vector3;
+        normal: Vector3;
+    }
+
+    /**
+     * Binary array stored by DynamicTerrain.serialize().
+     * `offset` : the byte offset of the array from the start of the binary arrays.
+     * `length` : the number of floats.
+     * `quantized` : true if the floats are stored as 16-bit integers, each coordinate (x, y, z) over its own [`min`, `max`] range.
+     */
+    export interface ISerializedArray {
+        offset: number;
+        length: number;
+        quantized?: boolean;
+        min?: number[];
+        max?: number[];
+    }
+
+    /**
+     * JSON header written by DynamicTerrain.serialize() before the binary arrays : the terrain settings and the descriptors of its arrays.
+     * The tile settings are only set for a paged map.
+     */
+    export interface ISerializedTerrainHeader {
+        version: number;
+        name: string;
+        terrainSub: number;
+        mapSubX: number;
+        mapSubZ: number;
+        invertSide: boolean;
+        shiftFromCamera: {x: number, z: number};
+        subToleranceX: number;
+        subToleranceZ: number;
+        initialLOD: number;
+        LODLimits: number[];
+        cameraLODCorrection: number;
+        LODPositiveX: boolean;
+        LODNegativeX: boolean;
+        LODPositiveZ: boolean;
+        LODNegativeZ: boolean;
+        geomorph: boolean;
+        geomorphBand: number;
+        refreshEveryFrame: boolean;
+        computeNormals: boolean;
+        useCustomVertexFunction: boolean;
+        isAlwaysVisible: boolean;
+        precomputeNormalsFromMap: boolean;
+        precomputeInstances: boolean;
+        mapTilesX?: number;
+        mapTilesZ?: number;
+        maxCachedTiles?: number;
+        placeholderHeight?: number;
+        mapData?: ISerializedArray;
+        mapColors?: ISerializedArray;
+        mapUVs?: ISerializedArray;
+        splatLayers?: number;
+        mapSplats?: ISerializedArray;
+        SPmapData?: ISerializedArray[];
+        SPcolorData?: ISerializedArray[];
+        SPuvData?: ISerializedArray[];
+        instanceMapData?: ISerializedArray[];
+        instanceColorData?: ISerializedArray[];
+        SPviewRanges?: {distance: number, impostorType: number, impostorDistance: number}[];
+        instanceViewRanges?: {distance: number, impostorType: number, impostorDistance: number}[];
+        objectBudget?: number;
+        removedObjects?: number[][][];
+    }
+
+    /**
+     * Object of the SPS or instance map returned by the DynamicTerrain object queries.
+     * `isInstance` : true if the object is in the instance map, false if it's in the SPS map.
+     * `type` : the object type, index of its array in SPmapData or instanceMapData.
+     * `index` : the object index in its type array.
+     * `position`, `rotation`, `scaling` : the object World transform. The position is the closest one to the query on the repeated map.
+     * `distance` : the distance from the query point, or along the query segment or ray.
+     */
+    export interface IDynamicTerrainMapObject {
+        isInstance: boolean;
+        type: number;
+        index: number;
+        position: Vector3;
+        rotation: Vector3;
+        scaling: Vector3;
+        distance: number;
+    }
+
     export class DynamicTerrain {
 
         public name: string;
@@ -88,6 +213,43 @@ module BABYLON {
         private _terrain: Mesh;                                             // reference to the ribbon
         private _isAlwaysVisible: boolean = false;                          // is the terrain mesh always selected for rendering
         private _precomputeNormalsFromMap: boolean = false;                 // if the normals must be precomputed from the map data when assigning a new map to the existing terrain
+        private _tileProvider: IDynamicTerrainTileProvider;                 // provider of the map tiles, if the map is paged
+        private _mapTilesX: number = 4|0;                                   // number of tiles held in the map on the X axis
+        private _mapTilesZ: number = 4|0;                                   // number of tiles held in the map on the Z axis
+        private _tileSlots: string[];                                       // key of the tile currently stored in each map slot
+        private _tileCache: {[key: string]: IDynamicTerrainTile};           // loaded tiles
+        private _tileCacheKeys: string[];                                   // loaded tile keys, from the least to the most recently used
+        private _pendingTiles: {[key: string]: boolean};                    // tiles requested to the provider and not loaded yet
+        private _maxCachedTiles: number = 64|0;                             // LRU cache capacity
+        private _placeholderHeight: number = 0.0;                           // altitude of the map points while their tile is pending
+        private _mapDirty: boolean = false;                                 // true when the map data were modified since the last terrain update
+        private _geomorph: boolean = false;                                 // are the vertex altitudes blended between LOD levels ?
+        private _geomorphBand: number = 4|0;                                // number of vertices before a LOD limit over which the altitudes are blended
+        private _geomorphX: {lod: Int32Array, step: Int32Array, weight: Float32Array, anchor: Int32Array, coarse: Int32Array}; // per terrain column geomorphing data
+        private _geomorphZ: {lod: Int32Array, step: Int32Array, weight: Float32Array, anchor: Int32Array, coarse: Int32Array}; // per terrain row geomorphing data
+        private _stroke: {indexes: number[], heights: number[], colors: number[], rects: number[], recorded: {[index: number]: boolean}};  // current sculpting stroke
+        private _undoStrokes: {indexes: number[], heights: number[], colors: number[], rects: number[]}[] = [];   // sculpting strokes to undo
+        private _redoStrokes: {indexes: number[], heights: number[], colors: number[], rects: number[]}[] = [];   // sculpting strokes to redo
+        private _maxUndoStrokes: number = 32|0;                             // undo stack capacity
+        private _mapSplats: number[] | Float32Array;                        // splat map : layer weights of each map point
+        private _splatmap: boolean = false;                                 // boolean : true if a splat map is set
+        private _splatLayers: number = 4|0;                                 // number of splat layers per map point (1 to 8)
+        private _splats0: Float32Array;                                     // ribbon splat weights of the layers 0 to 3
+        private _splats1: Float32Array;                                     // ribbon splat weights of the layers 4 to 7
+        private _SPviewRanges: {distance: number, impostorType: number, impostorDistance: number}[] = [];        // per particle type view range and impostor fallback
+        private _instanceViewRanges: {distance: number, impostorType: number, impostorDistance: number}[] = [];  // per instance type view range and impostor fallback
+        private _objectBudget: number = 0|0;                                // max number of objects newly positioned per frame, 0 = unlimited
+        private _objectCulling: boolean = false;                            // true if the objects are distance culled and kept in their slots between updates
+        private _objectPools: {ownerType: Int32Array[], ownerIndex: Int32Array[], freeSlots: number[][], objectSlot: Int32Array[], wantedStamp: Int32Array[], wantedPool: Int32Array[], stamp: number}[]; // per object map (SPS or instances) slot pools
+        private _objectsPending: boolean = false;                           // true if some objects are waiting for the next frame budget
+        private _visibleQuads: number[] = [];                               // map quads holding objects in the current terrain
+        private _objectPickRadii: number[][];                               // per object map and type, cached max bounding radius of the objects for the picking
+        private _removedObjects: number[][][] = [[], []];                   // per object map and type, indexes of the objects removed at runtime
+        private _renderObserver: Observer<Scene>;                           // terrain update observer in the render loop
+        private _cameraTerrains: DynamicTerrain[] = [];                     // terrains sharing this terrain map, one per secondary camera
+        private _primaryTerrain: DynamicTerrain;                            // terrain whose map is shared, for a camera terrain
+        private _cameraRenderObserver: Observer<Camera>;                    // observer selecting the terrain mesh to render for each camera
+        private _sharedMapDirty: boolean = false;                           // true when the shared map was modified by another terrain
         // tmp vectors
         private static _v1: Vector3 = Vector3.Zero();
         private static _v2: Vector3 = Vector3.Zero();
@@ -105,6 +267,64 @@ module BABYLON {
         private static _mat: Float32Array = new Float32Array(16);
         private static _matZero: Float32Array = new Float32Array([0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1]);
         private static _col: Float32Array = new Float32Array(4);
+        private static _castResult: IDynamicTerrainRaycastHit = {hit: false, distance: 0.0, point: Vector3.Zero(), normal: Vector3.Up()};   // tmp cast result for lineOfSight()
+        private static _SerializationVersion: number = 1|0;                // current serialize() format version
+        private static _unitSphere: {center: Vector3, radius: number} = {center: Vector3.Zero(), radius: 1.0};   // default object bounding sphere for the picking
+        // sculpting brush modes
+        private static _BRUSH_RAISE: number = 0|0;
+        private static _BRUSH_LOWER: number = 1|0;
+        private static _BRUSH_SMOOTH: number = 2|0;
+        private static _BRUSH_FLATTEN: number = 3|0;
+        private static _BRUSH_PAINT: number = 4|0;
+        /**
+         * Brush falloff : the brush applies fully on the whole radius.
+         */
+        public static readonly FALLOFF_CONSTANT: number = 0|0;
+        /**
+         * Brush falloff : the brush effect decreases linearly from the center to the radius.
+         */
+        public static readonly FALLOFF_LINEAR: number = 1|0;
+        /**
+         * Brush falloff : the brush effect decreases smoothly (smoothstep) from the center to the radius. Default.
+         */
+        public static readonly FALLOFF_SMOOTH: number = 2|0;
+        /**
+         * Brush falloff : the brush effect follows a sphere profile from the center to the radius.
+         */
+        public static readonly FALLOFF_SPHERE: number = 3|0;
+        /**
+         * Procedural map generator : fractal brownian motion.
+         */
+        public static readonly GENERATOR_FBM: number = 0|0;
+        /**
+         * Procedural map generator : ridged multifractal.
+         */
+        public static readonly GENERATOR_RIDGED: number = 1|0;
+        /**
+         * Procedural map noise : Perlin noise.
+         */
+        public static readonly NOISE_PERLIN: number = 0|0;
+        /**
+         * Procedural map noise : simplex noise.
+         */
+        public static readonly NOISE_SIMPLEX: number = 1|0;
+        /**
+         * Vertex buffer kind of the splat weights of the layers 0 to 3.
+         */
+        public static readonly SPLATS0_KIND: string = "splats0";
+        /**
+         * Vertex buffer kind of the splat weights of the layers 4 to 7.
+         */
+        public static readonly SPLATS1_KIND: string = "splats1";
+        // default color rules for the procedural maps : water, sand, snow, rock, grass, dirt
+        private static _DefaultColorRules: {minAltitude?: number, maxAltitude?: number, minSlope?: number, maxSlope?: number, color: Color3}[] = [
+            {maxAltitude: 0.12, color: new Color3(0.2, 0.35, 0.6)},
+            {maxAltitude: 0.18, maxSlope: 0.3, color: new Color3(0.76, 0.7, 0.5)},
+            {minAltitude: 0.8, maxSlope: 0.5, color: new Color3(0.95, 0.95, 0.97)},
+            {minSlope: 0.35, color: new Color3(0.45, 0.42, 0.4)},
+            {maxAltitude: 0.55, color: new Color3(0.3, 0.5, 0.2)},
+            {color: new Color3(0.4, 0.38, 0.25)}
+        ];
 
 
         /**
@@ -129,6 +349,13 @@ module BABYLON {
          * @param {*} sourceMeshes an array of source meshes. Required when used with InstanceMapdata.
          * @param {*} instanceColorData an optional array of arrays or Float32Arrays (one per instance type) of object colors on the map. One series of r, g, b, a floats per object. Optional, requires a InstanceMapData and an sourceMeshes array to be passed.    
          * @param {*} precomputeInstances an optional boolean (default true) to precompute all the instance world matrices (faster, but more memory used)
+         * @param {*} tileProvider an optional tile provider. If passed, the map is paged tile by tile around the camera instead of being passed as a whole with mapData.
+         * @param {*} mapTilesX the number of tiles held in memory on the map width (default 4). Required with tileProvider.
+         * @param {*} mapTilesZ the number of tiles held in memory on the map height (default 4). Required with tileProvider.
+         * @param {*} maxCachedTiles the maximum number of loaded tiles kept in the cache (default 64). Optional, with tileProvider.
+         * @param {*} placeholderHeight the altitude of the map points while their tile is being loaded (default 0). Optional, with tileProvider.
+         * @param {*} mapSplats an optional flat array of splatLayers layer weights per map point, passed to the terrain vertices as the splats0 and splats1 vertex attributes.
+         * @param {*} splatLayers the number of splat layers per map point, integer between 1 and 8 (default 4). Optional, with mapSplats.
          */
         constructor(name: string, options: {
             terrainSub?: number, 
@@ -147,6 +374,13 @@ module BABYLON {
             sourceMeshes?: Mesh[];
             instanceColorData?: number[][] | Float32Array[];
             precomputeInstances?: boolean;
+            tileProvider?: IDynamicTerrainTileProvider;
+            mapTilesX?: number;
+            mapTilesZ?: number;
+            maxCachedTiles?: number;
+            placeholderHeight?: number;
+            mapSplats?: number[] | Float32Array;
+            splatLayers?: number;
         }, scene: Scene) {
             
             this.name = name;
@@ -155,8 +389,14 @@ module BABYLON {
             this._terrainIdx = this._terrainSub + 1;
             this._mapSubX = options.mapSubX || this._terrainIdx;
             this._mapSubZ = options.mapSubZ || this._terrainIdx;
+            this._tileProvider = options.tileProvider;
+            if (this._tileProvider) {
+                this._initMapTiles(options);
+            }
             this._mapUVs = options.mapUVs;            // if not defined, it will be still populated by default values
             this._mapColors = options.mapColors;
+            this._mapSplats = options.mapSplats;
+            this._splatLayers = Math.min(Math.max(options.splatLayers || 4, 1), 8)|0;
             this._scene = scene;
             this._terrainCamera = options.camera || scene.activeCamera;
             this._inverted = options.invertSide;
@@ -270,6 +510,9 @@ module BABYLON {
             this._normals = this._terrain.getVerticesData(VertexBuffer.NormalKind);
             this._uvs = this._terrain.getVerticesData(VertexBuffer.UVKind);
             this._colors = this._terrain.getVerticesData(VertexBuffer.ColorKind);
+            if (this._mapSplats) {
+                this._initSplatBuffers();
+            }
             this.computeNormalsFromMap();
 
             // update it immediatly and register the update callback function in the render loop
@@ -281,7 +524,7 @@ module BABYLON {
             let deltaNbSubZ = (this._terrain.position.z - mapData[2]) / this._averageSubSizeZ
             this._deltaSubX = (deltaNbSubX > 0) ? Math.floor(deltaNbSubX) : Math.ceil(deltaNbSubX);
             this._deltaSubZ = (deltaNbSubZ > 0) ? Math.floor(deltaNbSubZ) : Math.ceil(deltaNbSubZ);
-            this._scene.onBeforeRenderObservable.add(() => {
+            this._renderObserver = this._scene.onBeforeRenderObservable.add(() => {
                 const refreshEveryFrame = this._refreshEveryFrame;
                 this.beforeUpdate(refreshEveryFrame);
                 this.update(refreshEveryFrame);
@@ -513,11 +756,25 @@ module BABYLON {
                 needsUpdate = true;
             }
             const updateSize = updateLOD || updateForced;       // must the terrain size be updated ?
-            if (needsUpdate || updateSize) {
+            if (needsUpdate || updateSize || this._mapDirty || this._sharedMapDirty) {
                 this._deltaSubX = mod(deltaSubX, this._mapSubX);
                 this._deltaSubZ = mod(deltaSubZ, this._mapSubZ); 
+                if (this._tileProvider) {
+                    if (updateSize) {
+                        this.updateTerrainSize();
+                    }
+                    this._updateMapTiles();
+                }
+                if (this._mapDirty) {
+                    this._shareMapChange();
+                }
+                this._mapDirty = false;
+                this._sharedMapDirty = false;
                 this._updateTerrain(updateSize);
             }
+            else if (this._objectsPending) {
+                this._updateObjectMap();
+            }
 
             terrainHalfSizeX = this._terrainHalfSizeX;
             terrainHalfSizeZ = this._terrainHalfSizeZ;
@@ -572,6 +829,11 @@ module BABYLON {
             const datamap = this._datamap;
             const uvmap = this._uvmap;
             const colormap = this._colormap;
+            const splatmap = this._splatmap;
+            const mapSplats = this._mapSplats;
+            const splatLayers = this._splatLayers;
+            const splats0 = this._splats0;
+            const splats1 = this._splats1;
             const useCustomVertexFunction = this._useCustomVertexFunction;
             const updateVertex = this.updateVertex;
             const dontComputeNormals = !this._computeNormals;
@@ -583,6 +845,7 @@ module BABYLON {
             const mapSizeZ = this._mapSizeZ;
             const averageSubSizeX = this._averageSubSizeX;
             const averageSubSizeZ = this._averageSubSizeZ;
+            const geomorph = this._geomorph && datamap;
             const particleMap = (mapSPData && quads);
             const particleColorMap = (particleMap && this._colorSPData);
             const particleUVMap = (particleMap && this._uvSPData);
@@ -627,13 +890,20 @@ module BABYLON {
             }
             Vector3.FromFloatsToRef(Number.MAX_VALUE, Number.MAX_VALUE, Number.MAX_VALUE, bbMin); 
             Vector3.FromFloatsToRef(-Number.MAX_VALUE, -Number.MAX_VALUE, -Number.MAX_VALUE, bbMax);
+            if (geomorph) {
+                var geomorphX = this._computeGeomorphData(true);
+                var geomorphZ = this._computeGeomorphData(false);
+            }
 
             // Object (solid particles or instances) map management
             var x0 = mapData[0];
             var z0 = mapData[2];
             var terrainPos = terrain.position;
             // if solid particle data
-            if (particleMap) {
+            const objectCulling = this._objectCulling && (particleMap || instanceMap);
+            const visibleQuads = this._visibleQuads;
+            visibleQuads.length = 0;
+            if (particleMap && !objectCulling) {
                 var sps = this._sps;
                 var particles = sps.particles;
                 var spsTypeStartIndexes = this._spsTypeStartIndexes;
@@ -646,7 +916,7 @@ module BABYLON {
             }
 
             // if instance data
-            if (instanceMap) {
+            if (instanceMap && !objectCulling) {
                 var mat = DynamicTerrain._mat;
                 for (let t = 0; t < sourceMeshes.length; t++) {
                     let sourceMesh = sourceMeshes[t];
@@ -803,6 +1073,15 @@ module BABYLON {
                     positions[ribbonPosInd2] = mapData[posIndex2];
                     positions[ribbonPosInd3] = averageSubSizeZ * stepJ;
 
+                    // geomorphing : blend the altitude with the coarser LOD level one near the LOD limits
+                    if (geomorph) {
+                        const weightX = geomorphX.weight[i];
+                        const weightZ = geomorphZ.weight[j];
+                        if (weightX > 0.0 || weightZ > 0.0) {
+                            positions[ribbonPosInd2] = this._getGeomorphedHeight(deltaSubX, deltaSubZ, stepI, stepJ, geomorphX, geomorphZ, i, j, mapData[posIndex2]);
+                        }
+                    }
+
                     if (dontComputeNormals) {
                         normals[ribbonPosInd1] = mapNormals[posIndex1];
                         normals[ribbonPosInd2] = mapNormals[posIndex2];
@@ -818,6 +1097,14 @@ module BABYLON {
                         colors[ribbonColInd2] = mapColors[colIndex + 1];
                         colors[ribbonColInd3] = mapColors[colIndex + 2];
                     }
+                    // splat weights : 4 layers per vertex attribute
+                    if (splatmap) {
+                        const splatIndex = splatLayers * index;
+                        for (let s = 0; s < 4; s++) {
+                            splats0[ribbonColInd + s] = (s < splatLayers) ? mapSplats[splatIndex + s] : 0.0;
+                            splats1[ribbonColInd + s] = (s + 4 < splatLayers) ? mapSplats[splatIndex + s + 4] : 0.0;
+                        }
+                    }
 
                     // seam test on Z
                     if (seamZ && (seamZIndex == stepJ || stepJ == seamZIndex + 1)) {
@@ -845,6 +1132,13 @@ module BABYLON {
                                 colors[ribbonColInd2] = colors[indcol + 1];
                                 colors[ribbonColInd3] = colors[indcol + 2];
                             }
+                            if (splatmap) {
+                                let indsplat = mod(ribbonColInd - back4, colorsLength);
+                                for (let s = 0; s < 4; s++) {
+                                    splats0[ribbonColInd + s] = splats0[indsplat + s];
+                                    splats1[ribbonColInd + s] = splats1[indsplat + s];
+                                }
+                            }
                         }
                     }
 
@@ -874,6 +1168,13 @@ module BABYLON {
                                 colors[ribbonColInd2] = colors[indcol + 1];
                                 colors[ribbonColInd3] = colors[indcol + 2];
                             }
+                            if (splatmap) {
+                                let indsplat = mod(ribbonColInd - back4, colorsLength);
+                                for (let s = 0; s < 4; s++) {
+                                    splats0[ribbonColInd + s] = splats0[indsplat + s];
+                                    splats1[ribbonColInd + s] = splats1[indsplat + s];
+                                }
+                            }
                         }
                     }
 
@@ -924,8 +1225,13 @@ module BABYLON {
                         positions[ribbonPosInd3] = vertexPosition.z;
                     }
 
+                    // distance culled objects : the quads are stored and processed once the terrain is updated
+                    if (objectCulling && quads[index]) {
+                        visibleQuads.push(index);
+                    }
+
                     // SPS management
-                    if (particleMap) {
+                    if (particleMap && !objectCulling) {
                         // if a quad contains some objects in the map
                         if (quads[index]) { 
                             let quad = quads[index][typeSPS]; 
@@ -995,7 +1301,7 @@ module BABYLON {
                     }
 
                     // Instance management
-                    if (instanceMap) {
+                    if (instanceMap && !objectCulling) {
                         // are there objects in this quad ?
                         if (quads[index]) {
                             let quad = quads[index][typeInstance];
@@ -1078,14 +1384,18 @@ module BABYLON {
                 stepI = 0;
             }
 
-            if (particleMap) {
+            if (objectCulling) {
+                this._updateObjectMap();
+            }
+
+            if (particleMap && !objectCulling) {
                 sps.setParticles();
                 for (let c = 0; c < nbAvailableParticlesPerType.length; c++) {
                     nbAvailableParticlesPerType[c] = nbPerType[c];
                 }
             }
 
-            if (instanceMap && nbAvailableInstancesPerType) {
+            if (instanceMap && nbAvailableInstancesPerType && !objectCulling) {
                 for (let c = 0; c < nbAvailableInstancesPerType.length; c++) {
                     nbAvailableInstancesPerType[c] = this._sourceMeshes[c].instances.length;
                 }
@@ -1099,190 +1409,1124 @@ module BABYLON {
             terrain.updateVerticesData(VertexBuffer.NormalKind, normals, false, false);
             terrain.updateVerticesData(VertexBuffer.UVKind, uvs, false, false);
             terrain.updateVerticesData(VertexBuffer.ColorKind, colors, false, false);            
+            if (splatmap) {
+                terrain.updateVerticesData(DynamicTerrain.SPLATS0_KIND, splats0, false, false);
+                terrain.updateVerticesData(DynamicTerrain.SPLATS1_KIND, splats1, false, false);
+            }
             terrain._boundingInfo.reConstruct(bbMin, bbMax, terrain._worldMatrix);
         };
 
-        // private modulo, for dealing with negative indexes
-        private _mod(a: number, b: number): number {
-            return ((a % b) + b) % b;
-        }
-
         /**
-         * Updates the mesh terrain size according to the LOD limits and the camera position.
+         * Sets the maximum view distance of the solid particles of the type `type` in the SPmapData.
+         * The particles farther from the camera aren't displayed, or are replaced by the particles of the type `impostorType` up to `impostorDistance`.
+         * The impostor particles keep the position, scaling, color and uvs of the replaced particle and are rotated around their Y axis to face the camera with their -Z side, like a plane.
          * Returns the terrain.
+         * @param type the particle type
+         * @param distance the maximum view distance, 0 for no limit
+         * @param impostorType (optional) the particle type of the impostors displayed beyond the view distance
+         * @param impostorDistance (optional) the maximum view distance of the impostors, 0 for no limit (default)
          */
-        public updateTerrainSize(): DynamicTerrain { 
-            let remainder = this._terrainSub;                   // the remaining cells at the general current LOD value
-            let nb = 0|0;                                       // nb of cells in the current LOD limit interval
-            let next = 0|0;                                     // next cell index, if it exists
-            let LODValue = this._LODValue;
-            let lod = LODValue + 1;                             // lod value in the current LOD limit interval
-            let tsx = 0.0;                                      // current sum of cell sizes on x
-            let tsz = 0.0;                                      // current sum of cell sizes on z
-            const LODLimits = this._LODLimits;
-            const averageSubSizeX = this._averageSubSizeX;
-            const averageSubSizeZ = this._averageSubSizeZ;
-            for (let l = 0|0; l < LODLimits.length; l++) {
-                lod = LODValue + l + 1; 
-                next = (l >= LODLimits.length - 1) ? 0 : LODLimits[l + 1];
-                nb = 2 * (LODLimits[l] - next);
-                tsx += averageSubSizeX * lod * nb;
-                tsz += averageSubSizeZ * lod * nb;
-                remainder -= nb;
-            }
-            tsx += remainder * averageSubSizeX * LODValue;
-            tsz += remainder * averageSubSizeZ * LODValue;
-            this._terrainSizeX = tsx;
-            this._terrainSizeZ = tsz;
-            this._terrainHalfSizeX = tsx * 0.5;
-            this._terrainHalfSizeZ = tsz * 0.5;
+        public setSPViewRange(type: number, distance: number, impostorType?: number, impostorDistance?: number): DynamicTerrain {
+            this._SPviewRanges[type] = {distance: distance || 0.0, impostorType: (impostorType === undefined) ? -1 : impostorType, impostorDistance: impostorDistance || 0.0};
+            this._checkObjectCulling();
             return this;
         }
 
         /**
-         * Returns the altitude (float) at the coordinates (x, z) of the map.  
-         * @param x 
-         * @param z 
-         * @param {normal: Vector3} (optional)
-         * If the optional object {normal: Vector3} is passed, then its property "normal" is updated with the normal vector value at the coordinates (x, z).  
+         * Sets the maximum view distance of the instances of the type `type` in the instanceMapData.
+         * The instances farther from the camera aren't displayed, or are replaced by the instances of the source mesh `impostorType` up to `impostorDistance`.
+         * The impostor instances keep the position, scaling and color of the replaced instance and are rotated around their Y axis to face the camera with their -Z side, like a plane.
+         * Returns the terrain.
+         * @param type the instance type
+         * @param distance the maximum view distance, 0 for no limit
+         * @param impostorType (optional) the instance type of the impostors displayed beyond the view distance
+         * @param impostorDistance (optional) the maximum view distance of the impostors, 0 for no limit (default)
          */
-        public getHeightFromMap(x: number, z: number, options?: {normal: Vector3} ): number {
-            return DynamicTerrain._GetHeightFromMap(x, z, this._mapData, this._mapSubX, this._mapSubZ, this._mapSizeX, this._mapSizeZ, options, this._inverted);
+        public setInstanceViewRange(type: number, distance: number, impostorType?: number, impostorDistance?: number): DynamicTerrain {
+            this._instanceViewRanges[type] = {distance: distance || 0.0, impostorType: (impostorType === undefined) ? -1 : impostorType, impostorDistance: impostorDistance || 0.0};
+            this._checkObjectCulling();
+            return this;
         }
 
-        /**
-         * Static : Returns the altitude (float) at the coordinates (x, z) of the passed map.
-         * @param x 
-         * @param z 
-         * @param mapSubX the number of points along the map width
-         * @param mapSubX the number of points along the map height
-         * @param {normal: Vector3} (optional)
-         * @param inverted (optional boolean) is the terrain inverted
-         * If the optional object {normal: Vector3} is passed, then its property "normal" is updated with the normal vector value at the coordinates (x, z).  
-         */
-        public static GetHeightFromMap(x: number, z: number, mapData: number[]| Float32Array, mapSubX: number, mapSubZ: number, options? : {normal: Vector3}, inverted?: boolean) : number {
-            let mapSizeX = Math.abs(mapData[(mapSubX - 1) * 3] - mapData[0]);
-            let mapSizeZ = Math.abs(mapData[(mapSubZ - 1) * mapSubX * 3 + 2] - mapData[2]);
-            return DynamicTerrain._GetHeightFromMap(x, z, mapData, mapSubX, mapSubZ, mapSizeX, mapSizeZ, options, inverted);
+        // private : enables the distance culled object map as soon as a view range or a budget is set
+        private _checkObjectCulling(): void {
+            let culling = (this._objectBudget > 0);
+            const ranges = this._SPviewRanges.concat(this._instanceViewRanges);
+            for (let r = 0; r < ranges.length; r++) {
+                if (ranges[r] && ranges[r].distance > 0.0) {
+                    culling = true;
+                }
+            }
+            if (culling != this._objectCulling) {
+                this._objectCulling = culling;
+                this._objectPools = undefined;
+                this._objectsPending = false;
+                this._mapDirty = true;
+            }
         }
 
-        // Computes the height and optionnally the normal at the coordinates (x ,z) from the passed map
-        private static _GetHeightFromMap(x: number, z: number, mapData: number[]| Float32Array, mapSubX: number, mapSubZ: number, mapSizeX: number, mapSizeZ: number, options? : {normal: Vector3}, inverted?: boolean) : number {
+        // private : creates the slot pools of the object maps, all the slots are free and their objects hidden
+        private _initObjectPools(): void {
+            const pools = [];
+            const dataStride = this._particleDataStride;
+            const systems = [this._typeSPS, this._typeInstance];
+            for (let sy = 0; sy < systems.length; sy++) {
+                const system = systems[sy];
+                const isSPS = (system == this._typeSPS);
+                const mapData = (isSPS) ? this._SPmapData : this._instanceMapData;
+                if (!mapData || (isSPS && !this._sps)) {
+                    continue;
+                }
+                const nbTypes = (isSPS) ? this._spsNbPerType.length : this._sourceMeshes.length;
+                const pool = {ownerType: [], ownerIndex: [], freeSlots: [], objectSlot: [], wantedStamp: [], wantedPool: [], stamp: 0};
+                for (let t = 0; t < nbTypes; t++) {
+                    const nbSlots = (isSPS) ? this._spsNbPerType[t] : this._sourceMeshes[t].instances.length;
+                    pool.ownerType[t] = new Int32Array(nbSlots);
+                    pool.ownerIndex[t] = new Int32Array(nbSlots);
+                    pool.freeSlots[t] = [];
+                    for (let slot = nbSlots - 1; slot >= 0; slot--) {
+                        pool.ownerType[t][slot] = -1;
+                        pool.freeSlots[t].push(slot);
+                        this._hideObjectSlot(isSPS, t, slot);
+                    }
+                }
+                for (let t = 0; t < mapData.length; t++) {
+                    const nbObjects = ((mapData[t]) ? mapData[t].length / dataStride : 0)|0;
+                    pool.objectSlot[t] = new Int32Array(nbObjects);
+                    pool.wantedStamp[t] = new Int32Array(nbObjects);
+                    pool.wantedPool[t] = new Int32Array(nbObjects);
+                    for (let o = 0; o < nbObjects; o++) {
+                        pool.objectSlot[t][o] = -1;
+                    }
+                }
+                pools[system] = pool;
+            }
+            this._objectPools = pools;
+        }
 
-            let x0 = mapData[0];
-            let z0 = mapData[2];
+        // private : updates the distance culled objects of the quads in the current terrain.
+        // The objects keep their slot while they're displayed, only the new ones take free slots within the frame budget, the nearest first.
+        private _updateObjectMap(): void {
+            if (!this._objectPools) {
+                this._initObjectPools();
+            }
+            this._objectsPending = false;
+            const pools = this._objectPools;
+            if (pools[this._typeSPS]) {
+                this._updateObjectPool(true);
+                this._sps.setParticles();
+            }
+            if (pools[this._typeInstance]) {
+                this._updateObjectPool(false);
+            }
+        }
 
-            // reset x and z in the map space so they are between 0 and the map size
-            x = x - Math.floor((x - x0) / mapSizeX) * mapSizeX;
-            z = z - Math.floor((z - z0) / mapSizeZ) * mapSizeZ;
+        // private : updates the slots of the SPS or the instances
+        private _updateObjectPool(isSPS: boolean): void {
+            const system = (isSPS) ? this._typeSPS : this._typeInstance;
+            const pool = this._objectPools[system];
+            const mapData = (isSPS) ? this._SPmapData : this._instanceMapData;
+            const viewRanges = (isSPS) ? this._SPviewRanges : this._instanceViewRanges;
+            const nbAvailable = (isSPS) ? this._nbAvailableParticlesPerType : this._nbAvailableInstancesPerType;
+            const quads = this._mapQuads;
+            const visibleQuads = this._visibleQuads;
+            const dataStride = this._particleDataStride;
+            const cameraPosition = this._terrainCamera.globalPosition;
+            const terrainPos = this._terrain.position;
+            const x0 = this._mapData[0];
+            const z0 = this._mapData[2];
+            const mapSizeX = this._mapSizeX;
+            const mapSizeZ = this._mapSizeZ;
+            const budget = this._objectBudget;
+            const stamp = ++pool.stamp;
+            const wantedTypes = [];
+            const wantedIndexes = [];
+            const wantedPools = [];
+            const wantedDistances = [];
 
-            let col1 = Math.floor((x - x0) * mapSubX / mapSizeX);
-            let row1 = Math.floor((z - z0) * mapSubZ / mapSizeZ);
-            let col2 = (col1 + 1) % mapSubX;
-            let row2 = (row1 + 1) % mapSubZ;
-            // starting indexes of the positions of 4 vertices defining a quad on the map
-            let idx1 = 3 * (row1 * mapSubX + col1);
-            let idx2 = 3 * (row1 * mapSubX + col2);
-            let idx3 = 3 * ((row2) * mapSubX + col1);
-            let idx4 = 3 * ((row2) * mapSubX + col2);
+            // wanted objects : in the current terrain and within their type view range or impostor range
+            for (let q = 0; q < visibleQuads.length; q++) {
+                const quad = quads[visibleQuads[q]][system];
+                if (!quad) {
+                    continue;
+                }
+                for (let t = 0; t < quad.length; t++) {
+                    const indexes = quad[t];
+                    if (!indexes || !pool.objectSlot[t]) {
+                        continue;
+                    }
+                    const data = mapData[t];
+                    const range = viewRanges[t];
+                    for (let o = 0; o < indexes.length; o++) {
+                        const idx = indexes[o];
+                        if (pool.wantedStamp[t][idx] == stamp) {
+                            continue;
+                        }
+                        const idm = idx * dataStride;
+                        let x = data[idm];
+                        let z = data[idm + 2];
+                        x = x + Math.floor((terrainPos.x - x - x0) / mapSizeX) * mapSizeX;
+                        z = z + Math.floor((terrainPos.z - z - z0) / mapSizeZ) * mapSizeZ;
+                        const dx = x - cameraPosition.x;
+                        const dz = z - cameraPosition.z;
+                        const distance = Math.sqrt(dx * dx + dz * dz);
+                        let poolType = t;
+                        if (range && range.distance > 0.0 && distance > range.distance) {
+                            poolType = (range.impostorType >= 0 && (range.impostorDistance <= 0.0 || distance <= range.impostorDistance)) ? range.impostorType : -1;
+                        }
+                        if (poolType < 0 || !pool.freeSlots[poolType]) {
+                            continue;
+                        }
+                        pool.wantedStamp[t][idx] = stamp;
+                        pool.wantedPool[t][idx] = poolType;
+                        wantedTypes.push(t);
+                        wantedIndexes.push(idx);
+                        wantedPools.push(poolType);
+                        wantedDistances.push(distance);
+                    }
+                }
+            }
 
-            const v1 = DynamicTerrain._v1;
-            const v2 = DynamicTerrain._v2;
-            const v3 = DynamicTerrain._v3;
-            const v4 = DynamicTerrain._v4;
-            v1.copyFromFloats(mapData[idx1], mapData[idx1 + 1], mapData[idx1 + 2]);
-            v2.copyFromFloats(mapData[idx2], mapData[idx2 + 1], mapData[idx2 + 2]);
-            v3.copyFromFloats(mapData[idx3], mapData[idx3 + 1], mapData[idx3 + 2]);
-            v4.copyFromFloats(mapData[idx4], mapData[idx4 + 1], mapData[idx4 + 2]);
+            // free the slots of the objects no longer wanted in this pool
+            for (let p = 0; p < pool.ownerType.length; p++) {
+                const ownerType = pool.ownerType[p];
+                const ownerIndex = pool.ownerIndex[p];
+                for (let slot = 0; slot < ownerType.length; slot++) {
+                    const ot = ownerType[slot];
+                    if (ot < 0) {
+                        continue;
+                    }
+                    const oi = ownerIndex[slot];
+                    if (pool.wantedStamp[ot][oi] != stamp || pool.wantedPool[ot][oi] != p) {
+                        ownerType[slot] = -1;
+                        pool.objectSlot[ot][oi] = -1;
+                        pool.freeSlots[p].push(slot);
+                        this._hideObjectSlot(isSPS, p, slot);
+                    }
+                }
+            }
 
-            const vAvB = DynamicTerrain._vAvB;
-            const vAvC = DynamicTerrain._vAvC;
-            const norm = DynamicTerrain._norm;
-            const vA = v1;
-            let vB;
-            let vC;
-            let v;
+            // set the wanted objects, the nearest first when the budget is limited
+            const order = [];
+            for (let w = 0; w < wantedTypes.length; w++) {
+                order.push(w);
+            }
+            if (budget > 0) {
+                order.sort((a, b) => wantedDistances[a] - wantedDistances[b]);
+            }
+            let placed = 0;
+            for (let w = 0; w < order.length; w++) {
+                const k = order[w];
+                const t = wantedTypes[k];
+                const idx = wantedIndexes[k];
+                const poolType = wantedPools[k];
+                let slot = pool.objectSlot[t][idx];
+                if (slot < 0) {
+                    if (budget > 0 && placed >= budget) {
+                        this._objectsPending = true;
+                        continue;
+                    }
+                    if (pool.freeSlots[poolType].length == 0) {
+                        continue;
+                    }
+                    slot = pool.freeSlots[poolType].pop();
+                    pool.ownerType[poolType][slot] = t;
+                    pool.ownerIndex[poolType][slot] = idx;
+                    pool.objectSlot[t][idx] = slot;
+                    placed++;
+                }
+                this._setObjectSlot(isSPS, poolType, slot, t, idx);
+            }
+            if (nbAvailable) {
+                for (let p = 0; p < pool.freeSlots.length; p++) {
+                    nbAvailable[p] = pool.freeSlots[p].length;
+                }
+            }
+        }
 
-            let xv4v1 = v4.x - v1.x;
-            let zv4v1 = v4.z - v1.z;
-            if (xv4v1 == 0 || zv4v1 == 0) {
-                return v1.y;
+        // private : sets the particle or the instance `slot` of the type `poolType` with the transform and color of the object `idx` of the type `type`
+        private _setObjectSlot(isSPS: boolean, poolType: number, slot: number, type: number, idx: number): void {
+            const dataStride = this._particleDataStride;
+            const colorStride = this._particleColorStride;
+            const data = (isSPS) ? this._SPmapData[type] : this._instanceMapData[type];
+            const terrainPos = this._terrain.position;
+            const cameraPosition = this._terrainCamera.globalPosition;
+            const x0 = this._mapData[0];
+            const z0 = this._mapData[2];
+            const idm = idx * dataStride;
+            const impostor = (poolType != type);
+            let x = data[idm];
+            const y = data[idm + 1];
+            let z = data[idm + 2];
+            x = x + Math.floor((terrainPos.x - x - x0) / this._mapSizeX) * this._mapSizeX;
+            z = z + Math.floor((terrainPos.z - z - z0) / this._mapSizeZ) * this._mapSizeZ;
+            // impostors : upright, their -Z side facing the camera
+            const rotX = (impostor) ? 0.0 : data[idm + 3];
+            const rotY = (impostor) ? Math.atan2(x - cameraPosition.x, z - cameraPosition.z) : data[idm + 4];
+            const rotZ = (impostor) ? 0.0 : data[idm + 5];
+            if (isSPS) {
+                const particle = this._sps.particles[this._spsTypeStartIndexes[poolType] + slot];
+                particle.position.copyFromFloats(x, y, z);
+                particle.rotation.copyFromFloats(rotX, rotY, rotZ);
+                particle.scaling.copyFromFloats(data[idm + 6], data[idm + 7], data[idm + 8]);
+                if (this._colorSPData && this._SPcolorData[type]) {
+                    const idc = idx * colorStride;
+                    const colorData = this._SPcolorData[type];
+                    particle.color.r = colorData[idc];
+                    particle.color.g = colorData[idc + 1];
+                    particle.color.b = colorData[idc + 2];
+                    particle.color.a = colorData[idc + 3];
+                }
+                if (this._uvSPData && this._SPuvData[type]) {
+                    const iduv = idx * this._particleUVStride;
+                    const uvData = this._SPuvData[type];
+                    particle.uvs.copyFromFloats(uvData[iduv], uvData[iduv + 1], uvData[iduv + 2], uvData[iduv + 3]);
+                }
+                particle.isVisible = true;
+                return;
             }
-            let cd = zv4v1 / xv4v1;
-            let h = v1.z - cd * v1.x;
-            if (z < cd * x + h) {
-                vB = v4;
-                vC = v2;
-                v = vA;
-            } 
-            else {
-                vB = v3;
-                vC = v4;
-                v = vB;
+            const instancedBuffer = this._sourceMeshes[poolType].worldMatrixInstancedBuffer;
+            if (!instancedBuffer) {
+                return;
             }
-            vB.subtractToRef(vA, vAvB);
-            vC.subtractToRef(vA, vAvC);
-            Vector3.CrossToRef(vAvB, vAvC, norm);
-            norm.normalize();
-            if (inverted) {
-                norm.scaleInPlace(-1.0);
+            const mat = DynamicTerrain._mat;
+            if (this._precomputeInstances && !impostor) {
+                DynamicTerrain._CopyArrayValuesFromToRef(this._instanceWM[type], idx * 16, 16, mat);
             }
-            if (options && options.normal) {
-                options.normal.copyFrom(norm);
+            else {
+                const quat = DynamicTerrain._quat;
+                DynamicTerrain._pos.copyFromFloats(x, y, z);
+                Quaternion.RotationYawPitchRollToRef(rotY, rotX, rotZ, quat);
+                DynamicTerrain._scl.copyFromFloats(data[idm + 6], data[idm + 7], data[idm + 8]);
+                DynamicTerrain._ComposeToRef(DynamicTerrain._scl, quat, DynamicTerrain._pos, mat);
             }
-            let d = -(norm.x * v.x + norm.y * v.y + norm.z * v.z);
-            let y = v.y;
-            if (norm.y != 0.0) {
-                y = -(norm.x * x + norm.z * z + d) / norm.y;
+            instancedBuffer.set(mat, slot * 16);
+            if (this._colorInstanceData && this._instanceColorData[type]) {
+                const idc = idx * colorStride;
+                const colorData = this._instanceColorData[type];
+                const tmpCol = DynamicTerrain._col;
+                tmpCol[0] = colorData[idc];
+                tmpCol[1] = colorData[idc + 1];
+                tmpCol[2] = colorData[idc + 2];
+                tmpCol[3] = colorData[idc + 3];
+                this._colorBuffers[poolType].updateDirectly(tmpCol, slot * 4);
             }
+        }
 
-            return y;
+        // private : hides the particle or the instance `slot` of the type `poolType`
+        private _hideObjectSlot(isSPS: boolean, poolType: number, slot: number): void {
+            if (isSPS) {
+                this._sps.particles[this._spsTypeStartIndexes[poolType] + slot].isVisible = false;
+                return;
+            }
+            const instancedBuffer = this._sourceMeshes[poolType].worldMatrixInstancedBuffer;
+            if (instancedBuffer) {
+                instancedBuffer.set(DynamicTerrain._matZero, slot * 16);
+            }
         }
 
         /**
-         * Static : Computes all the normals from the terrain data map  and stores them in the passed Float32Array reference.  
-         * This passed array must have the same size than the mapData array.
+         * Creates and returns a new terrain sharing this terrain map and following another camera, for split-screen or minimap views.
+         * Each camera then renders only its own terrain, the cameras without their own terrain render this one.
+         * The camera terrain shares the map data, colors, UVs, normals and splat map, and copies the LOD settings unless other ones are passed.
+         * A smaller `terrainSub` or a greater `initialLOD` gives a cheap proxy terrain, for a minimap for instance.
+         * The SPS and instance map objects are laid out around this terrain camera only : the other cameras see them only where the two areas overlap.
+         * A paged map (tileProvider) holds the tiles around one camera only, so it can't be shared : this throws an error.
+         * @param camera the camera followed by the new terrain
+         * @param options (optional) {name, terrainSub, initialLOD, LODLimits}
          */
-         public static ComputeNormalsFromMapToRef(mapData: number[]| Float32Array, mapSubX: number, mapSubZ, normals: number[] | Float32Array, inverted: boolean): void {
-            const mapIndices = [];
-            const tmp1 = {normal: Vector3.Zero()};
-            const tmp2 = {normal: Vector3.Zero()};
-            const normal1 = tmp1.normal;
-            const normal2 = tmp2.normal;
-            let l = mapSubX * (mapSubZ - 1);
-            let i = 0;
-            for (i = 0; i < l; i++) {
-                mapIndices.push(i + 1, i + mapSubX, i);
-                mapIndices.push(i + mapSubX, i + 1, i + mapSubX + 1);
+        public createCameraTerrain(camera: Camera, options?: {name?: string, terrainSub?: number, initialLOD?: number, LODLimits?: number[]}): DynamicTerrain {
+            if (this._primaryTerrain) {
+                return this._primaryTerrain.createCameraTerrain(camera, options);
             }
-            VertexData.ComputeNormals(mapData, mapIndices, normals);
-            
-            // seam process
-            let lastIdx = (mapSubX - 1) * 3;
-            let colStart = 0;
-            let colEnd = 0;
-            const getHeightFromMap = DynamicTerrain.GetHeightFromMap;
-            for (i = 0; i < mapSubZ; i++) {
-                colStart = i * mapSubX * 3;
-                colEnd = colStart + lastIdx;
-                getHeightFromMap(mapData[colStart], mapData[colStart + 2], mapData, mapSubX, mapSubZ, tmp1);
-                getHeightFromMap(mapData[colEnd], mapData[colEnd + 2], mapData, mapSubX, mapSubZ, tmp2);
-                normal1.addInPlace(normal2).scaleInPlace(0.5);
-                normals[colStart] = normal1.x;
-                normals[colStart + 1] = normal1.y;
-                normals[colStart + 2] = normal1.z;
-                normals[colEnd] = normal1.x;
-                normals[colEnd + 1] = normal1.y;
-                normals[colEnd + 2] = normal1.z;
-            }  
-            // inverted terrain
-            if (inverted) {
-                for (i = 0; i < normals.length; i++) {
-                    normals[i] = -normals[i];
-                }
+            if (this._tileProvider) {
+                throw new Error("DynamicTerrain : a camera terrain can't share the paged map of " + this.name + ", its tiles follow one camera only.");
             }
-         }
-
+            options = options || {};
+            const terrain = new DynamicTerrain(options.name || this.name + "_" + camera.name, {
+                terrainSub: options.terrainSub || this._terrainSub,
+                mapData: (this._datamap) ? this._mapData : undefined,
+                mapSubX: this._mapSubX,
+                mapSubZ: this._mapSubZ,
+                mapUVs: (this._uvmap) ? this._mapUVs : undefined,
+                mapColors: (this._colormap) ? this._mapColors : undefined,
+                mapNormals: (this._datamap) ? this._mapNormals : undefined,
+                mapSplats: (this._splatmap) ? this._mapSplats : undefined,
+                splatLayers: this._splatLayers,
+                invertSide: this._inverted,
+                camera: camera
+            }, this._scene);
+            terrain._primaryTerrain = this;
+            terrain.mesh.material = this._terrain.material;
+            terrain.shiftFromCamera.x = this.shiftFromCamera.x;
+            terrain.shiftFromCamera.z = this.shiftFromCamera.z;
+            terrain.subToleranceX = this._subToleranceX;
+            terrain.subToleranceZ = this._subToleranceZ;
+            terrain.initialLOD = (options.initialLOD === undefined) ? this._initialLOD : options.initialLOD;
+            terrain.LODLimits = (options.LODLimits) ? options.LODLimits.slice(0) : this._LODLimits.slice(0);
+            terrain.LODPositiveX = this._LODPositiveX;
+            terrain.LODNegativeX = this._LODNegativeX;
+            terrain.LODPositiveZ = this._LODPositiveZ;
+            terrain.LODNegativeZ = this._LODNegativeZ;
+            terrain.geomorph = this._geomorph;
+            terrain.geomorphBand = this._geomorphBand;
+            terrain.computeNormals = this._computeNormals;
+            terrain.isAlwaysVisible = this._isAlwaysVisible;
+            terrain.update(true);
+            this._cameraTerrains.push(terrain);
+            if (!this._cameraRenderObserver) {
+                this._cameraRenderObserver = this._scene.onBeforeCameraRenderObservable.add((renderingCamera: Camera) => {
+                    this._selectCameraTerrain(renderingCamera);
+                });
+            }
+            return terrain;
+        }
+
+        /**
+         * Removes a terrain created by createCameraTerrain() : its mesh is disposed and it's no longer updated.
+         * Returns true if the terrain was a camera terrain of this terrain.
+         * @param cameraTerrain 
+         */
+        public removeCameraTerrain(cameraTerrain: DynamicTerrain): boolean {
+            const index = this._cameraTerrains.indexOf(cameraTerrain);
+            if (index < 0) {
+                return false;
+            }
+            this._cameraTerrains.splice(index, 1);
+            this._scene.onBeforeRenderObservable.remove(cameraTerrain._renderObserver);
+            cameraTerrain._primaryTerrain = undefined;
+            cameraTerrain.mesh.dispose();
+            if (this._cameraTerrains.length == 0) {
+                this._scene.onBeforeCameraRenderObservable.remove(this._cameraRenderObserver);
+                this._cameraRenderObserver = undefined;
+                this._terrain.setEnabled(true);
+            }
+            return true;
+        }
+
+        // private : enables only the terrain mesh following the rendering camera, or this terrain mesh if the camera has no own terrain
+        private _selectCameraTerrain(renderingCamera: Camera): void {
+            const cameraTerrains = this._cameraTerrains;
+            let own: DynamicTerrain = null;
+            for (let t = 0; t < cameraTerrains.length; t++) {
+                if (cameraTerrains[t]._terrainCamera === renderingCamera) {
+                    own = cameraTerrains[t];
+                }
+            }
+            this._terrain.setEnabled(own === null);
+            for (let t = 0; t < cameraTerrains.length; t++) {
+                cameraTerrains[t]._terrain.setEnabled(cameraTerrains[t] === own);
+            }
+        }
+
+        // private : the map was modified by this terrain, the terrains sharing the map must be updated too
+        private _shareMapChange(): void {
+            const primary = this._primaryTerrain || this;
+            const terrains = [primary].concat(primary._cameraTerrains);
+            for (let t = 0; t < terrains.length; t++) {
+                const terrain = terrains[t];
+                if (terrain === this) {
+                    continue;
+                }
+                // the arrays may have been created by the sculpting
+                terrain._mapColors = this._mapColors;
+                terrain._colormap = this._colormap;
+                terrain._mapNormals = this._mapNormals;
+                terrain._sharedMapDirty = true;
+            }
+        }
+
+        // private : creates the ribbon splat weight vertex buffers
+        private _initSplatBuffers(): void {
+            const nbVertices = this._terrainIdx * this._terrainIdx;
+            this._splats0 = new Float32Array(nbVertices * 4);
+            this._splats1 = new Float32Array(nbVertices * 4);
+            this._terrain.setVerticesData(DynamicTerrain.SPLATS0_KIND, this._splats0, true, 4);
+            this._terrain.setVerticesData(DynamicTerrain.SPLATS1_KIND, this._splats1, true, 4);
+            this._splatmap = true;
+        }
+
+        // private : computes, for each terrain column (isX = true) or row, its LOD value, its step on the map,
+        // the geomorphing weight, and the step and LOD value of the closest vertex having a coarser LOD.
+        // The weight is 1 next to a coarser vertex, so the vertices along a LOD limit are stitched onto the coarser edge,
+        // and it decreases down to zero over geomorphBand vertices.
+        private _computeGeomorphData(isX: boolean): {lod: Int32Array, step: Int32Array, weight: Float32Array, anchor: Int32Array, coarse: Int32Array} {
+            const terrainSub = this._terrainSub;
+            const terrainIdx = this._terrainIdx;
+            const LODLimits = this._LODLimits;
+            const LODValue = this._LODValue;
+            const band = this._geomorphBand;
+            const LODNegative = (isX) ? this._LODNegativeX : this._LODNegativeZ;
+            const LODPositive = (isX) ? this._LODPositiveX : this._LODPositiveZ;
+            let data = (isX) ? this._geomorphX : this._geomorphZ;
+            if (!data || data.lod.length != terrainIdx) {
+                data = {
+                    lod: new Int32Array(terrainIdx),
+                    step: new Int32Array(terrainIdx),
+                    weight: new Float32Array(terrainIdx),
+                    anchor: new Int32Array(terrainIdx),
+                    coarse: new Int32Array(terrainIdx)
+                };
+                if (isX) {
+                    this._geomorphX = data;
+                }
+                else {
+                    this._geomorphZ = data;
+                }
+            }
+            const lod = data.lod;
+            const step = data.step;
+            const weight = data.weight;
+            const anchor = data.anchor;
+            const coarse = data.coarse;
+            let currentStep = 0|0;
+            for (let i = 0; i <= terrainSub; i++) {
+                let axisLODValue = LODValue;
+                for (let l = 0; l < LODLimits.length; l++) {
+                    const LODLimitDown = LODLimits[l];
+                    const LODLimitUp = terrainSub - LODLimitDown - 1;
+                    if ((LODNegative && i < LODLimitDown) || (LODPositive && i > LODLimitUp)) {
+                        axisLODValue = l + 1 + LODValue;
+                    }
+                }
+                lod[i] = axisLODValue;
+                step[i] = currentStep;
+                currentStep += axisLODValue;
+            }
+            for (let i = 0; i <= terrainSub; i++) {
+                weight[i] = 0.0;
+                // search the closest coarser vertex within the band
+                for (let d = 1; d <= band; d++) {
+                    let k = -1;
+                    if (i - d >= 0 && lod[i - d] > lod[i]) {
+                        k = i - d;
+                    }
+                    else if (i + d <= terrainSub && lod[i + d] > lod[i]) {
+                        k = i + d;
+                    }
+                    if (k >= 0) {
+                        weight[i] = 1.0 - (d - 1) / band;
+                        anchor[i] = step[k];
+                        coarse[i] = lod[k];
+                        break;
+                    }
+                }
+            }
+            return data;
+        }
+
+        // private : returns the altitude of the vertex (i, j) blended between its fine altitude and the altitude interpolated on the coarser LOD grid
+        private _getGeomorphedHeight(deltaSubX: number, deltaSubZ: number, stepI: number, stepJ: number, geomorphX: {weight: Float32Array, anchor: Int32Array, coarse: Int32Array}, geomorphZ: {weight: Float32Array, anchor: Int32Array, coarse: Int32Array}, i: number, j: number, fineHeight: number): number {
+            const weightX = geomorphX.weight[i];
+            const weightZ = geomorphZ.weight[j];
+            // coarse grid steps around the vertex, aligned on the coarser vertex step
+            let stepX0 = stepI;
+            let stepX1 = stepI;
+            let tx = 0.0;
+            if (weightX > 0.0) {
+                const coarseX = geomorphX.coarse[i];
+                const offsetX = this._mod(stepI - geomorphX.anchor[i], coarseX);
+                stepX0 = stepI - offsetX;
+                stepX1 = stepX0 + coarseX;
+                tx = offsetX / coarseX;
+            }
+            let stepZ0 = stepJ;
+            let stepZ1 = stepJ;
+            let tz = 0.0;
+            if (weightZ > 0.0) {
+                const coarseZ = geomorphZ.coarse[j];
+                const offsetZ = this._mod(stepJ - geomorphZ.anchor[j], coarseZ);
+                stepZ0 = stepJ - offsetZ;
+                stepZ1 = stepZ0 + coarseZ;
+                tz = offsetZ / coarseZ;
+            }
+            const h00 = this._getMapHeightAtSub(deltaSubX + stepX0, deltaSubZ + stepZ0);
+            const h10 = this._getMapHeightAtSub(deltaSubX + stepX1, deltaSubZ + stepZ0);
+            const h01 = this._getMapHeightAtSub(deltaSubX + stepX0, deltaSubZ + stepZ1);
+            const h11 = this._getMapHeightAtSub(deltaSubX + stepX1, deltaSubZ + stepZ1);
+            const hX = (weightZ > 0.0) ? this._getMapHeightAtSub(deltaSubX + stepX0, deltaSubZ + stepJ) * (1.0 - tx) + this._getMapHeightAtSub(deltaSubX + stepX1, deltaSubZ + stepJ) * tx : h00 * (1.0 - tx) + h10 * tx;
+            const hZ = (weightX > 0.0) ? this._getMapHeightAtSub(deltaSubX + stepI, deltaSubZ + stepZ0) * (1.0 - tz) + this._getMapHeightAtSub(deltaSubX + stepI, deltaSubZ + stepZ1) * tz : h00 * (1.0 - tz) + h01 * tz;
+            const hXZ = (h00 * (1.0 - tx) + h10 * tx) * (1.0 - tz) + (h01 * (1.0 - tx) + h11 * tx) * tz;
+            return fineHeight * (1.0 - weightX) * (1.0 - weightZ) + hX * weightX * (1.0 - weightZ) + hZ * (1.0 - weightX) * weightZ + hXZ * weightX * weightZ;
+        }
+
+        // private : returns the map altitude at the map point (subX, subZ), indexes wrapped on the map size
+        private _getMapHeightAtSub(subX: number, subZ: number): number {
+            const mapSubX = this._mapSubX;
+            return this._mapData[3 * (this._mod(subZ, this._mapSubZ) * mapSubX + this._mod(subX, mapSubX)) + 1];
+        }
+
+        // private : applies a sculpting brush on the map points within the radius around (x, z)
+        private _applyBrush(mode: number, x: number, z: number, options: {radius?: number, strength?: number, falloff?: number | ((distance: number) => number), height?: number, color?: Color3}): DynamicTerrain {
+            const radius = options.radius || 1.0;
+            const strength = (options.strength === undefined) ? 1.0 : options.strength;
+            const falloff = (options.falloff === undefined) ? DynamicTerrain.FALLOFF_SMOOTH : options.falloff;
+            const mapData = this._mapData;
+            const mapSubX = this._mapSubX;
+            const mapSubZ = this._mapSubZ;
+            const mapSizeX = this._mapSizeX;
+            const mapSizeZ = this._mapSizeZ;
+            const averageSubSizeX = this._averageSubSizeX;
+            const averageSubSizeZ = this._averageSubSizeZ;
+            const mod = this._mod;
+            const x0 = mapData[0];
+            const z0 = mapData[2];
+            const isPaint = (mode == DynamicTerrain._BRUSH_PAINT);
+            const height = (mode == DynamicTerrain._BRUSH_FLATTEN && options.height === undefined) ? this.getHeightFromMap(x, z) : options.height;
+            const color = options.color || Color3.White();
+            if (isPaint && !this._colormap) {
+                this._mapColors = DynamicTerrain._CreateFilledArray(mapSubX * mapSubZ * 3, 1.0);
+                this._colormap = true;
+            }
+            const mapColors = this._mapColors;
+
+            // brush center in the map, in map subdivisions
+            const centerX = (x - Math.floor((x - x0) / mapSizeX) * mapSizeX - x0) / averageSubSizeX;
+            const centerZ = (z - Math.floor((z - z0) / mapSizeZ) * mapSizeZ - z0) / averageSubSizeZ;
+            const startCol = Math.ceil(centerX - radius / averageSubSizeX);
+            const endCol = Math.floor(centerX + radius / averageSubSizeX);
+            const startRow = Math.ceil(centerZ - radius / averageSubSizeZ);
+            const endRow = Math.floor(centerZ + radius / averageSubSizeZ);
+            const nbCols = endCol - startCol + 1;
+            const nbRows = endRow - startRow + 1;
+            if (nbCols <= 0 || nbRows <= 0) {
+                return this;
+            }
+
+            // the smooth brush reads the altitudes before the brush is applied
+            if (mode == DynamicTerrain._BRUSH_SMOOTH) {
+                var smoothed = new Float32Array(nbCols * nbRows);
+                for (let row = startRow; row <= endRow; row++) {
+                    for (let col = startCol; col <= endCol; col++) {
+                        let sum = 0.0;
+                        for (let dr = -1; dr <= 1; dr++) {
+                            for (let dc = -1; dc <= 1; dc++) {
+                                sum += mapData[3 * (mod(row + dr, mapSubZ) * mapSubX + mod(col + dc, mapSubX)) + 1];
+                            }
+                        }
+                        smoothed[(row - startRow) * nbCols + col - startCol] = sum / 9.0;
+                    }
+                }
+            }
+
+            const isStroke = (this._stroke) ? true : false;
+            if (!isStroke) {
+                this.beginStroke();
+            }
+            const stroke = this._stroke;
+            for (let row = startRow; row <= endRow; row++) {
+                for (let col = startCol; col <= endCol; col++) {
+                    const dx = (col - centerX) * averageSubSizeX;
+                    const dz = (row - centerZ) * averageSubSizeZ;
+                    const distance = Math.sqrt(dx * dx + dz * dz) / radius;
+                    if (distance > 1.0) {
+                        continue;
+                    }
+                    const weight = DynamicTerrain._GetBrushWeight(falloff, distance);
+                    const index = mod(row, mapSubZ) * mapSubX + mod(col, mapSubX);
+                    const posIndex = 3 * index + 1;
+                    this._recordStrokePoint(stroke, index);
+                    switch (mode) {
+                        case DynamicTerrain._BRUSH_RAISE:
+                            mapData[posIndex] += strength * weight;
+                            break;
+                        case DynamicTerrain._BRUSH_LOWER:
+                            mapData[posIndex] -= strength * weight;
+                            break;
+                        case DynamicTerrain._BRUSH_SMOOTH:
+                            const average = smoothed[(row - startRow) * nbCols + col - startCol];
+                            mapData[posIndex] += (average - mapData[posIndex]) * strength * weight;
+                            break;
+                        case DynamicTerrain._BRUSH_FLATTEN:
+                            mapData[posIndex] += (height - mapData[posIndex]) * strength * weight;
+                            break;
+                        case DynamicTerrain._BRUSH_PAINT:
+                            const colIndex = 3 * index;
+                            const blend = strength * weight;
+                            mapColors[colIndex] += (color.r - mapColors[colIndex]) * blend;
+                            mapColors[colIndex + 1] += (color.g - mapColors[colIndex + 1]) * blend;
+                            mapColors[colIndex + 2] += (color.b - mapColors[colIndex + 2]) * blend;
+                            break;
+                    }
+                }
+            }
+            if (!isPaint) {
+                stroke.rects.push(startCol, startRow, nbCols, nbRows);
+                this._computeNormalsFromMapRect(startCol - 1, startRow - 1, nbCols + 2, nbRows + 2);
+            }
+            if (!isStroke) {
+                this.endStroke();
+            }
+            this._mapDirty = true;
+            return this;
+        }
+
+        // private : returns the brush weight at the distance (between 0 and 1) from the brush center
+        private static _GetBrushWeight(falloff: number | ((distance: number) => number), distance: number): number {
+            if (typeof falloff === "function") {
+                return falloff(distance);
+            }
+            switch (falloff) {
+                case DynamicTerrain.FALLOFF_CONSTANT:
+                    return 1.0;
+                case DynamicTerrain.FALLOFF_LINEAR:
+                    return 1.0 - distance;
+                case DynamicTerrain.FALLOFF_SPHERE:
+                    return Math.sqrt(1.0 - distance * distance);
+                default:
+                    const t = 1.0 - distance;
+                    return t * t * (3.0 - 2.0 * t);
+            }
+        }
+
+        // private : stores the map point values in the stroke before its first modification
+        private _recordStrokePoint(stroke: {indexes: number[], heights: number[], colors: number[], recorded: {[index: number]: boolean}}, index: number): void {
+            if (stroke.recorded[index]) {
+                return;
+            }
+            stroke.recorded[index] = true;
+            stroke.indexes.push(index);
+            stroke.heights.push(this._mapData[3 * index + 1]);
+            const mapColors = this._mapColors;
+            if (mapColors) {
+                stroke.colors.push(mapColors[3 * index], mapColors[3 * index + 1], mapColors[3 * index + 2]);
+            }
+            else {
+                stroke.colors.push(1.0, 1.0, 1.0);
+            }
+        }
+
+        // private : swaps the stroke stored values with the current map values, so the same stroke can be undone then redone
+        private _swapStrokeValues(stroke: {indexes: number[], heights: number[], colors: number[], rects: number[]}): void {
+            const mapData = this._mapData;
+            const mapColors = this._mapColors;
+            const indexes = stroke.indexes;
+            const heights = stroke.heights;
+            const colors = stroke.colors;
+            for (let p = 0; p < indexes.length; p++) {
+                const index = indexes[p];
+                const posIndex = 3 * index + 1;
+                const height = mapData[posIndex];
+                mapData[posIndex] = heights[p];
+                heights[p] = height;
+                if (mapColors) {
+                    for (let c = 0; c < 3; c++) {
+                        const color = mapColors[3 * index + c];
+                        mapColors[3 * index + c] = colors[3 * p + c];
+                        colors[3 * p + c] = color;
+                    }
+                }
+            }
+            const rects = stroke.rects;
+            for (let r = 0; r < rects.length; r += 4) {
+                this._computeNormalsFromMapRect(rects[r] - 1, rects[r + 1] - 1, rects[r + 2] + 2, rects[r + 3] + 2);
+            }
+            this._mapDirty = true;
+        }
+
+        // private : creates the map holding the tiles and the tile cache
+        private _initMapTiles(options: {mapTilesX?: number, mapTilesZ?: number, maxCachedTiles?: number, placeholderHeight?: number}): void {
+            const provider = this._tileProvider;
+            this._mapTilesX = options.mapTilesX || this._mapTilesX;
+            this._mapTilesZ = options.mapTilesZ || this._mapTilesZ;
+            this._maxCachedTiles = options.maxCachedTiles || this._maxCachedTiles;
+            this._placeholderHeight = options.placeholderHeight || 0.0;
+            this._mapSubX = this._mapTilesX * provider.tileSubX;
+            this._mapSubZ = this._mapTilesZ * provider.tileSubZ;
+            this._tileSlots = [];
+            this._tileCache = {};
+            this._tileCacheKeys = [];
+            this._pendingTiles = {};
+            // the map is a fixed grid whose points store the altitudes of the tiles currently in memory
+            const mapSubX = this._mapSubX;
+            const mapSubZ = this._mapSubZ;
+            const mapData = new Float32Array(mapSubX * mapSubZ * 3);
+            for (let j = 0; j < mapSubZ; j++) {
+                for (let i = 0; i < mapSubX; i++) {
+                    const idx = 3 * (j * mapSubX + i);
+                    mapData[idx] = i * provider.subSizeX;
+                    mapData[idx + 1] = this._placeholderHeight;
+                    mapData[idx + 2] = j * provider.subSizeZ;
+                }
+            }
+            this._mapData = mapData;
+        }
+
+        // private : requests the tiles covering the current terrain and stores the available ones in the map.
+        // The map is used as a ring buffer : the tile (tileX, tileZ) is stored in the slot (tileX mod mapTilesX, tileZ mod mapTilesZ),
+        // so the map indexes computed by the terrain update from deltaSubX and deltaSubZ remain valid.
+        private _updateMapTiles(): void {
+            const provider = this._tileProvider;
+            const tileSubX = provider.tileSubX;
+            const tileSubZ = provider.tileSubZ;
+            const mapTilesX = this._mapTilesX;
+            const mapTilesZ = this._mapTilesZ;
+            const mod = this._mod;
+            const terrainPosition = this._terrain.position;
+            const x0 = this._mapData[0];
+            const z0 = this._mapData[2];
+            const firstSubX = Math.floor((terrainPosition.x - x0) / this._averageSubSizeX);
+            const firstSubZ = Math.floor((terrainPosition.z - z0) / this._averageSubSizeZ);
+            const lastSubX = firstSubX + Math.ceil(this._terrainSizeX / this._averageSubSizeX);
+            const lastSubZ = firstSubZ + Math.ceil(this._terrainSizeZ / this._averageSubSizeZ);
+            const firstTileX = Math.floor(firstSubX / tileSubX);
+            const firstTileZ = Math.floor(firstSubZ / tileSubZ);
+            // don't request more tiles than the map can hold
+            const lastTileX = Math.min(Math.floor(lastSubX / tileSubX), firstTileX + mapTilesX - 1);
+            const lastTileZ = Math.min(Math.floor(lastSubZ / tileSubZ), firstTileZ + mapTilesZ - 1);
+
+            for (let tz = firstTileZ; tz <= lastTileZ; tz++) {
+                for (let tx = firstTileX; tx <= lastTileX; tx++) {
+                    const key = tx + "_" + tz;
+                    const slot = mod(tz, mapTilesZ) * mapTilesX + mod(tx, mapTilesX);
+                    if (this._tileSlots[slot] === key) {
+                        continue;
+                    }
+                    this._tileSlots[slot] = key;
+                    const tile = this._getCachedTile(key);
+                    if (tile) {
+                        this._setMapTile(tx, tz, tile);
+                        continue;
+                    }
+                    this._setMapTile(tx, tz, null);
+                    if (!this._pendingTiles[key]) {
+                        this._pendingTiles[key] = true;
+                        this._requestTile(tx, tz, key);
+                    }
+                }
+            }
+        }
+
+        // private : asks the provider for a tile and stores it once loaded
+        private _requestTile(tileX: number, tileZ: number, key: string): void {
+            const mod = this._mod;
+            const slot = mod(tileZ, this._mapTilesZ) * this._mapTilesX + mod(tileX, this._mapTilesX);
+            this._tileProvider.loadTile(tileX, tileZ, (tile: IDynamicTerrainTile) => {
+                delete this._pendingTiles[key];
+                this._cacheTile(key, tile);
+                // the tile may have been paged out while loading
+                if (this._tileSlots[slot] === key) {
+                    this._setMapTile(tileX, tileZ, tile);
+                    this._mapDirty = true;
+                }
+            });
+        }
+
+        // private : returns the tile from the cache and marks it as the most recently used one, or null
+        private _getCachedTile(key: string): IDynamicTerrainTile {
+            const tile = this._tileCache[key];
+            if (!tile) {
+                return null;
+            }
+            const keys = this._tileCacheKeys;
+            keys.splice(keys.indexOf(key), 1);
+            keys.push(key);
+            return tile;
+        }
+
+        // private : stores the tile in the cache and evicts the least recently used tiles beyond the cache capacity
+        private _cacheTile(key: string, tile: IDynamicTerrainTile): void {
+            const keys = this._tileCacheKeys;
+            if (this._tileCache[key]) {
+                keys.splice(keys.indexOf(key), 1);
+            }
+            this._tileCache[key] = tile;
+            keys.push(key);
+            while (keys.length > this._maxCachedTiles) {
+                delete this._tileCache[keys.shift()];
+            }
+        }
+
+        // private : copies the tile data in its map slot, or the placeholder values if the tile is null
+        private _setMapTile(tileX: number, tileZ: number, tile: IDynamicTerrainTile): void {
+            const provider = this._tileProvider;
+            const tileSubX = provider.tileSubX;
+            const tileSubZ = provider.tileSubZ;
+            const mapSubX = this._mapSubX;
+            const mapSubZ = this._mapSubZ;
+            const mapData = this._mapData;
+            const mapNormals = this._mapNormals;
+            const startCol = this._mod(tileX, this._mapTilesX) * tileSubX;
+            const startRow = this._mod(tileZ, this._mapTilesZ) * tileSubZ;
+            const placeholder = this._placeholderHeight;
+            const normalY = (this._inverted) ? -1.0 : 1.0;
+            const normalSign = (this._inverted) ? -1.0 : 1.0;
+            if (tile && tile.colors && !this._colormap) {
+                this._mapColors = DynamicTerrain._CreateFilledArray(mapSubX * mapSubZ * 3, 1.0);
+                this._colormap = true;
+            }
+            if (tile && tile.uvs && !this._uvmap) {
+                this._mapUVs = DynamicTerrain._CreateFilledArray(mapSubX * mapSubZ * 2, 0.0);
+                this._uvmap = true;
+            }
+            const mapColors = this._mapColors;
+            const mapUVs = this._mapUVs;
+            for (let j = 0; j < tileSubZ; j++) {
+                for (let i = 0; i < tileSubX; i++) {
+                    const tileIdx = j * tileSubX + i;
+                    const mapIdx = (startRow + j) * mapSubX + startCol + i;
+                    const idx3 = 3 * mapIdx;
+                    const tileIdx3 = 3 * tileIdx;
+                    if (tile) {
+                        mapData[idx3 + 1] = tile.heights[tileIdx];
+                        if (tile.normals) {
+                            mapNormals[idx3] = tile.normals[tileIdx3] * normalSign;
+                            mapNormals[idx3 + 1] = tile.normals[tileIdx3 + 1] * normalSign;
+                            mapNormals[idx3 + 2] = tile.normals[tileIdx3 + 2] * normalSign;
+                        }
+                        if (tile.colors) {
+                            mapColors[idx3] = tile.colors[tileIdx3];
+                            mapColors[idx3 + 1] = tile.colors[tileIdx3 + 1];
+                            mapColors[idx3 + 2] = tile.colors[tileIdx3 + 2];
+                        }
+                        if (tile.uvs) {
+                            mapUVs[2 * mapIdx] = tile.uvs[2 * tileIdx];
+                            mapUVs[2 * mapIdx + 1] = tile.uvs[2 * tileIdx + 1];
+                        }
+                    }
+                    else {
+                        mapData[idx3 + 1] = placeholder;
+                        mapNormals[idx3] = 0.0;
+                        mapNormals[idx3 + 1] = normalY;
+                        mapNormals[idx3 + 2] = 0.0;
+                        if (mapColors) {
+                            mapColors[idx3] = 1.0;
+                            mapColors[idx3 + 1] = 1.0;
+                            mapColors[idx3 + 2] = 1.0;
+                        }
+                    }
+                }
+            }
+            // the normals on the tile edges depend on the neighbour tiles
+            if (tile && !tile.normals) {
+                this._computeNormalsFromMapRect(startCol - 1, startRow - 1, tileSubX + 2, tileSubZ + 2);
+            }
+        }
+
+        // private : recomputes the map normals in the rectangle starting at (col, row), nbX points wide and nbZ points high.
+        // The rectangle and a one point margin are copied in a small map passed to ComputeNormalsFromMapToRef().
+        private _computeNormalsFromMapRect(col: number, row: number, nbX: number, nbZ: number): void {
+            const mapData = this._mapData;
+            const mapNormals = this._mapNormals;
+            const mapSubX = this._mapSubX;
+            const mapSubZ = this._mapSubZ;
+            const mod = this._mod;
+            const subX = nbX + 2;
+            const subZ = nbZ + 2;
+            const rectData = new Float32Array(subX * subZ * 3);
+            const rectNormals = new Float32Array(subX * subZ * 3);
+            for (let j = 0; j < subZ; j++) {
+                for (let i = 0; i < subX; i++) {
+                    const mapIdx = mod(row - 1 + j, mapSubZ) * mapSubX + mod(col - 1 + i, mapSubX);
+                    const rectIdx = 3 * (j * subX + i);
+                    rectData[rectIdx] = i * this._averageSubSizeX;
+                    rectData[rectIdx + 1] = mapData[3 * mapIdx + 1];
+                    rectData[rectIdx + 2] = j * this._averageSubSizeZ;
+                }
+            }
+            DynamicTerrain.ComputeNormalsFromMapToRef(rectData, subX, subZ, rectNormals, this._inverted);
+            // copy back the normals, margin excluded
+            for (let j = 1; j < subZ - 1; j++) {
+                for (let i = 1; i < subX - 1; i++) {
+                    const mapIdx = 3 * (mod(row - 1 + j, mapSubZ) * mapSubX + mod(col - 1 + i, mapSubX));
+                    const rectIdx = 3 * (j * subX + i);
+                    mapNormals[mapIdx] = rectNormals[rectIdx];
+                    mapNormals[mapIdx + 1] = rectNormals[rectIdx + 1];
+                    mapNormals[mapIdx + 2] = rectNormals[rectIdx + 2];
+                }
+            }
+        }
+
+        // private : returns a new Float32Array of size nb filled with the passed value
+        private static _CreateFilledArray(nb: number, value: number): Float32Array {
+            const array = new Float32Array(nb);
+            for (let i = 0; i < nb; i++) {
+                array[i] = value;
+            }
+            return array;
+        }
+
+        // private modulo, for dealing with negative indexes
+        private _mod(a: number, b: number): number {
+            return ((a % b) + b) % b;
+        }
+
+        /**
+         * Updates the mesh terrain size according to the LOD limits and the camera position.
+         * Returns the terrain.
+         */
+        public updateTerrainSize(): DynamicTerrain { 
+            let remainder = this._terrainSub;                   // the remaining cells at the general current LOD value
+            let nb = 0|0;                                       // nb of cells in the current LOD limit interval
+            let next = 0|0;                                     // next cell index, if it exists
+            let LODValue = this._LODValue;
+            let lod = LODValue + 1;                             // lod value in the current LOD limit interval
+            let tsx = 0.0;                                      // current sum of cell sizes on x
+            let tsz = 0.0;                                      // current sum of cell sizes on z
+            const LODLimits = this._LODLimits;
+            const averageSubSizeX = this._averageSubSizeX;
+            const averageSubSizeZ = this._averageSubSizeZ;
+            for (let l = 0|0; l < LODLimits.length; l++) {
+                lod = LODValue + l + 1; 
+                next = (l >= LODLimits.length - 1) ? 0 : LODLimits[l + 1];
+                nb = 2 * (LODLimits[l] - next);
+                tsx += averageSubSizeX * lod * nb;
+                tsz += averageSubSizeZ * lod * nb;
+                remainder -= nb;
+            }
+            tsx += remainder * averageSubSizeX * LODValue;
+            tsz += remainder * averageSubSizeZ * LODValue;
+            this._terrainSizeX = tsx;
+            this._terrainSizeZ = tsz;
+            this._terrainHalfSizeX = tsx * 0.5;
+            this._terrainHalfSizeZ = tsz * 0.5;
+            return this;
+        }
+
+        /**
+         * Returns the altitude (float) at the coordinates (x, z) of the map.  
+         * @param x 
+         * @param z 
+         * @param {normal: Vector3} (optional)
+         * If the optional object {normal: Vector3} is passed, then its property "normal" is updated with the normal vector value at the coordinates (x, z).  
+         */
+        public getHeightFromMap(x: number, z: number, options?: {normal: Vector3} ): number {
+            return DynamicTerrain._GetHeightFromMap(x, z, this._mapData, this._mapSubX, this._mapSubZ, this._mapSizeX, this._mapSizeZ, options, this._inverted);
+        }
+
+        /**
+         * Static : Returns the altitude (float) at the coordinates (x, z) of the passed map.
+         * @param x 
+         * @param z 
+         * @param mapSubX the number of points along the map width
+         * @param mapSubX the number of points along the map height
+         * @param {normal: Vector3} (optional)
+         * @param inverted (optional boolean) is the terrain inverted
+         * If the optional object {normal: Vector3} is passed, then its property "normal" is updated with the normal vector value at the coordinates (x, z).  
+         */
+        public static GetHeightFromMap(x: number, z: number, mapData: number[]| Float32Array, mapSubX: number, mapSubZ: number, options? : {normal: Vector3}, inverted?: boolean) : number {
+            let mapSizeX = Math.abs(mapData[(mapSubX - 1) * 3] - mapData[0]);
+            let mapSizeZ = Math.abs(mapData[(mapSubZ - 1) * mapSubX * 3 + 2] - mapData[2]);
+            return DynamicTerrain._GetHeightFromMap(x, z, mapData, mapSubX, mapSubZ, mapSizeX, mapSizeZ, options, inverted);
+        }
+
+        // Computes the height and optionnally the normal at the coordinates (x ,z) from the passed map
+        private static _GetHeightFromMap(x: number, z: number, mapData: number[]| Float32Array, mapSubX: number, mapSubZ: number, mapSizeX: number, mapSizeZ: number, options? : {normal: Vector3}, inverted?: boolean) : number {
+
+            let x0 = mapData[0];
+            let z0 = mapData[2];
+
+            // reset x and z in the map space so they are between 0 and the map size
+            x = x - Math.floor((x - x0) / mapSizeX) * mapSizeX;
+            z = z - Math.floor((z - z0) / mapSizeZ) * mapSizeZ;
+
+            let col1 = Math.floor((x - x0) * mapSubX / mapSizeX);
+            let row1 = Math.floor((z - z0) * mapSubZ / mapSizeZ);
+            let col2 = (col1 + 1) % mapSubX;
+            let row2 = (row1 + 1) % mapSubZ;
+            // starting indexes of the positions of 4 vertices defining a quad on the map
+            let idx1 = 3 * (row1 * mapSubX + col1);
+            let idx2 = 3 * (row1 * mapSubX + col2);
+            let idx3 = 3 * ((row2) * mapSubX + col1);
+            let idx4 = 3 * ((row2) * mapSubX + col2);
+
+            const v1 = DynamicTerrain._v1;
+            const v2 = DynamicTerrain._v2;
+            const v3 = DynamicTerrain._v3;
+            const v4 = DynamicTerrain._v4;
+            v1.copyFromFloats(mapData[idx1], mapData[idx1 + 1], mapData[idx1 + 2]);
+            v2.copyFromFloats(mapData[idx2], mapData[idx2 + 1], mapData[idx2 + 2]);
+            v3.copyFromFloats(mapData[idx3], mapData[idx3 + 1], mapData[idx3 + 2]);
+            v4.copyFromFloats(mapData[idx4], mapData[idx4 + 1], mapData[idx4 + 2]);
+
+            const vAvB = DynamicTerrain._vAvB;
+            const vAvC = DynamicTerrain._vAvC;
+            const norm = DynamicTerrain._norm;
+            const vA = v1;
+            let vB;
+            let vC;
+            let v;
+
+            let xv4v1 = v4.x - v1.x;
+            let zv4v1 = v4.z - v1.z;
+            if (xv4v1 == 0 || zv4v1 == 0) {
+                return v1.y;
+            }
+            let cd = zv4v1 / xv4v1;
+            let h = v1.z - cd * v1.x;
+            if (z < cd * x + h) {
+                vB = v4;
+                vC = v2;
+                v = vA;
+            } 
+            else {
+                vB = v3;
+                vC = v4;
+                v = vB;
+            }
+            vB.subtractToRef(vA, vAvB);
+            vC.subtractToRef(vA, vAvC);
+            Vector3.CrossToRef(vAvB, vAvC, norm);
+            norm.normalize();
+            if (inverted) {
+                norm.scaleInPlace(-1.0);
+            }
+            if (options && options.normal) {
+                options.normal.copyFrom(norm);
+            }
+            let d = -(norm.x * v.x + norm.y * v.y + norm.z * v.z);
+            let y = v.y;
+            if (norm.y != 0.0) {
+                y = -(norm.x * x + norm.z * z + d) / norm.y;
+            }
+
+            return y;
+        }
+
+        /**
+         * Static : Computes all the normals from the terrain data map  and stores them in the passed Float32Array reference.  
+         * This passed array must have the same size than the mapData array.
+         */
+         public static ComputeNormalsFromMapToRef(mapData: number[]| Float32Array, mapSubX: number, mapSubZ, normals: number[] | Float32Array, inverted: boolean): void {
+            const mapIndices = [];
+            const tmp1 = {normal: Vector3.Zero()};
+            const tmp2 = {normal: Vector3.Zero()};
+            const normal1 = tmp1.normal;
+            const normal2 = tmp2.normal;
+            let l = mapSubX * (mapSubZ - 1);
+            let i = 0;
+            for (i = 0; i < l; i++) {
+                mapIndices.push(i + 1, i + mapSubX, i);
+                mapIndices.push(i + mapSubX, i + 1, i + mapSubX + 1);
+            }
+            VertexData.ComputeNormals(mapData, mapIndices, normals);
+            
+            // seam process
+            let lastIdx = (mapSubX - 1) * 3;
+            let colStart = 0;
+            let colEnd = 0;
+            const getHeightFromMap = DynamicTerrain.GetHeightFromMap;
+            for (i = 0; i < mapSubZ; i++) {
+                colStart = i * mapSubX * 3;
+                colEnd = colStart + lastIdx;
+                getHeightFromMap(mapData[colStart], mapData[colStart + 2], mapData, mapSubX, mapSubZ, tmp1);
+                getHeightFromMap(mapData[colEnd], mapData[colEnd + 2], mapData, mapSubX, mapSubZ, tmp2);
+                normal1.addInPlace(normal2).scaleInPlace(0.5);
+                normals[colStart] = normal1.x;
+                normals[colStart + 1] = normal1.y;
+                normals[colStart + 2] = normal1.z;
+                normals[colEnd] = normal1.x;
+                normals[colEnd + 1] = normal1.y;
+                normals[colEnd + 2] = normal1.z;
+            }  
+            // inverted terrain
+            if (inverted) {
+                for (i = 0; i < normals.length; i++) {
+                    normals[i] = -normals[i];
+                }
+            }
+         }
+
          /**
           * Computes all the map normals from the current terrain data map and sets them to the terrain.  
           * Returns the terrain.  
@@ -1293,23 +2537,1170 @@ module BABYLON {
           }
 
         /**
-         * Returns true if the World coordinates (x, z) are in the current terrain.
-         * @param x 
-         * @param z 
+         * Returns true if the World coordinates (x, z) are in the current terrain.
+         * @param x 
+         * @param z 
+         */
+        public contains(x: number, z: number): boolean {
+            const positions = this._positions;
+            const meshPosition = this.mesh.position;
+            const terrainIdx = this._terrainIdx;
+            if (x < positions[0] + meshPosition.x || x > positions[3 * terrainIdx] + meshPosition.x) {
+                return false;
+            }
+            if (z < positions[2] + meshPosition.z || z > positions[3 * terrainIdx * terrainIdx + 2] + meshPosition.z) {
+                return false;
+            }
+            return true;
+        }
+
+        /**
+         * Returns true if the tile (tileX, tileZ) was requested to the tile provider and is not loaded yet.
+         * @param tileX 
+         * @param tileZ 
+         */
+        public isTilePending(tileX: number, tileZ: number): boolean {
+            return (this._pendingTiles && this._pendingTiles[tileX + "_" + tileZ]) ? true : false;
+        }
+
+        /**
+         * Casts a ray against the whole map, not only the current terrain, and returns the first hit.
+         * The map is repeated infinitely like the terrain.
+         * @param origin the ray origin in the World
+         * @param direction the ray direction (not necessarily normalized)
+         * @param maxDistance the maximum distance to test along the ray (default : the map diagonal)
+         * @param result (optional) an IDynamicTerrainRaycastHit object to update instead of creating a new one
+         */
+        public raycastMap(origin: Vector3, direction: Vector3, maxDistance?: number, result?: IDynamicTerrainRaycastHit): IDynamicTerrainRaycastHit {
+            return this._castMap(origin, direction, maxDistance, 0.0, result);
+        }
+
+        /**
+         * Moves a sphere along a direction against the whole map and returns the first contact.
+         * `distance` is then the distance travelled by the sphere center and `point` the contact point on the map.
+         * The contact is computed against all the map triangles within the radius of the sphere center path.
+         * @param origin the sphere center start position in the World
+         * @param direction the sweep direction (not necessarily normalized)
+         * @param radius the sphere radius
+         * @param maxDistance the maximum distance to test along the direction (default : the map diagonal)
+         * @param result (optional) an IDynamicTerrainRaycastHit object to update instead of creating a new one
+         */
+        public sweepSphere(origin: Vector3, direction: Vector3, radius: number, maxDistance?: number, result?: IDynamicTerrainRaycastHit): IDynamicTerrainRaycastHit {
+            return this._castMap(origin, direction, maxDistance, radius, result);
+        }
+
+        /**
+         * Returns true if the map doesn't hide the World position `to` from the World position `from`.
+         * A position `from` under the ground is always hidden.
+         * @param from 
+         * @param to 
+         * @param clearance (optional) the minimum distance to keep between the sight line and the map (default 0)
+         */
+        public lineOfSight(from: Vector3, to: Vector3, clearance?: number): boolean {
+            // a sight line starting under the ground is hidden, even if it never crosses the ground again
+            if (this._cellHeight(from.x, from.z) > from.y) {
+                return false;
+            }
+            const direction = DynamicTerrain._v1;
+            to.subtractToRef(from, direction);
+            const distance = direction.length();
+            if (distance == 0.0) {
+                return true;
+            }
+            const hit = this._castMap(from, direction, distance, clearance || 0.0, DynamicTerrain._castResult);
+            return !hit.hit;
+        }
+
+        /**
+         * Returns the objects of the SPS and instance maps within the distance `radius` from the World coordinates (x, z), sorted by distance.
+         * `sps` and `instances` (default true) : search in the SPS map, in the instance map.
+         * `types` : optional array of the object types to search, default all.
+         * @param x 
+         * @param z 
+         * @param radius 
+         * @param options (optional) {sps, instances, types}
+         */
+        public getObjectsInRadius(x: number, z: number, radius: number, options?: {sps?: boolean, instances?: boolean, types?: number[]}): IDynamicTerrainMapObject[] {
+            const results: IDynamicTerrainMapObject[] = [];
+            const visited: {[quadIdx: number]: boolean} = {};
+            this._visitObjectQuads(x, z, radius, visited, options, (isInstance, type, index, ox, oz) => {
+                const dx = ox - x;
+                const dz = oz - z;
+                const distance = Math.sqrt(dx * dx + dz * dz);
+                if (distance <= radius) {
+                    results.push(this._createMapObject(isInstance, type, index, ox, oz, distance));
+                }
+            });
+            results.sort((a, b) => a.distance - b.distance);
+            return results;
+        }
+
+        /**
+         * Returns the objects of the SPS and instance maps within the distance `radius` from the segment [start, end] on the ground, sorted by distance from `start` along the segment.
+         * The objects altitudes are ignored.
+         * @param start the segment start in the World
+         * @param end the segment end in the World
+         * @param radius the max distance from the segment
+         * @param options (optional) {sps, instances, types}, see getObjectsInRadius()
+         */
+        public getObjectsAlongSegment(start: Vector3, end: Vector3, radius: number, options?: {sps?: boolean, instances?: boolean, types?: number[]}): IDynamicTerrainMapObject[] {
+            const results: IDynamicTerrainMapObject[] = [];
+            const visited: {[quadIdx: number]: boolean} = {};
+            const found: {[key: string]: boolean} = {};
+            const dx = end.x - start.x;
+            const dz = end.z - start.z;
+            const length = Math.sqrt(dx * dx + dz * dz);
+            const step = Math.min(this._averageSubSizeX, this._averageSubSizeZ);
+            const nbSteps = Math.ceil(length / step);
+            // the quads around each step along the segment, one map cell apart
+            for (let s = 0; s <= nbSteps; s++) {
+                const k = (nbSteps > 0) ? s / nbSteps : 0.0;
+                const px = start.x + dx * k;
+                const pz = start.z + dz * k;
+                this._visitObjectQuads(px, pz, radius + step, visited, options, (isInstance, type, index, ox, oz) => {
+                    const key = ((isInstance) ? "i" : "s") + type + "_" + index;
+                    if (found[key]) {
+                        return;
+                    }
+                    // the object position is the closest one to the current step, that is on the segment
+                    let t = (length > 0.0) ? ((ox - start.x) * dx + (oz - start.z) * dz) / (length * length) : 0.0;
+                    t = Math.min(Math.max(t, 0.0), 1.0);
+                    const cx = start.x + dx * t - ox;
+                    const cz = start.z + dz * t - oz;
+                    if (cx * cx + cz * cz <= radius * radius) {
+                        found[key] = true;
+                        results.push(this._createMapObject(isInstance, type, index, ox, oz, t * length));
+                    }
+                });
+            }
+            results.sort((a, b) => a.distance - b.distance);
+            return results;
+        }
+
+        /**
+         * Returns the first object of the SPS and instance maps hit by the ray, or null.
+         * The objects are tested with their bounding sphere, the ray stops on the map ground.
+         * `distance` is then the distance from the ray origin to the hit.
+         * Example : `terrain.pickObject(ray.origin, ray.direction)` with the ray from `scene.createPickingRay()`.
+         * @param origin the ray origin in the World
+         * @param direction the ray direction
+         * @param options (optional) {maxDistance, sps, instances, types}, see getObjectsInRadius()
+         */
+        public pickObject(origin: Vector3, direction: Vector3, options?: {maxDistance?: number, sps?: boolean, instances?: boolean, types?: number[]}): IDynamicTerrainMapObject {
+            options = options || {};
+            const length = direction.length();
+            if (length == 0.0) {
+                return null;
+            }
+            const dx = direction.x / length;
+            const dy = direction.y / length;
+            const dz = direction.z / length;
+            const ground = this.raycastMap(origin, direction, options.maxDistance, DynamicTerrain._castResult);
+            let limit = ground.distance;
+            if (!ground.hit) {
+                limit = (options.maxDistance === undefined || !isFinite(options.maxDistance)) ? Math.sqrt(this._mapSizeX * this._mapSizeX + this._mapSizeZ * this._mapSizeZ) : options.maxDistance;
+            }
+            // search radius : the biggest object bounding sphere
+            let searchRadius = 0.0;
+            const systems = [this._typeSPS, this._typeInstance];
+            for (let sy = 0; sy < systems.length; sy++) {
+                const isInstance = (systems[sy] == this._typeInstance);
+                const data = (isInstance) ? this._instanceMapData : this._SPmapData;
+                if (!data || (isInstance && options.instances === false) || (!isInstance && options.sps === false)) {
+                    continue;
+                }
+                for (let t = 0; t < data.length; t++) {
+                    searchRadius = Math.max(searchRadius, this._getObjectPickRadius(isInstance, t));
+                }
+            }
+            const end = DynamicTerrain._v2;
+            end.copyFromFloats(origin.x + dx * limit, origin.y + dy * limit, origin.z + dz * limit);
+            const candidates = this.getObjectsAlongSegment(origin, end, searchRadius, options);
+            let picked: IDynamicTerrainMapObject = null;
+            for (let c = 0; c < candidates.length; c++) {
+                const candidate = candidates[c];
+                const sphere = this._getTypeBoundingSphere(candidate.isInstance, candidate.type);
+                const scaling = candidate.scaling;
+                const radius = sphere.radius * Math.max(Math.abs(scaling.x), Math.abs(scaling.y), Math.abs(scaling.z));
+                // ray / bounding sphere intersection
+                const ox = origin.x - (candidate.position.x + sphere.center.x * scaling.x);
+                const oy = origin.y - (candidate.position.y + sphere.center.y * scaling.y);
+                const oz = origin.z - (candidate.position.z + sphere.center.z * scaling.z);
+                const b = ox * dx + oy * dy + oz * dz;
+                const disc = b * b - (ox * ox + oy * oy + oz * oz - radius * radius);
+                if (disc < 0.0) {
+                    continue;
+                }
+                const sqrtDisc = Math.sqrt(disc);
+                let t = -b - sqrtDisc;
+                if (t < 0.0) {
+                    t = -b + sqrtDisc;
+                }
+                if (t >= 0.0 && t <= limit && (!picked || t < picked.distance)) {
+                    candidate.distance = t;
+                    picked = candidate;
+                }
+            }
+            return picked;
+        }
+
+        /**
+         * Removes an object from the SPS or instance map. It won't be displayed any longer.
+         * The indexes of the other objects don't change.
+         * Returns true if the object was removed.
+         * @param isInstance true for an object of the instance map, false for the SPS map
+         * @param type the object type
+         * @param index the object index in its type array
+         */
+        public removeMapObject(isInstance: boolean, type: number, index: number): boolean {
+            if (!this._removeObjectFromQuad(isInstance, type, index)) {
+                return false;
+            }
+            const system = (isInstance) ? this._typeInstance : this._typeSPS;
+            const removed = this._removedObjects[system];
+            removed[type] = removed[type] || [];
+            removed[type].push(index);
+            this._mapDirty = true;
+            return true;
+        }
+
+        /**
+         * Replaces an object of the SPS or instance map by an object of the type `newType`, keeping its transform unless a new one is passed.
+         * If `newType` is the object type, the object is only moved, rotated or scaled.
+         * Else the old object is removed and the new one is added at the end of the `newType` array with the same color and uvs.
+         * Returns the index of the new object in its type array, or -1 if the object doesn't exist.
+         * @param isInstance true for an object of the instance map, false for the SPS map
+         * @param type the object type
+         * @param index the object index in its type array
+         * @param newType the new object type
+         * @param transform (optional) {position, rotation, scaling} : the new object World transform, each Vector3 being optional
+         */
+        public replaceMapObject(isInstance: boolean, type: number, index: number, newType: number, transform?: {position?: Vector3, rotation?: Vector3, scaling?: Vector3}): number {
+            const dataStride = this._particleDataStride;
+            const mapData = (isInstance) ? this._instanceMapData : this._SPmapData;
+            const colorData = (isInstance) ? this._instanceColorData : this._SPcolorData;
+            const uvData = (isInstance) ? null : this._SPuvData;
+            if (!mapData || !mapData[newType] || !this._removeObjectFromQuad(isInstance, type, index)) {
+                return -1;
+            }
+            const data = mapData[type];
+            const idm = index * dataStride;
+            const values = [];
+            for (let v = 0; v < dataStride; v++) {
+                values.push(data[idm + v]);
+            }
+            transform = transform || {};
+            const vectors = [transform.position, transform.rotation, transform.scaling];
+            for (let v = 0; v < vectors.length; v++) {
+                if (vectors[v]) {
+                    values[3 * v] = vectors[v].x;
+                    values[3 * v + 1] = vectors[v].y;
+                    values[3 * v + 2] = vectors[v].z;
+                }
+            }
+            let newIndex = index;
+            if (newType == type) {
+                for (let v = 0; v < dataStride; v++) {
+                    data[idm + v] = values[v];
+                }
+            }
+            else {
+                const system = (isInstance) ? this._typeInstance : this._typeSPS;
+                const removed = this._removedObjects[system];
+                removed[type] = removed[type] || [];
+                removed[type].push(index);
+                newIndex = (mapData[newType].length / dataStride)|0;
+                mapData[newType] = DynamicTerrain._AppendToArray(mapData[newType], values);
+                const colorStride = this._particleColorStride;
+                if (colorData && colorData[newType]) {
+                    const color = (colorData[type]) ? DynamicTerrain._SliceArray(colorData[type], index * colorStride, colorStride) : [1.0, 1.0, 1.0, 1.0];
+                    colorData[newType] = DynamicTerrain._AppendToArray(colorData[newType], color);
+                }
+                const uvStride = this._particleUVStride;
+                if (uvData && uvData[newType]) {
+                    const uv = (uvData[type]) ? DynamicTerrain._SliceArray(uvData[type], index * uvStride, uvStride) : [0.0, 0.0, 1.0, 1.0];
+                    uvData[newType] = DynamicTerrain._AppendToArray(uvData[newType], uv);
+                }
+                // the object pools are sized from the type arrays
+                this._objectPools = undefined;
+            }
+            if (isInstance && this._precomputeInstances && this._instanceWM) {
+                const quat = DynamicTerrain._quat;
+                const mat = DynamicTerrain._mat;
+                DynamicTerrain._pos.copyFromFloats(values[0], values[1], values[2]);
+                Quaternion.RotationYawPitchRollToRef(values[4], values[3], values[5], quat);
+                DynamicTerrain._scl.copyFromFloats(values[6], values[7], values[8]);
+                DynamicTerrain._ComposeToRef(DynamicTerrain._scl, quat, DynamicTerrain._pos, mat);
+                let instanceWM = this._instanceWM[newType];
+                if (instanceWM.length < (newIndex + 1) * 16) {
+                    const grown = new Float32Array((newIndex + 1) * 16);
+                    grown.set(instanceWM);
+                    instanceWM = grown;
+                    this._instanceWM[newType] = instanceWM;
+                }
+                instanceWM.set(mat, newIndex * 16);
+            }
+            this._addObjectToQuad(isInstance, newType, newIndex);
+            this._objectPickRadii = undefined;
+            this._mapDirty = true;
+            return newIndex;
+        }
+
+        // private : calls back `callback` for each object of the map quads around (x, z) not visited yet, with the object position the closest to (x, z) on the repeated map
+        private _visitObjectQuads(x: number, z: number, radius: number, visited: {[quadIdx: number]: boolean}, options: {sps?: boolean, instances?: boolean, types?: number[]}, callback: (isInstance: boolean, type: number, index: number, ox: number, oz: number) => void): void {
+            const quads = this._mapQuads;
+            if (!quads) {
+                return;
+            }
+            options = options || {};
+            const types = options.types;
+            const mapSubX = this._mapSubX;
+            const mapSubZ = this._mapSubZ;
+            const mapSizeX = this._mapSizeX;
+            const mapSizeZ = this._mapSizeZ;
+            const cellX = this._averageSubSizeX;
+            const cellZ = this._averageSubSizeZ;
+            const x0 = this._mapData[0];
+            const z0 = this._mapData[2];
+            const dataStride = this._particleDataStride;
+            const colMin = Math.floor((x - radius - x0) / cellX);
+            const rowMin = Math.floor((z - radius - z0) / cellZ);
+            const colMax = Math.min(Math.floor((x + radius - x0) / cellX), colMin + mapSubX - 1);
+            const rowMax = Math.min(Math.floor((z + radius - z0) / cellZ), rowMin + mapSubZ - 1);
+            const systems = [this._typeSPS, this._typeInstance];
+            for (let row = rowMin; row <= rowMax; row++) {
+                for (let col = colMin; col <= colMax; col++) {
+                    const quadIdx = this._mod(row, mapSubZ) * mapSubX + this._mod(col, mapSubX);
+                    if (visited[quadIdx] || !quads[quadIdx]) {
+                        continue;
+                    }
+                    visited[quadIdx] = true;
+                    for (let sy = 0; sy < systems.length; sy++) {
+                        const isInstance = (systems[sy] == this._typeInstance);
+                        const quad = quads[quadIdx][systems[sy]];
+                        if (!quad || (isInstance && options.instances === false) || (!isInstance && options.sps === false)) {
+                            continue;
+                        }
+                        const mapData = (isInstance) ? this._instanceMapData : this._SPmapData;
+                        for (let t = 0; t < quad.length; t++) {
+                            const indexes = quad[t];
+                            if (!indexes || (types && types.indexOf(t) < 0)) {
+                                continue;
+                            }
+                            const data = mapData[t];
+                            for (let o = 0; o < indexes.length; o++) {
+                                const idm = indexes[o] * dataStride;
+                                let ox = data[idm];
+                                let oz = data[idm + 2];
+                                ox = ox + Math.round((x - ox) / mapSizeX) * mapSizeX;
+                                oz = oz + Math.round((z - oz) / mapSizeZ) * mapSizeZ;
+                                callback(isInstance, t, indexes[o], ox, oz);
+                            }
+                        }
+                    }
+                }
+            }
+        }
+
+        // private : returns a new IDynamicTerrainMapObject
+        private _createMapObject(isInstance: boolean, type: number, index: number, x: number, z: number, distance: number): IDynamicTerrainMapObject {
+            const data = (isInstance) ? this._instanceMapData[type] : this._SPmapData[type];
+            const idm = index * this._particleDataStride;
+            return {
+                isInstance: isInstance,
+                type: type,
+                index: index,
+                position: new Vector3(x, data[idm + 1], z),
+                rotation: new Vector3(data[idm + 3], data[idm + 4], data[idm + 5]),
+                scaling: new Vector3(data[idm + 6], data[idm + 7], data[idm + 8]),
+                distance: distance
+            };
+        }
+
+        // private : returns the local bounding sphere of the objects of a type
+        private _getTypeBoundingSphere(isInstance: boolean, type: number): {center: Vector3, radius: number} {
+            if (isInstance) {
+                if (this._sourceMeshes && this._sourceMeshes[type]) {
+                    return this._sourceMeshes[type].getBoundingInfo().boundingSphere;
+                }
+            }
+            else if (this._sps && this._spsTypeStartIndexes) {
+                const particle = this._sps.particles[this._spsTypeStartIndexes[type]];
+                if (particle && particle._modelBoundingInfo) {
+                    return particle._modelBoundingInfo.boundingSphere;
+                }
+            }
+            return DynamicTerrain._unitSphere;
+        }
+
+        // private : returns the max distance between the position and the bounding sphere surface of the objects of a type
+        private _getObjectPickRadius(isInstance: boolean, type: number): number {
+            const system = (isInstance) ? this._typeInstance : this._typeSPS;
+            if (!this._objectPickRadii) {
+                this._objectPickRadii = [[], []];
+            }
+            const radii = this._objectPickRadii[system];
+            if (radii[type] === undefined) {
+                const data = (isInstance) ? this._instanceMapData[type] : this._SPmapData[type];
+                const sphere = this._getTypeBoundingSphere(isInstance, type);
+                const dataStride = this._particleDataStride;
+                let maxScale = 0.0;
+                for (let idm = 0; data && idm < data.length; idm += dataStride) {
+                    maxScale = Math.max(maxScale, Math.abs(data[idm + 6]), Math.abs(data[idm + 7]), Math.abs(data[idm + 8]));
+                }
+                radii[type] = (sphere.center.length() + sphere.radius) * maxScale;
+            }
+            return radii[type];
+        }
+
+        // private : returns the index of the map quad holding the World coordinates (x, z)
+        private _getObjectQuadIndex(x: number, z: number): number {
+            const x0 = this._mapData[0];
+            const z0 = this._mapData[2];
+            const mapSizeX = this._mapSizeX;
+            const mapSizeZ = this._mapSizeZ;
+            x = x - Math.floor((x - x0) / mapSizeX) * mapSizeX;
+            z = z - Math.floor((z - z0) / mapSizeZ) * mapSizeZ;
+            const col = Math.floor((x - x0) * this._mapSubX / mapSizeX);
+            const row = Math.floor((z - z0) * this._mapSubZ / mapSizeZ);
+            return row * this._mapSubX + col;
+        }
+
+        // private : adds the object to the quad holding its position
+        private _addObjectToQuad(isInstance: boolean, type: number, index: number): void {
+            const system = (isInstance) ? this._typeInstance : this._typeSPS;
+            const data = (isInstance) ? this._instanceMapData[type] : this._SPmapData[type];
+            const idm = index * this._particleDataStride;
+            const quads = this._mapQuads;
+            const quadIdx = this._getObjectQuadIndex(data[idm], data[idm + 2]);
+            if (quads[quadIdx] === undefined) {
+                quads[quadIdx] = [];
+            }
+            if (quads[quadIdx][system] === undefined) {
+                quads[quadIdx][system] = [];
+            }
+            if (quads[quadIdx][system][type] === undefined) {
+                quads[quadIdx][system][type] = [];
+            }
+            quads[quadIdx][system][type].push(index);
+        }
+
+        // private : removes the object from its quad, returns false if the object isn't in the map
+        private _removeObjectFromQuad(isInstance: boolean, type: number, index: number): boolean {
+            const system = (isInstance) ? this._typeInstance : this._typeSPS;
+            const mapData = (isInstance) ? this._instanceMapData : this._SPmapData;
+            const dataStride = this._particleDataStride;
+            if (!mapData || !mapData[type] || index < 0 || index >= mapData[type].length / dataStride) {
+                return false;
+            }
+            const data = mapData[type];
+            const idm = index * dataStride;
+            const quad = this._mapQuads[this._getObjectQuadIndex(data[idm], data[idm + 2])];
+            const indexes = (quad && quad[system]) ? quad[system][type] : undefined;
+            const position = (indexes) ? indexes.indexOf(index) : -1;
+            if (position < 0) {
+                return false;
+            }
+            indexes.splice(position, 1);
+            return true;
+        }
+
+        // private : returns the array with the values appended, a new one if the array is a Float32Array
+        private static _AppendToArray(array: number[] | Float32Array, values: number[]): number[] | Float32Array {
+            if (array instanceof Float32Array) {
+                const appended = new Float32Array(array.length + values.length);
+                appended.set(array);
+                appended.set(values, array.length);
+                return appended;
+            }
+            for (let v = 0; v < values.length; v++) {
+                (<number[]>array).push(values[v]);
+            }
+            return array;
+        }
+
+        // private : returns a new array of the `length` values from `start`
+        private static _SliceArray(array: number[] | Float32Array, start: number, length: number): number[] {
+            const values = [];
+            for (let v = 0; v < length; v++) {
+                values.push(array[start + v]);
+            }
+            return values;
+        }
+
+        // Casts a ray (radius = 0) along the map by DDA traversal of the map cells, spheres are swept by _sweepMap().
+        // In each cell, the signed distance to the cell triangle planes is linear along the cast, so the contact is solved exactly per triangle.
+        private _castMap(origin: Vector3, direction: Vector3, maxDistance: number, radius: number, result: IDynamicTerrainRaycastHit): IDynamicTerrainRaycastHit {
+            if (!result) {
+                result = {hit: false, distance: 0.0, point: Vector3.Zero(), normal: Vector3.Up()};
+            }
+            result.hit = false;
+            result.distance = 0.0;
+            const length = direction.length();
+            const mapData = this._mapData;
+            if (length == 0.0 || !mapData) {
+                return result;
+            }
+            const mapSubX = this._mapSubX;
+            const mapSubZ = this._mapSubZ;
+            // same cells as the terrain mesh and getHeightFromMap() : the map repeats every mapSub cells
+            const cellX = this._averageSubSizeX;
+            const cellZ = this._averageSubSizeZ;
+            if (maxDistance === undefined || !isFinite(maxDistance)) {
+                maxDistance = Math.sqrt(this._mapSizeX * this._mapSizeX + this._mapSizeZ * this._mapSizeZ);
+            }
+            if (radius > 0.0) {
+                return this._sweepMap(origin, direction, maxDistance, radius, result);
+            }
+            const dx = direction.x / length;
+            const dy = direction.y / length;
+            const dz = direction.z / length;
+            const oy = origin.y;
+            // ray origin in map cell units
+            const fx = (origin.x - mapData[0]) / cellX;
+            const fz = (origin.z - mapData[2]) / cellZ;
+            const du = dx / cellX;
+            const dv = dz / cellZ;
+            let col = Math.floor(fx);
+            let row = Math.floor(fz);
+            const stepCol = (dx > 0.0) ? 1 : -1;
+            const stepRow = (dz > 0.0) ? 1 : -1;
+            const deltaX = (dx != 0.0) ? Math.abs(cellX / dx) : Infinity;
+            const deltaZ = (dz != 0.0) ? Math.abs(cellZ / dz) : Infinity;
+            let nextX = (dx > 0.0) ? (col + 1 - fx) * deltaX : (dx < 0.0) ? (fx - col) * deltaX : Infinity;
+            let nextZ = (dz > 0.0) ? (row + 1 - fz) * deltaZ : (dz < 0.0) ? (fz - row) * deltaZ : Infinity;
+            let side = 0.0;
+            let t0 = 0.0;
+            while (t0 < maxDistance) {
+                const t1 = Math.min(nextX, nextZ, maxDistance);
+                const col1 = this._mod(col, mapSubX);
+                const col2 = this._mod(col + 1, mapSubX);
+                const row1 = this._mod(row, mapSubZ);
+                const row2 = this._mod(row + 1, mapSubZ);
+                const h1 = mapData[3 * (row1 * mapSubX + col1) + 1];
+                const h2 = mapData[3 * (row1 * mapSubX + col2) + 1];
+                const h3 = mapData[3 * (row2 * mapSubX + col1) + 1];
+                const h4 = mapData[3 * (row2 * mapSubX + col2) + 1];
+                const u0 = fx - col;
+                const v0 = fz - row;
+                // the cast may cross the cell diagonal (u = v) that splits the two triangles
+                let tSplit = t1;
+                if (du != dv) {
+                    const td = (v0 - u0) / (du - dv);
+                    if (td > t0 && td < t1) {
+                        tSplit = td;
+                    }
+                }
+                let ta = t0;
+                let tb = tSplit;
+                while (ta < t1) {
+                    const tm = (ta + tb) * 0.5;
+                    // triangle (v1, v4, v2) under the diagonal, else (v1, v3, v4)
+                    const lower = (v0 + dv * tm < u0 + du * tm);
+                    const gu = (lower) ? h2 - h1 : h4 - h3;
+                    const gv = (lower) ? h4 - h2 : h3 - h1;
+                    const nx = -gu / cellX;
+                    const nz = -gv / cellZ;
+                    const ny = 1.0 / Math.sqrt(nx * nx + 1.0 + nz * nz);
+                    const da = oy + dy * ta - (h1 + (u0 + du * ta) * gu + (v0 + dv * ta) * gv);
+                    const db = oy + dy * tb - (h1 + (u0 + du * tb) * gu + (v0 + dv * tb) * gv);
+                    if (side == 0.0) {
+                        side = (da >= 0.0) ? 1.0 : -1.0;
+                    }
+                    const fa = side * da * ny;
+                    const fb = side * db * ny;
+                    if (fa <= 0.0 || fb <= 0.0) {
+                        const t = (fa <= 0.0) ? ta : ta + (tb - ta) * fa / (fa - fb);
+                        result.hit = true;
+                        result.distance = t;
+                        result.normal.copyFromFloats(nx * ny * side, ny * side, nz * ny * side);
+                        result.point.copyFromFloats(origin.x + dx * t, oy + dy * t, origin.z + dz * t);
+                        return result;
+                    }
+                    ta = tb;
+                    tb = t1;
+                }
+                if (nextX < nextZ) {
+                    col += stepCol;
+                    nextX += deltaX;
+                }
+                else {
+                    row += stepRow;
+                    nextZ += deltaZ;
+                }
+                t0 = t1;
+            }
+            return result;
+        }
+
+        // Sweeps a sphere along the map : the cells of the cast path are visited by DDA and every map triangle closer than the radius
+        // to the path is tested. The distance from the moving center to a triangle is convex along the sweep, so its minimum is found
+        // by ternary search and the first contact by bisection before it.
+        private _sweepMap(origin: Vector3, direction: Vector3, maxDistance: number, radius: number, result: IDynamicTerrainRaycastHit): IDynamicTerrainRaycastHit {
+            const mapData = this._mapData;
+            const mapSubX = this._mapSubX;
+            const mapSubZ = this._mapSubZ;
+            const cellX = this._averageSubSizeX;
+            const cellZ = this._averageSubSizeZ;
+            const x0 = mapData[0];
+            const z0 = mapData[2];
+            const length = direction.length();
+            const dx = direction.x / length;
+            const dy = direction.y / length;
+            const dz = direction.z / length;
+            const fx = (origin.x - x0) / cellX;
+            const fz = (origin.z - z0) / cellZ;
+            const rangeX = Math.ceil(radius / cellX);
+            const rangeZ = Math.ceil(radius / cellZ);
+            let col = Math.floor(fx);
+            let row = Math.floor(fz);
+            const stepCol = (dx > 0.0) ? 1 : -1;
+            const stepRow = (dz > 0.0) ? 1 : -1;
+            const deltaX = (dx != 0.0) ? Math.abs(cellX / dx) : Infinity;
+            const deltaZ = (dz != 0.0) ? Math.abs(cellZ / dz) : Infinity;
+            let nextX = (dx > 0.0) ? (col + 1 - fx) * deltaX : (dx < 0.0) ? (fx - col) * deltaX : Infinity;
+            let nextZ = (dz > 0.0) ? (row + 1 - fz) * deltaZ : (dz < 0.0) ? (fz - row) * deltaZ : Infinity;
+            const tested: {[cell: string]: boolean} = {};
+            const a = DynamicTerrain._v2;
+            const b = DynamicTerrain._v3;
+            const c = DynamicTerrain._v4;
+            const center = DynamicTerrain._pos;
+            const closest = DynamicTerrain._scl;
+            const sweep = this;
+            // distance from the sphere center at t to the triangle (a, b, c)
+            const distanceAt = function(t: number): number {
+                center.copyFromFloats(origin.x + dx * t, origin.y + dy * t, origin.z + dz * t);
+                sweep._closestOnTriangle(center, a, b, c, closest);
+                return Vector3.Distance(center, closest);
+            };
+            let best = maxDistance;
+            let t0 = 0.0;
+            // a triangle touched at t is within the radius of the path cell holding the center at t, so the search ends with the first hit
+            while (t0 <= best) {
+                for (let j = row - rangeZ; j <= row + rangeZ; j++) {
+                    for (let i = col - rangeX; i <= col + rangeX; i++) {
+                        const key = i + "_" + j;
+                        if (tested[key]) {
+                            continue;
+                        }
+                        tested[key] = true;
+                        const col1 = this._mod(i, mapSubX);
+                        const col2 = this._mod(i + 1, mapSubX);
+                        const row1 = this._mod(j, mapSubZ);
+                        const row2 = this._mod(j + 1, mapSubZ);
+                        const h1 = mapData[3 * (row1 * mapSubX + col1) + 1];
+                        const h2 = mapData[3 * (row1 * mapSubX + col2) + 1];
+                        const h3 = mapData[3 * (row2 * mapSubX + col1) + 1];
+                        const h4 = mapData[3 * (row2 * mapSubX + col2) + 1];
+                        const xa = x0 + i * cellX;
+                        const za = z0 + j * cellZ;
+                        for (let k = 0; k < 2; k++) {
+                            // triangles (v1, v4, v2) and (v1, v3, v4) like the terrain mesh
+                            a.copyFromFloats(xa, h1, za);
+                            if (k == 0) {
+                                b.copyFromFloats(xa + cellX, h4, za + cellZ);
+                                c.copyFromFloats(xa + cellX, h2, za);
+                            }
+                            else {
+                                b.copyFromFloats(xa, h3, za + cellZ);
+                                c.copyFromFloats(xa + cellX, h4, za + cellZ);
+                            }
+                            let lo = 0.0;
+                            let hi = best;
+                            for (let n = 0; n < 40; n++) {
+                                const m1 = lo + (hi - lo) / 3.0;
+                                const m2 = hi - (hi - lo) / 3.0;
+                                if (distanceAt(m1) < distanceAt(m2)) {
+                                    hi = m2;
+                                }
+                                else {
+                                    lo = m1;
+                                }
+                            }
+                            let tMin = (lo + hi) * 0.5;
+                            if (distanceAt(0.0) <= radius) {
+                                tMin = 0.0;
+                            }
+                            else if (distanceAt(tMin) > radius) {
+                                continue;
+                            }
+                            else {
+                                let start = 0.0;
+                                for (let n = 0; n < 40; n++) {
+                                    const tm = (start + tMin) * 0.5;
+                                    if (distanceAt(tm) > radius) {
+                                        start = tm;
+                                    }
+                                    else {
+                                        tMin = tm;
+                                    }
+                                }
+                            }
+                            if (!result.hit || tMin < result.distance) {
+                                distanceAt(tMin);
+                                result.hit = true;
+                                result.distance = tMin;
+                                result.point.copyFrom(closest);
+                                center.subtractToRef(closest, result.normal);
+                                if (result.normal.lengthSquared() > 0.0) {
+                                    result.normal.normalize();
+                                }
+                                else {
+                                    result.normal.copyFromFloats(0.0, 1.0, 0.0);
+                                }
+                                best = tMin;
+                            }
+                        }
+                    }
+                }
+                if (nextX == Infinity && nextZ == Infinity) {
+                    break;
+                }
+                if (nextX < nextZ) {
+                    t0 = nextX;
+                    col += stepCol;
+                    nextX += deltaX;
+                }
+                else {
+                    t0 = nextZ;
+                    row += stepRow;
+                    nextZ += deltaZ;
+                }
+            }
+            return result;
+        }
+
+        // Returns the altitude of the map triangles at (x, z), on the terrain mesh cells like _castMap()
+        private _cellHeight(x: number, z: number): number {
+            const mapData = this._mapData;
+            const mapSubX = this._mapSubX;
+            const mapSubZ = this._mapSubZ;
+            const fx = (x - mapData[0]) / this._averageSubSizeX;
+            const fz = (z - mapData[2]) / this._averageSubSizeZ;
+            const col = Math.floor(fx);
+            const row = Math.floor(fz);
+            const u = fx - col;
+            const v = fz - row;
+            const col1 = this._mod(col, mapSubX);
+            const col2 = this._mod(col + 1, mapSubX);
+            const row1 = this._mod(row, mapSubZ);
+            const row2 = this._mod(row + 1, mapSubZ);
+            const h1 = mapData[3 * (row1 * mapSubX + col1) + 1];
+            const h2 = mapData[3 * (row1 * mapSubX + col2) + 1];
+            const h3 = mapData[3 * (row2 * mapSubX + col1) + 1];
+            const h4 = mapData[3 * (row2 * mapSubX + col2) + 1];
+            return (v < u) ? h1 + u * (h2 - h1) + v * (h4 - h2) : h1 + v * (h3 - h1) + u * (h4 - h3);
+        }
+
+        // Sets `result` with the point of the triangle (a, b, c) closest to p
+        private _closestOnTriangle(p: Vector3, a: Vector3, b: Vector3, c: Vector3, result: Vector3): void {
+            const abx = b.x - a.x, aby = b.y - a.y, abz = b.z - a.z;
+            const acx = c.x - a.x, acy = c.y - a.y, acz = c.z - a.z;
+            const apx = p.x - a.x, apy = p.y - a.y, apz = p.z - a.z;
+            const d1 = abx * apx + aby * apy + abz * apz;
+            const d2 = acx * apx + acy * apy + acz * apz;
+            if (d1 <= 0.0 && d2 <= 0.0) {
+                result.copyFrom(a);
+                return;
+            }
+            const bpx = p.x - b.x, bpy = p.y - b.y, bpz = p.z - b.z;
+            const d3 = abx * bpx + aby * bpy + abz * bpz;
+            const d4 = acx * bpx + acy * bpy + acz * bpz;
+            if (d3 >= 0.0 && d4 <= d3) {
+                result.copyFrom(b);
+                return;
+            }
+            const vc = d1 * d4 - d3 * d2;
+            if (vc <= 0.0 && d1 >= 0.0 && d3 <= 0.0) {
+                const v = d1 / (d1 - d3);
+                result.copyFromFloats(a.x + abx * v, a.y + aby * v, a.z + abz * v);
+                return;
+            }
+            const cpx = p.x - c.x, cpy = p.y - c.y, cpz = p.z - c.z;
+            const d5 = abx * cpx + aby * cpy + abz * cpz;
+            const d6 = acx * cpx + acy * cpy + acz * cpz;
+            if (d6 >= 0.0 && d5 <= d6) {
+                result.copyFrom(c);
+                return;
+            }
+            const vb = d5 * d2 - d1 * d6;
+            if (vb <= 0.0 && d2 >= 0.0 && d6 <= 0.0) {
+                const w = d2 / (d2 - d6);
+                result.copyFromFloats(a.x + acx * w, a.y + acy * w, a.z + acz * w);
+                return;
+            }
+            const va = d3 * d6 - d5 * d4;
+            if (va <= 0.0 && (d4 - d3) >= 0.0 && (d5 - d6) >= 0.0) {
+                const w = (d4 - d3) / ((d4 - d3) + (d5 - d6));
+                result.copyFromFloats(b.x + (c.x - b.x) * w, b.y + (c.y - b.y) * w, b.z + (c.z - b.z) * w);
+                return;
+            }
+            const denom = 1.0 / (va + vb + vc);
+            const v = vb * denom;
+            const w = vc * denom;
+            result.copyFromFloats(a.x + abx * v + acx * w, a.y + aby * v + acy * w, a.z + abz * v + acz * w);
+        }
+
+        /**
+         * Raises the map altitudes around the World coordinates (x, z).
+         * `radius` : the brush radius in the World (default 1).
+         * `strength` : the altitude added at the brush center (default 1).
+         * `falloff` : DynamicTerrain.FALLOFF_CONSTANT, FALLOFF_LINEAR, FALLOFF_SMOOTH (default), FALLOFF_SPHERE or a custom function returning the brush weight from the distance to the brush center, between 0 (center) and 1 (radius).
+         * Returns the terrain.
+         */
+        public raise(x: number, z: number, options?: {radius?: number, strength?: number, falloff?: number | ((distance: number) => number)}): DynamicTerrain {
+            return this._applyBrush(DynamicTerrain._BRUSH_RAISE, x, z, options || {});
+        }
+        /**
+         * Lowers the map altitudes around the World coordinates (x, z).
+         * `radius` : the brush radius in the World (default 1).
+         * `strength` : the altitude removed at the brush center (default 1).
+         * `falloff` : the brush falloff, see raise().
+         * Returns the terrain.
+         */
+        public lower(x: number, z: number, options?: {radius?: number, strength?: number, falloff?: number | ((distance: number) => number)}): DynamicTerrain {
+            return this._applyBrush(DynamicTerrain._BRUSH_LOWER, x, z, options || {});
+        }
+        /**
+         * Smoothes the map altitudes around the World coordinates (x, z) by blending each altitude with the average of its neighbours.
+         * `radius` : the brush radius in the World (default 1).
+         * `strength` : the blending factor at the brush center, between 0 and 1 (default 1).
+         * `falloff` : the brush falloff, see raise().
+         * Returns the terrain.
+         */
+        public smooth(x: number, z: number, options?: {radius?: number, strength?: number, falloff?: number | ((distance: number) => number)}): DynamicTerrain {
+            return this._applyBrush(DynamicTerrain._BRUSH_SMOOTH, x, z, options || {});
+        }
+        /**
+         * Flattens the map altitudes around the World coordinates (x, z) towards the altitude `height`.
+         * `height` : the target altitude (default, the map altitude at (x, z)).
+         * `radius` : the brush radius in the World (default 1).
+         * `strength` : the blending factor at the brush center, between 0 and 1 (default 1).
+         * `falloff` : the brush falloff, see raise().
+         * Returns the terrain.
+         */
+        public flatten(x: number, z: number, options?: {height?: number, radius?: number, strength?: number, falloff?: number | ((distance: number) => number)}): DynamicTerrain {
+            return this._applyBrush(DynamicTerrain._BRUSH_FLATTEN, x, z, options || {});
+        }
+        /**
+         * Paints the map colors around the World coordinates (x, z).
+         * If the terrain has no color map yet, a white one is created.
+         * `color` : the Color3 to paint (default white).
+         * `radius` : the brush radius in the World (default 1).
+         * `strength` : the blending factor at the brush center, between 0 and 1 (default 1).
+         * `falloff` : the brush falloff, see raise().
+         * Returns the terrain.
+         */
+        public paint(x: number, z: number, options?: {color?: Color3, radius?: number, strength?: number, falloff?: number | ((distance: number) => number)}): DynamicTerrain {
+            return this._applyBrush(DynamicTerrain._BRUSH_PAINT, x, z, options || {});
+        }
+        /**
+         * Starts a sculpting stroke : all the brush calls until endStroke() are undone or redone at once.
+         * Out of a stroke, each brush call is a stroke by itself.
+         * Returns the terrain.
+         */
+        public beginStroke(): DynamicTerrain {
+            if (!this._stroke) {
+                this._stroke = {indexes: [], heights: [], colors: [], rects: [], recorded: {}};
+            }
+            return this;
+        }
+        /**
+         * Ends the current sculpting stroke and stores it in the undo stack.
+         * Returns the terrain.
+         */
+        public endStroke(): DynamicTerrain {
+            const stroke = this._stroke;
+            this._stroke = null;
+            if (stroke && stroke.indexes.length > 0) {
+                const undoStrokes = this._undoStrokes;
+                undoStrokes.push({indexes: stroke.indexes, heights: stroke.heights, colors: stroke.colors, rects: stroke.rects});
+                while (undoStrokes.length > this._maxUndoStrokes) {
+                    undoStrokes.shift();
+                }
+                this._redoStrokes.length = 0;
+            }
+            return this;
+        }
+        /**
+         * Undoes the last sculpting stroke.
+         * Returns true if a stroke was undone.
          */
-        public contains(x: number, z: number): boolean {
-            const positions = this._positions;
-            const meshPosition = this.mesh.position;
-            const terrainIdx = this._terrainIdx;
-            if (x < positions[0] + meshPosition.x || x > positions[3 * terrainIdx] + meshPosition.x) {
+        public undo(): boolean {
+            this.endStroke();
+            const stroke = this._undoStrokes.pop();
+            if (!stroke) {
                 return false;
             }
-            if (z < positions[2] + meshPosition.z || z > positions[3 * terrainIdx * terrainIdx + 2] + meshPosition.z) {
+            this._swapStrokeValues(stroke);
+            this._redoStrokes.push(stroke);
+            return true;
+        }
+        /**
+         * Redoes the last undone sculpting stroke.
+         * Returns true if a stroke was redone.
+         */
+        public redo(): boolean {
+            this.endStroke();
+            const stroke = this._redoStrokes.pop();
+            if (!stroke) {
                 return false;
             }
+            this._swapStrokeValues(stroke);
+            this._undoStrokes.push(stroke);
             return true;
         }
 
+        /**
+         * Serializes the terrain configuration and its map data into an ArrayBuffer : a JSON header followed by the binary arrays.
+         * The SPS, the instance source meshes, the camera and the tile provider aren't serialized, they are passed back to Parse().
+         * `quantize` : if true, the map data are stored as 16-bit integers (default false).
+         * @param options (optional) {quantize: boolean}
+         */
+        public serialize(options?: {quantize?: boolean}): ArrayBuffer {
+            const quantize = (options && options.quantize) ? true : false;
+            const buffers: ArrayBufferView[] = [];
+            const header: ISerializedTerrainHeader = {
+                version: DynamicTerrain._SerializationVersion,
+                name: this.name,
+                terrainSub: this._terrainSub,
+                mapSubX: this._mapSubX,
+                mapSubZ: this._mapSubZ,
+                invertSide: this._inverted ? true : false,
+                shiftFromCamera: {x: this.shiftFromCamera.x, z: this.shiftFromCamera.z},
+                subToleranceX: this._subToleranceX,
+                subToleranceZ: this._subToleranceZ,
+                initialLOD: this._initialLOD,
+                LODLimits: this._LODLimits.slice(0),
+                cameraLODCorrection: this._cameraLODCorrection,
+                LODPositiveX: this._LODPositiveX,
+                LODNegativeX: this._LODNegativeX,
+                LODPositiveZ: this._LODPositiveZ,
+                LODNegativeZ: this._LODNegativeZ,
+                geomorph: this._geomorph,
+                geomorphBand: this._geomorphBand,
+                refreshEveryFrame: this._refreshEveryFrame,
+                computeNormals: this._computeNormals,
+                useCustomVertexFunction: this._useCustomVertexFunction,
+                isAlwaysVisible: this._isAlwaysVisible,
+                precomputeNormalsFromMap: this._precomputeNormalsFromMap,
+                precomputeInstances: this._precomputeInstances,
+                SPviewRanges: this._SPviewRanges,
+                instanceViewRanges: this._instanceViewRanges,
+                objectBudget: this._objectBudget,
+                removedObjects: this._removedObjects
+            };
+            if (this._tileProvider) {
+                header.mapTilesX = this._mapTilesX;
+                header.mapTilesZ = this._mapTilesZ;
+                header.maxCachedTiles = this._maxCachedTiles;
+                header.placeholderHeight = this._placeholderHeight;
+            }
+            if (this._datamap) {
+                header.mapData = DynamicTerrain._SerializeArray(this._mapData, quantize, buffers);
+            }
+            if (this._colormap) {
+                header.mapColors = DynamicTerrain._SerializeArray(this._mapColors, false, buffers);
+            }
+            if (this._uvmap) {
+                header.mapUVs = DynamicTerrain._SerializeArray(this._mapUVs, false, buffers);
+            }
+            if (this._splatmap) {
+                header.splatLayers = this._splatLayers;
+                header.mapSplats = DynamicTerrain._SerializeArray(this._mapSplats, false, buffers);
+            }
+            const serializeTypeArrays = (typeArrays: number[][] | Float32Array[]): ISerializedArray[] => {
+                if (!typeArrays) {
+                    return undefined;
+                }
+                const descriptors: ISerializedArray[] = [];
+                for (let t = 0; t < typeArrays.length; t++) {
+                    descriptors.push(DynamicTerrain._SerializeArray(typeArrays[t] || [], false, buffers));
+                }
+                return descriptors;
+            };
+            header.SPmapData = serializeTypeArrays(this._SPmapData);
+            header.SPcolorData = serializeTypeArrays(this._SPcolorData);
+            header.SPuvData = serializeTypeArrays(this._SPuvData);
+            header.instanceMapData = serializeTypeArrays(this._instanceMapData);
+            header.instanceColorData = serializeTypeArrays(this._instanceColorData);
+
+            // layout : header byte length (uint32), JSON header padded to 4 bytes, then the arrays, each 4 byte aligned
+            const headerBytes = DynamicTerrain._EncodeUTF8(JSON.stringify(header));
+            const headerLength = (headerBytes.length + 3) & ~3;
+            let byteLength = 4 + headerLength;
+            for (let b = 0; b < buffers.length; b++) {
+                byteLength += (buffers[b].byteLength + 3) & ~3;
+            }
+            const data = new ArrayBuffer(byteLength);
+            const bytes = new Uint8Array(data);
+            new DataView(data).setUint32(0, headerBytes.length, true);
+            bytes.set(headerBytes, 4);
+            let offset = 4 + headerLength;
+            for (let b = 0; b < buffers.length; b++) {
+                const buffer = buffers[b];
+                bytes.set(new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength), offset);
+                offset += (buffer.byteLength + 3) & ~3;
+            }
+            return data;
+        }
+
+        /**
+         * Static : Returns a new DynamicTerrain built from the data returned by serialize().
+         * @param data the ArrayBuffer returned by serialize()
+         * @param scene 
+         * @param options (optional) the objects that aren't serialized : {camera, sps, sourceMeshes, tileProvider}
+         */
+        public static Parse(data: ArrayBuffer, scene: Scene, options?: {camera?: Camera, sps?: SolidParticleSystem, sourceMeshes?: Mesh[], tileProvider?: IDynamicTerrainTileProvider}): DynamicTerrain {
+            options = options || {};
+            const view = new DataView(data);
+            const headerByteLength = view.getUint32(0, true);
+            const header: ISerializedTerrainHeader = JSON.parse(DynamicTerrain._DecodeUTF8(new Uint8Array(data, 4, headerByteLength)));
+            if (header.version > DynamicTerrain._SerializationVersion) {
+                Tools.Warn("DynamicTerrain.Parse : unknown serialization version " + header.version);
+            }
+            const binaryOffset = 4 + ((headerByteLength + 3) & ~3);
+            const parseTypeArrays = (descriptors: ISerializedArray[]): Float32Array[] => {
+                if (!descriptors) {
+                    return undefined;
+                }
+                const typeArrays: Float32Array[] = [];
+                for (let t = 0; t < descriptors.length; t++) {
+                    typeArrays.push(DynamicTerrain._ParseArray(data, binaryOffset, descriptors[t]));
+                }
+                return typeArrays;
+            };
+            const terrain = new DynamicTerrain(header.name, {
+                terrainSub: header.terrainSub,
+                mapData: (header.mapData) ? DynamicTerrain._ParseArray(data, binaryOffset, header.mapData) : undefined,
+                mapSubX: header.mapSubX,
+                mapSubZ: header.mapSubZ,
+                mapColors: (header.mapColors) ? DynamicTerrain._ParseArray(data, binaryOffset, header.mapColors) : undefined,
+                mapUVs: (header.mapUVs) ? DynamicTerrain._ParseArray(data, binaryOffset, header.mapUVs) : undefined,
+                mapSplats: (header.mapSplats) ? DynamicTerrain._ParseArray(data, binaryOffset, header.mapSplats) : undefined,
+                splatLayers: header.splatLayers,
+                invertSide: header.invertSide,
+                camera: options.camera,
+                SPmapData: parseTypeArrays(header.SPmapData),
+                SPcolorData: parseTypeArrays(header.SPcolorData),
+                SPuvData: parseTypeArrays(header.SPuvData),
+                sps: options.sps,
+                instanceMapData: parseTypeArrays(header.instanceMapData),
+                instanceColorData: parseTypeArrays(header.instanceColorData),
+                sourceMeshes: options.sourceMeshes,
+                precomputeInstances: header.precomputeInstances,
+                tileProvider: options.tileProvider,
+                mapTilesX: header.mapTilesX,
+                mapTilesZ: header.mapTilesZ,
+                maxCachedTiles: header.maxCachedTiles,
+                placeholderHeight: header.placeholderHeight
+            }, scene);
+            terrain.shiftFromCamera.x = header.shiftFromCamera.x;
+            terrain.shiftFromCamera.z = header.shiftFromCamera.z;
+            terrain.subToleranceX = header.subToleranceX;
+            terrain.subToleranceZ = header.subToleranceZ;
+            terrain.initialLOD = header.initialLOD;
+            terrain.LODLimits = header.LODLimits;
+            terrain.cameraLODCorrection = header.cameraLODCorrection;
+            terrain.LODPositiveX = header.LODPositiveX;
+            terrain.LODNegativeX = header.LODNegativeX;
+            terrain.LODPositiveZ = header.LODPositiveZ;
+            terrain.LODNegativeZ = header.LODNegativeZ;
+            terrain.geomorph = header.geomorph;
+            terrain.geomorphBand = header.geomorphBand;
+            terrain.refreshEveryFrame = header.refreshEveryFrame;
+            terrain.computeNormals = header.computeNormals;
+            terrain.useCustomVertexFunction = header.useCustomVertexFunction;
+            terrain.isAlwaysVisible = header.isAlwaysVisible;
+            terrain.precomputeNormalsFromMap = header.precomputeNormalsFromMap;
+            const viewRanges = [header.SPviewRanges || [], header.instanceViewRanges || []];
+            for (let v = 0; v < viewRanges.length; v++) {
+                for (let t = 0; t < viewRanges[v].length; t++) {
+                    const range = viewRanges[v][t];
+                    if (range) {
+                        if (v == 0) {
+                            terrain.setSPViewRange(t, range.distance, range.impostorType, range.impostorDistance);
+                        }
+                        else {
+                            terrain.setInstanceViewRange(t, range.distance, range.impostorType, range.impostorDistance);
+                        }
+                    }
+                }
+            }
+            terrain.objectBudget = header.objectBudget || 0;
+            const removedObjects = header.removedObjects || [];
+            for (let system = 0; system < removedObjects.length; system++) {
+                const removed = removedObjects[system] || [];
+                for (let t = 0; t < removed.length; t++) {
+                    for (let r = 0; removed[t] && r < removed[t].length; r++) {
+                        terrain.removeMapObject(system == terrain._typeInstance, t, removed[t][r]);
+                    }
+                }
+            }
+            terrain.update(true);
+            return terrain;
+        }
+
+        // Encodes a string in UTF-8 bytes
+        private static _EncodeUTF8(text: string): Uint8Array {
+            return new TextEncoder().encode(text);
+        }
+
+        // Decodes UTF-8 bytes to a string
+        private static _DecodeUTF8(bytes: Uint8Array): string {
+            return new TextDecoder().decode(bytes);
+        }
+
+        // Stores the array in a new binary buffer and returns its header descriptor.
+        // Quantized arrays store each coordinate (x, y, z) as an uint16 over its own [min, max] range.
+        private static _SerializeArray(array: number[] | Float32Array, quantize: boolean, buffers: ArrayBufferView[]): ISerializedArray {
+            let offset = 0;
+            for (let b = 0; b < buffers.length; b++) {
+                offset += (buffers[b].byteLength + 3) & ~3;
+            }
+            // byte offset from the start of the binary arrays
+            const descriptor: ISerializedArray = {offset: offset, length: array.length};
+            if (!quantize) {
+                buffers.push((array instanceof Float32Array) ? array : new Float32Array(array));
+                return descriptor;
+            }
+            const min = [Number.MAX_VALUE, Number.MAX_VALUE, Number.MAX_VALUE];
+            const max = [-Number.MAX_VALUE, -Number.MAX_VALUE, -Number.MAX_VALUE];
+            for (let i = 0; i < array.length; i++) {
+                const c = i % 3;
+                min[c] = (array[i] < min[c]) ? array[i] : min[c];
+                max[c] = (array[i] > max[c]) ? array[i] : max[c];
+            }
+            const quantized = new Uint16Array(array.length);
+            for (let i = 0; i < array.length; i++) {
+                const c = i % 3;
+                const range = max[c] - min[c];
+                quantized[i] = (range > 0.0) ? Math.round((array[i] - min[c]) / range * 65535) : 0;
+            }
+            descriptor.quantized = true;
+            descriptor.min = min;
+            descriptor.max = max;
+            buffers.push(quantized);
+            return descriptor;
+        }
+
+        // Returns a new Float32Array from the serialized buffer described by the descriptor
+        private static _ParseArray(data: ArrayBuffer, binaryOffset: number, descriptor: ISerializedArray): Float32Array {
+            const offset = binaryOffset + descriptor.offset;
+            if (!descriptor.quantized) {
+                return new Float32Array(data.slice(offset, offset + descriptor.length * 4));
+            }
+            const quantized = new Uint16Array(data.slice(offset, offset + descriptor.length * 2));
+            const array = new Float32Array(descriptor.length);
+            const min = descriptor.min;
+            const max = descriptor.max;
+            for (let i = 0; i < array.length; i++) {
+                const c = i % 3;
+                array[i] = min[c] + quantized[i] / 65535 * (max[c] - min[c]);
+            }
+            return array;
+        }
+
         /**
          * Static : Returns a new data map from the passed heightmap image file.  
          The parameters `width` and `height` (positive floats, default 300) set the map width and height sizes.     
@@ -1392,6 +3783,360 @@ module BABYLON {
             Tools.LoadImage(heightmapURL, onload, () => {}, scene.offlineProvider)
         }
         
+        /**
+         * Static : Returns a new data map procedurally generated from a seed.  
+         * The parameters `width` and `height` (positive floats, default 300) set the map width and height sizes.     
+         * `subX` is the wanted number of points along the map width (default 100).  
+         * `subZ` is the wanted number of points along the map height (default 100).  
+         * See CreateProceduralMapToRef() for the other parameters.  
+         */
+        public static CreateProceduralMap(options: {width?: number, height?: number, subX?: number, subZ?: number, offsetX?: number, offsetZ?: number, minHeight?: number, maxHeight?: number, seed?: number, generator?: number, noise?: number, frequency?: number, octaves?: number, lacunarity?: number, gain?: number, ridgeOffset?: number, warp?: number, terraces?: number, terraceSharpness?: number, thermalErosion?: number, talus?: number, hydraulicErosion?: number, colorRules?: {minAltitude?: number, maxAltitude?: number, minSlope?: number, maxSlope?: number, color: Color3}[]}): Float32Array {
+            const subX = options.subX || 100;
+            const subZ = options.subZ || 100;
+            const data = new Float32Array(subX * subZ * 3);
+            DynamicTerrain.CreateProceduralMapToRef(options, data);
+            return data;
+        }
+
+        /**
+         * Static : Updates the passed array or Float32Array with a data map procedurally generated from a seed. The same seed always generates the same map.  
+         * The parameters `width` and `height` (positive floats, default 300) set the map width and height sizes.     
+         * `subX` is the wanted number of points along the map width (default 100).  
+         * `subZ` is the wanted number of points along the map height (default 100).  
+         * The parameter `minHeight` (float, default 0) is the minimum altitude of the map.     
+         * The parameter `maxHeight` (float, default 10) is the maximum altitude of the map.   
+         * `seed` : integer (default 0).  
+         * `generator` : DynamicTerrain.GENERATOR_FBM (default, fractal brownian motion) or DynamicTerrain.GENERATOR_RIDGED (ridged multifractal).  
+         * `noise` : DynamicTerrain.NOISE_PERLIN (default) or DynamicTerrain.NOISE_SIMPLEX.  
+         * `frequency` : the noise frequency of the first octave in the World (default 0.01).  
+         * `octaves` (default 6), `lacunarity` (frequency multiplier per octave, default 2) and `gain` (amplitude multiplier per octave, default 0.5).  
+         * `ridgeOffset` : the ridged multifractal offset (default 1).  
+         * `warp` : the domain warping strength in the World (default 0, no warping).  
+         * `terraces` : the number of terraces (default 0, no terraces) and `terraceSharpness` their sharpness (default 4).  
+         * `thermalErosion` : the number of thermal erosion iterations (default 0) and `talus` the maximum altitude difference between two neighbour points before the material slides (default 0.5).  
+         * `hydraulicErosion` : the number of water droplets eroding the map (default 0).  
+         * The passed Float32Array must be the right size : 3 x subX x subZ.  
+         * If a `colors` array (3 x subX x subZ) is passed, it's updated with the map colors computed from the `colorRules`, see CreateColorMapFromRulesToRef().  
+         */
+        public static CreateProceduralMapToRef(options: {width?: number, height?: number, subX?: number, subZ?: number, offsetX?: number, offsetZ?: number, minHeight?: number, maxHeight?: number, seed?: number, generator?: number, noise?: number, frequency?: number, octaves?: number, lacunarity?: number, gain?: number, ridgeOffset?: number, warp?: number, terraces?: number, terraceSharpness?: number, thermalErosion?: number, talus?: number, hydraulicErosion?: number, colorRules?: {minAltitude?: number, maxAltitude?: number, minSlope?: number, maxSlope?: number, color: Color3}[]}, data: number[] | Float32Array, colors?: number[] | Float32Array): void {
+            const width = options.width || 300;
+            const height = options.height || 300;
+            const subX = options.subX || 100;
+            const subZ = options.subZ || 100;
+            const offsetX = options.offsetX || 0.0;
+            const offsetZ = options.offsetZ || 0.0;
+            const minHeight = options.minHeight || 0.0;
+            const maxHeight = (options.maxHeight === undefined) ? 10.0 : options.maxHeight;
+            const seed = options.seed || 0;
+            const ridged = (options.generator == DynamicTerrain.GENERATOR_RIDGED);
+            const simplex = (options.noise == DynamicTerrain.NOISE_SIMPLEX);
+            const frequency = options.frequency || 0.01;
+            const octaves = options.octaves || 6;
+            const lacunarity = options.lacunarity || 2.0;
+            const gain = options.gain || 0.5;
+            const ridgeOffset = (options.ridgeOffset === undefined) ? 1.0 : options.ridgeOffset;
+            const warp = options.warp || 0.0;
+            const terraces = options.terraces || 0;
+            const terraceSharpness = options.terraceSharpness || 4.0;
+            const noise = new DynamicTerrainNoise(seed);
+            const noise2D = (simplex) ? (x: number, z: number) => noise.simplex(x, z) : (x: number, z: number) => noise.perlin(x, z);
+
+            // fractal sum of the noise octaves, between -1 and 1 for fBm, between 0 and 1 for ridged
+            const fractal = (x: number, z: number): number => {
+                let sum = 0.0;
+                let amplitude = 1.0;
+                let norm = 0.0;
+                let f = frequency;
+                let weight = 1.0;
+                for (let o = 0; o < octaves; o++) {
+                    let n = noise2D(x * f, z * f);
+                    if (ridged) {
+                        n = ridgeOffset - Math.abs(n);
+                        n = n * n * weight;
+                        weight = Math.min(Math.max(n * 2.0, 0.0), 1.0);
+                    }
+                    sum += n * amplitude;
+                    norm += amplitude;
+                    amplitude *= gain;
+                    f *= lacunarity;
+                }
+                return sum / norm;
+            };
+
+            const heights = new Float32Array(subX * subZ);
+            let min = Number.MAX_VALUE;
+            let max = -Number.MAX_VALUE;
+            for (let row = 0; row < subZ; row++) {
+                for (let col = 0; col < subX; col++) {
+                    let x = col * width / subX - width * 0.5 + offsetX;
+                    let z = row * height / subZ - height * 0.5 + offsetZ;
+                    const idx = row * subX + col;
+                    data[3 * idx] = x;
+                    data[3 * idx + 2] = z;
+                    // domain warping : the sampling coordinates are shifted by another noise
+                    if (warp != 0.0) {
+                        const wx = fractal(x + 52.7, z + 13.1);
+                        const wz = fractal(x + 17.3, z + 92.8);
+                        x += warp * wx;
+                        z += warp * wz;
+                    }
+                    const h = fractal(x, z);
+                    heights[idx] = h;
+                    min = (h < min) ? h : min;
+                    max = (h > max) ? h : max;
+                }
+            }
+
+            // normalize between 0 and 1, then terraces and altitudes
+            const range = (max > min) ? max - min : 1.0;
+            for (let idx = 0; idx < heights.length; idx++) {
+                let h = (heights[idx] - min) / range;
+                if (terraces > 0) {
+                    const t = h * terraces;
+                    const step = Math.floor(t);
+                    h = (step + Math.pow(t - step, terraceSharpness)) / terraces;
+                }
+                heights[idx] = minHeight + (maxHeight - minHeight) * h;
+            }
+
+            if (options.thermalErosion) {
+                DynamicTerrain._ErodeThermal(heights, subX, subZ, options.thermalErosion, (options.talus === undefined) ? 0.5 : options.talus);
+            }
+            if (options.hydraulicErosion) {
+                DynamicTerrain._ErodeHydraulic(heights, subX, subZ, options.hydraulicErosion, seed);
+            }
+            for (let idx = 0; idx < heights.length; idx++) {
+                data[3 * idx + 1] = heights[idx];
+            }
+            if (colors) {
+                DynamicTerrain.CreateColorMapFromRulesToRef(data, subX, subZ, colors, options.colorRules);
+            }
+        }
+
+        /**
+         * Static : Returns a new color map computed from the altitudes and the slopes of the passed map.  
+         * See CreateColorMapFromRulesToRef() for the rules.  
+         */
+        public static CreateColorMapFromRules(mapData: number[] | Float32Array, mapSubX: number, mapSubZ: number, rules?: {minAltitude?: number, maxAltitude?: number, minSlope?: number, maxSlope?: number, color: Color3}[]): Float32Array {
+            const colors = new Float32Array(mapSubX * mapSubZ * 3);
+            DynamicTerrain.CreateColorMapFromRulesToRef(mapData, mapSubX, mapSubZ, colors, rules);
+            return colors;
+        }
+
+        /**
+         * Static : Updates the passed color array with colors computed from the altitudes and the slopes of the passed map.  
+         * `rules` is an array of objects {minAltitude, maxAltitude, minSlope, maxSlope, color}. The first rule matching a map point gives its color, white if none matches.  
+         * The altitudes are relative : 0 is the lowest map point, 1 the highest. The slopes are between 0 (flat) and 1 (vertical). All limits are optional.  
+         * If no rules are passed, default rules (water, sand, grass, rock, snow) are used.  
+         * The passed array must be the right size : 3 x subX x subZ.  
+         */
+        public static CreateColorMapFromRulesToRef(mapData: number[] | Float32Array, mapSubX: number, mapSubZ: number, colors: number[] | Float32Array, rules?: {minAltitude?: number, maxAltitude?: number, minSlope?: number, maxSlope?: number, color: Color3}[]): void {
+            rules = rules || DynamicTerrain._DefaultColorRules;
+            const nb = mapSubX * mapSubZ;
+            const normals = new Float32Array(nb * 3);
+            DynamicTerrain.ComputeNormalsFromMapToRef(mapData, mapSubX, mapSubZ, normals, false);
+            let min = Number.MAX_VALUE;
+            let max = -Number.MAX_VALUE;
+            for (let i = 0; i < nb; i++) {
+                const y = mapData[3 * i + 1];
+                min = (y < min) ? y : min;
+                max = (y > max) ? y : max;
+            }
+            const range = (max > min) ? max - min : 1.0;
+            for (let i = 0; i < nb; i++) {
+                const altitude = (mapData[3 * i + 1] - min) / range;
+                const slope = 1.0 - Math.abs(normals[3 * i + 1]);
+                let r = 1.0;
+                let g = 1.0;
+                let b = 1.0;
+                for (let k = 0; k < rules.length; k++) {
+                    const rule = rules[k];
+                    if ((rule.minAltitude === undefined || altitude >= rule.minAltitude) && (rule.maxAltitude === undefined || altitude <= rule.maxAltitude) &&
+                        (rule.minSlope === undefined || slope >= rule.minSlope) && (rule.maxSlope === undefined || slope <= rule.maxSlope)) {
+                        r = rule.color.r;
+                        g = rule.color.g;
+                        b = rule.color.b;
+                        break;
+                    }
+                }
+                colors[3 * i] = r;
+                colors[3 * i + 1] = g;
+                colors[3 * i + 2] = b;
+            }
+        }
+
+        /**
+         * Static : Returns a new splat map computed from the altitudes and the slopes of the passed map.  
+         * See CreateSplatMapFromRulesToRef() for the rules.  
+         */
+        public static CreateSplatMapFromRules(mapData: number[] | Float32Array, mapSubX: number, mapSubZ: number, rules: {minAltitude?: number, maxAltitude?: number, minSlope?: number, maxSlope?: number, blend?: number}[]): Float32Array {
+            const splats = new Float32Array(mapSubX * mapSubZ * rules.length);
+            DynamicTerrain.CreateSplatMapFromRulesToRef(mapData, mapSubX, mapSubZ, splats, rules);
+            return splats;
+        }
+
+        /**
+         * Static : Updates the passed splat map with layer weights computed from the altitudes and the slopes of the passed map.  
+         * `rules` is an array of objects {minAltitude, maxAltitude, minSlope, maxSlope, blend}, one per layer : the layer weight is 1 within the limits and fades to 0 over the `blend` distance (default 0.05) outside of them.  
+         * The altitudes are relative : 0 is the lowest map point, 1 the highest. The slopes are between 0 (flat) and 1 (vertical). All limits are optional.  
+         * The weights of each map point are normalized. A map point matching no rule gets the whole first layer.  
+         * The passed array must be the right size : rules.length x subX x subZ.  
+         */
+        public static CreateSplatMapFromRulesToRef(mapData: number[] | Float32Array, mapSubX: number, mapSubZ: number, splats: number[] | Float32Array, rules: {minAltitude?: number, maxAltitude?: number, minSlope?: number, maxSlope?: number, blend?: number}[]): void {
+            const nb = mapSubX * mapSubZ;
+            const nbLayers = rules.length;
+            const normals = new Float32Array(nb * 3);
+            DynamicTerrain.ComputeNormalsFromMapToRef(mapData, mapSubX, mapSubZ, normals, false);
+            let min = Number.MAX_VALUE;
+            let max = -Number.MAX_VALUE;
+            for (let i = 0; i < nb; i++) {
+                const y = mapData[3 * i + 1];
+                min = (y < min) ? y : min;
+                max = (y > max) ? y : max;
+            }
+            const range = (max > min) ? max - min : 1.0;
+            // 1 between the limits, linearly decreasing to 0 over the blend distance outside
+            const ramp = (value: number, low: number, high: number, blend: number): number => {
+                if (low !== undefined && value < low) {
+                    return Math.max(1.0 - (low - value) / blend, 0.0);
+                }
+                if (high !== undefined && value > high) {
+                    return Math.max(1.0 - (value - high) / blend, 0.0);
+                }
+                return 1.0;
+            };
+            for (let i = 0; i < nb; i++) {
+                const altitude = (mapData[3 * i + 1] - min) / range;
+                const slope = 1.0 - Math.abs(normals[3 * i + 1]);
+                const start = i * nbLayers;
+                let total = 0.0;
+                for (let k = 0; k < nbLayers; k++) {
+                    const rule = rules[k];
+                    const blend = rule.blend || 0.05;
+                    const weight = ramp(altitude, rule.minAltitude, rule.maxAltitude, blend) * ramp(slope, rule.minSlope, rule.maxSlope, blend);
+                    splats[start + k] = weight;
+                    total += weight;
+                }
+                if (total > 0.0) {
+                    for (let k = 0; k < nbLayers; k++) {
+                        splats[start + k] /= total;
+                    }
+                }
+                else {
+                    splats[start] = 1.0;
+                }
+            }
+        }
+
+        // Thermal erosion : the material slides from each point to its lowest neighbour while their altitude difference exceeds the talus
+        private static _ErodeThermal(heights: Float32Array, subX: number, subZ: number, iterations: number, talus: number): void {
+            const rate = 0.5;
+            for (let it = 0; it < iterations; it++) {
+                for (let row = 0; row < subZ; row++) {
+                    for (let col = 0; col < subX; col++) {
+                        const idx = row * subX + col;
+                        const h = heights[idx];
+                        let maxDiff = 0.0;
+                        let lowest = -1;
+                        if (col > 0 && h - heights[idx - 1] > maxDiff) { maxDiff = h - heights[idx - 1]; lowest = idx - 1; }
+                        if (col < subX - 1 && h - heights[idx + 1] > maxDiff) { maxDiff = h - heights[idx + 1]; lowest = idx + 1; }
+                        if (row > 0 && h - heights[idx - subX] > maxDiff) { maxDiff = h - heights[idx - subX]; lowest = idx - subX; }
+                        if (row < subZ - 1 && h - heights[idx + subX] > maxDiff) { maxDiff = h - heights[idx + subX]; lowest = idx + subX; }
+                        if (lowest >= 0 && maxDiff > talus) {
+                            const moved = rate * (maxDiff - talus) * 0.5;
+                            heights[idx] -= moved;
+                            heights[lowest] += moved;
+                        }
+                    }
+                }
+            }
+        }
+
+        // Hydraulic erosion : water droplets run down the slopes, erode the map and deposit the carried sediment where they slow down
+        private static _ErodeHydraulic(heights: Float32Array, subX: number, subZ: number, droplets: number, seed: number): void {
+            const random = DynamicTerrainNoise.CreateRandom(seed + 1);
+            const inertia = 0.05;
+            const capacityFactor = 4.0;
+            const minCapacity = 0.01;
+            const depositionRate = 0.3;
+            const erosionRate = 0.3;
+            const evaporation = 0.02;
+            const gravity = 4.0;
+            const maxSteps = 64;
+            // bilinear altitude and gradient at (x, z), in map subdivisions
+            const sample = (x: number, z: number, result: number[]): void => {
+                const col = Math.floor(x);
+                const row = Math.floor(z);
+                const u = x - col;
+                const v = z - row;
+                const idx = row * subX + col;
+                const h00 = heights[idx];
+                const h10 = heights[idx + 1];
+                const h01 = heights[idx + subX];
+                const h11 = heights[idx + subX + 1];
+                result[0] = (h00 * (1.0 - u) + h10 * u) * (1.0 - v) + (h01 * (1.0 - u) + h11 * u) * v;
+                result[1] = (h10 - h00) * (1.0 - v) + (h11 - h01) * v;
+                result[2] = (h01 - h00) * (1.0 - u) + (h11 - h10) * u;
+            };
+            // adds the amount to the 4 points around (x, z), bilinearly weighted
+            const spread = (x: number, z: number, amount: number): void => {
+                const col = Math.floor(x);
+                const row = Math.floor(z);
+                const u = x - col;
+                const v = z - row;
+                const idx = row * subX + col;
+                heights[idx] += amount * (1.0 - u) * (1.0 - v);
+                heights[idx + 1] += amount * u * (1.0 - v);
+                heights[idx + subX] += amount * (1.0 - u) * v;
+                heights[idx + subX + 1] += amount * u * v;
+            };
+            const current = [0.0, 0.0, 0.0];
+            const next = [0.0, 0.0, 0.0];
+            for (let d = 0; d < droplets; d++) {
+                let x = random() * (subX - 1);
+                let z = random() * (subZ - 1);
+                let dirX = 0.0;
+                let dirZ = 0.0;
+                let speed = 1.0;
+                let water = 1.0;
+                let sediment = 0.0;
+                for (let step = 0; step < maxSteps; step++) {
+                    sample(x, z, current);
+                    dirX = dirX * inertia - current[1] * (1.0 - inertia);
+                    dirZ = dirZ * inertia - current[2] * (1.0 - inertia);
+                    const length = Math.sqrt(dirX * dirX + dirZ * dirZ);
+                    if (length == 0.0) {
+                        break;
+                    }
+                    dirX /= length;
+                    dirZ /= length;
+                    const newX = x + dirX;
+                    const newZ = z + dirZ;
+                    if (newX < 0 || newZ < 0 || newX >= subX - 1 || newZ >= subZ - 1) {
+                        break;
+                    }
+                    sample(newX, newZ, next);
+                    const deltaHeight = next[0] - current[0];
+                    const capacity = Math.max(-deltaHeight * speed * water * capacityFactor, minCapacity);
+                    if (sediment > capacity || deltaHeight > 0.0) {
+                        // going uphill : fill the hole, else deposit the sediment excess
+                        const deposit = (deltaHeight > 0.0) ? Math.min(deltaHeight, sediment) : (sediment - capacity) * depositionRate;
+                        sediment -= deposit;
+                        spread(x, z, deposit);
+                    }
+                    else {
+                        const erosion = Math.min((capacity - sediment) * erosionRate, -deltaHeight);
+                        sediment += erosion;
+                        spread(x, z, -erosion);
+                    }
+                    speed = Math.sqrt(Math.max(speed * speed - deltaHeight * gravity, 0.0));
+                    water *= (1.0 - evaporation);
+                    x = newX;
+                    z = newZ;
+                }
+            }
+        }
+
         /**
          * Static : Updates the passed arrays with UVs values to fit the whole map with subX points along its width and subZ points along its height.  
          * The passed array must be the right size : subX x subZ x 2.  
@@ -1717,6 +4462,50 @@ module BABYLON {
             this._uvmap = true;
             this._mapUVs = val;
         }
+        /**
+         * The splat map.
+         * A flat array of successive floats : the `splatLayers` layer weights of each map point.  
+         */
+        public get mapSplats(): Float32Array|number[] {
+            return this._mapSplats;
+        }
+        public set mapSplats(val: Float32Array|number[]) {
+            this._mapSplats = val;
+            if (!this._splats0) {
+                this._initSplatBuffers();
+            }
+            this._mapDirty = true;
+        }
+        /**
+         * The number of splat layers per map point, integer between 1 and 8 (default 4).
+         * It can be set only at construction time.
+         */
+        public get splatLayers(): number {
+            return this._splatLayers;
+        }
+        /**
+         * The terrains created by createCameraTerrain() (read only array).
+         */
+        public get cameraTerrains(): DynamicTerrain[] {
+            return this._cameraTerrains;
+        }
+        /**
+         * The terrain whose map is shared, if this terrain was created by createCameraTerrain(), else undefined.
+         */
+        public get primaryTerrain(): DynamicTerrain {
+            return this._primaryTerrain;
+        }
+        /**
+         * Maximum number of map objects (solid particles or instances) newly positioned per frame, integer (default 0 : unlimited).
+         * The nearest objects are positioned first, the other ones on the next frames.
+         */
+        public get objectBudget(): number {
+            return this._objectBudget;
+        }
+        public set objectBudget(val: number) {
+            this._objectBudget = (val > 0) ? val|0 : 0;
+            this._checkObjectCulling();
+        }
         /**
          * The map of normals.
          * A flat array of successive floats as normal vector coordinates (x, y, z) on each map point.  
@@ -1767,6 +4556,75 @@ module BABYLON {
         public set precomputeNormalsFromMap(val) {
             this._precomputeNormalsFromMap = val;
         }
+        /**
+         * Boolean : are the vertex altitudes blended between the fine and the coarse LOD levels near each LOD limit ?
+         * The vertices along a LOD limit are then stitched onto the coarser LOD edge.
+         * Default false.
+         */
+        public get geomorph(): boolean {
+            return this._geomorph;
+        }
+        public set geomorph(val: boolean) {
+            this._geomorph = val;
+        }
+        /**
+         * Number of vertices before each LOD limit over which the altitudes are blended when geomorph is enabled.
+         * Integer greater or equal to 1. Default 4.
+         */
+        public get geomorphBand(): number {
+            return this._geomorphBand;
+        }
+        public set geomorphBand(val: number) {
+            this._geomorphBand = (val > 0) ? val|0 : 1;
+        }
+        /**
+         * The maximum number of sculpting strokes kept in the undo stack.
+         * Integer, default 32.
+         */
+        public get maxUndoStrokes(): number {
+            return this._maxUndoStrokes;
+        }
+        public set maxUndoStrokes(val: number) {
+            this._maxUndoStrokes = (val > 0) ? val : 1;
+        }
+        /**
+         * Boolean : is there a sculpting stroke to undo ?
+         */
+        public get canUndo(): boolean {
+            return (this._undoStrokes.length > 0 || (this._stroke && this._stroke.indexes.length > 0)) ? true : false;
+        }
+        /**
+         * Boolean : is there a sculpting stroke to redo ?
+         */
+        public get canRedo(): boolean {
+            return this._redoStrokes.length > 0;
+        }
+        /**
+         * The tile provider paging the map, if any.
+         */
+        public get tileProvider(): IDynamicTerrainTileProvider {
+            return this._tileProvider;
+        }
+        /**
+         * The altitude given to the map points while their tile is being loaded.
+         * Float, default 0.
+         */
+        public get placeholderHeight(): number {
+            return this._placeholderHeight;
+        }
+        public set placeholderHeight(val: number) {
+            this._placeholderHeight = val;
+        }
+        /**
+         * The maximum number of loaded tiles kept in the cache. The least recently used tiles are evicted first.
+         * Integer, default 64.
+         */
+        public get maxCachedTiles(): number {
+            return this._maxCachedTiles;
+        }
+        public set maxCachedTiles(val: number) {
+            this._maxCachedTiles = (val > 0) ? val : 1;
+        }
         // ===============================================================
         // User custom functions.
         // These following can be overwritten bu the user to fit his needs.
@@ -1811,4 +4669,257 @@ module BABYLON {
         }
 
     }
+
+    /**
+     * Material blending up to 8 tiled layer textures by the splat weights of a DynamicTerrain.
+     * The layers are tiled in the World space, so they don't slide when the terrain moves with the camera.
+     */
+    export class DynamicTerrainSplatMaterial extends ShaderMaterial {
+
+        private _layers: Texture[];                                 // layer textures
+        private _tiling: number[];                                  // layer texture repetitions per World unit
+        /**
+         * Direction of the light (Vector3), default (-1, -1, -1) normalized.
+         */
+        public lightDirection: Vector3 = new Vector3(-1.0, -1.0, -1.0).normalize();
+        /**
+         * Ambient light level between 0 and 1 (default 0.3).
+         */
+        public ambient: number = 0.3;
+
+        /**
+         * Creates a splat map material.
+         * @param name 
+         * @param scene 
+         * @param {*} layers the layer textures, one per terrain splat layer (1 to 8)
+         * @param {*} tiling the layer texture repetitions per World unit : a number for all the layers or an array with a value per layer (default 0.1)
+         * @param {*} useVertexColors if the terrain vertex colors tint the blended layers (default false)
+         */
+        constructor(name: string, scene: Scene, options: {layers: Texture[], tiling?: number | number[], useVertexColors?: boolean}) {
+            super(name, scene, DynamicTerrainSplatMaterial._RegisterShaders(options.layers.length), {
+                attributes: ["position", "normal", "color", DynamicTerrain.SPLATS0_KIND, DynamicTerrain.SPLATS1_KIND],
+                uniforms: ["world", "worldViewProjection", "tiling", "lightDirection", "ambient"],
+                samplers: DynamicTerrainSplatMaterial._SamplerNames(options.layers.length),
+                defines: (options.useVertexColors) ? ["#define VERTEXCOLOR"] : []
+            });
+            const nbLayers = options.layers.length;
+            this._layers = options.layers.slice(0);
+            this._tiling = [];
+            for (let l = 0; l < nbLayers; l++) {
+                const tiling = options.tiling;
+                this._tiling.push((tiling === undefined) ? 0.1 : (typeof tiling === "number") ? tiling : tiling[l]);
+                this.setTexture("layer" + l, this._layers[l]);
+            }
+            this.setFloats("tiling", this._tiling);
+            this.onBindObservable.add(() => {
+                this.setVector3("lightDirection", this.lightDirection);
+                this.setFloat("ambient", this.ambient);
+            });
+        }
+
+        /**
+         * Sets the texture and, optionally, the tiling of the layer `index`.
+         * Returns the material.
+         * @param index 
+         * @param texture 
+         * @param tiling (optional) the layer texture repetitions per World unit
+         */
+        public setLayer(index: number, texture: Texture, tiling?: number): DynamicTerrainSplatMaterial {
+            if (index < 0 || index >= this._layers.length) {
+                return this;
+            }
+            this._layers[index] = texture;
+            this.setTexture("layer" + index, texture);
+            if (tiling !== undefined) {
+                this._tiling[index] = tiling;
+                this.setFloats("tiling", this._tiling);
+            }
+            return this;
+        }
+
+        /**
+         * The layer textures (read only array, use setLayer() to change a layer).
+         */
+        public get layers(): Texture[] {
+            return this._layers;
+        }
+
+        // private : returns the sampler names of the layers
+        private static _SamplerNames(nbLayers: number): string[] {
+            const names = [];
+            for (let l = 0; l < nbLayers; l++) {
+                names.push("layer" + l);
+            }
+            return names;
+        }
+
+        // private : registers the shaders blending nbLayers layers in the shader store, returns their name
+        private static _RegisterShaders(nbLayers: number): string {
+            const name = "dynamicTerrainSplat" + nbLayers;
+            if (Effect.ShadersStore[name + "VertexShader"]) {
+                return name;
+            }
+            Effect.ShadersStore[name + "VertexShader"] = [
+                "precision highp float;",
+                "attribute vec3 position;",
+                "attribute vec3 normal;",
+                "attribute vec4 color;",
+                "attribute vec4 " + DynamicTerrain.SPLATS0_KIND + ";",
+                "attribute vec4 " + DynamicTerrain.SPLATS1_KIND + ";",
+                "uniform mat4 world;",
+                "uniform mat4 worldViewProjection;",
+                "varying vec3 vWorldPosition;",
+                "varying vec3 vNormal;",
+                "varying vec4 vColor;",
+                "varying vec4 vSplats0;",
+                "varying vec4 vSplats1;",
+                "void main(void) {",
+                "    vWorldPosition = (world * vec4(position, 1.0)).xyz;",
+                "    vNormal = (world * vec4(normal, 0.0)).xyz;",
+                "    vColor = color;",
+                "    vSplats0 = " + DynamicTerrain.SPLATS0_KIND + ";",
+                "    vSplats1 = " + DynamicTerrain.SPLATS1_KIND + ";",
+                "    gl_Position = worldViewProjection * vec4(position, 1.0);",
+                "}"
+            ].join("\n");
+            const fragment = [
+                "precision highp float;",
+                "uniform float tiling[" + nbLayers + "];",
+                "uniform vec3 lightDirection;",
+                "uniform float ambient;",
+                "varying vec3 vWorldPosition;",
+                "varying vec3 vNormal;",
+                "varying vec4 vColor;",
+                "varying vec4 vSplats0;",
+                "varying vec4 vSplats1;"
+            ];
+            const weights = ["vSplats0.x", "vSplats0.y", "vSplats0.z", "vSplats0.w", "vSplats1.x", "vSplats1.y", "vSplats1.z", "vSplats1.w"];
+            for (let l = 0; l < nbLayers; l++) {
+                fragment.push("uniform sampler2D layer" + l + ";");
+            }
+            fragment.push(
+                "void main(void) {",
+                "    vec3 albedo = vec3(0.0);",
+                "    float total = 0.0;"
+            );
+            for (let l = 0; l < nbLayers; l++) {
+                fragment.push("    albedo += texture2D(layer" + l + ", vWorldPosition.xz * tiling[" + l + "]).rgb * " + weights[l] + ";");
+                fragment.push("    total += " + weights[l] + ";");
+            }
+            fragment.push(
+                "    albedo /= max(total, 0.0001);",
+                "#ifdef VERTEXCOLOR",
+                "    albedo *= vColor.rgb;",
+                "#endif",
+                "    float ndl = max(dot(normalize(vNormal), -lightDirection), 0.0);",
+                "    gl_FragColor = vec4(albedo * (ambient + (1.0 - ambient) * ndl), 1.0);",
+                "}"
+            );
+            Effect.ShadersStore[name + "FragmentShader"] = fragment.join("\n");
+            return name;
+        }
+    }
+
+    // Seeded Perlin and simplex 2D noises used by the procedural maps
+    class DynamicTerrainNoise {
+        private _perm: Uint8Array = new Uint8Array(512);
+        private static _gradX: number[] = [1, -1, 1, -1, 1, -1, 0, 0];
+        private static _gradZ: number[] = [1, 1, -1, -1, 0, 0, 1, -1];
+        private static _F2: number = 0.5 * (Math.sqrt(3.0) - 1.0);
+        private static _G2: number = (3.0 - Math.sqrt(3.0)) / 6.0;
+
+        constructor(seed: number) {
+            const random = DynamicTerrainNoise.CreateRandom(seed);
+            const p = [];
+            for (let i = 0; i < 256; i++) {
+                p[i] = i;
+            }
+            // seeded shuffle
+            for (let i = 255; i > 0; i--) {
+                const j = Math.floor(random() * (i + 1));
+                const tmp = p[i];
+                p[i] = p[j];
+                p[j] = tmp;
+            }
+            for (let i = 0; i < 512; i++) {
+                this._perm[i] = p[i & 255];
+            }
+        }
+
+        // Returns a seeded pseudo random function returning floats between 0 and 1 (mulberry32)
+        public static CreateRandom(seed: number): () => number {
+            let state = seed|0;
+            return () => {
+                state = (state + 0x6D2B79F5)|0;
+                let t = state;
+                t = Math.imul(t ^ (t >>> 15), t | 1);
+                t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+                return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+            };
+        }
+
+        // Perlin improved noise, between -1 and 1
+        public perlin(x: number, z: number): number {
+            const perm = this._perm;
+            const xi = Math.floor(x);
+            const zi = Math.floor(z);
+            const xf = x - xi;
+            const zf = z - zi;
+            const X = xi & 255;
+            const Z = zi & 255;
+            const u = xf * xf * xf * (xf * (xf * 6.0 - 15.0) + 10.0);
+            const v = zf * zf * zf * (zf * (zf * 6.0 - 15.0) + 10.0);
+            const n00 = this._grad(perm[X + perm[Z]], xf, zf);
+            const n10 = this._grad(perm[X + 1 + perm[Z]], xf - 1.0, zf);
+            const n01 = this._grad(perm[X + perm[Z + 1]], xf, zf - 1.0);
+            const n11 = this._grad(perm[X + 1 + perm[Z + 1]], xf - 1.0, zf - 1.0);
+            const nx0 = n00 + u * (n10 - n00);
+            const nx1 = n01 + u * (n11 - n01);
+            return (nx0 + v * (nx1 - nx0)) * 0.7071;
+        }
+
+        // Simplex noise, between -1 and 1
+        public simplex(x: number, z: number): number {
+            const perm = this._perm;
+            const F2 = DynamicTerrainNoise._F2;
+            const G2 = DynamicTerrainNoise._G2;
+            const s = (x + z) * F2;
+            const i = Math.floor(x + s);
+            const j = Math.floor(z + s);
+            const t = (i + j) * G2;
+            const x0 = x - (i - t);
+            const z0 = z - (j - t);
+            const i1 = (x0 > z0) ? 1 : 0;
+            const j1 = (x0 > z0) ? 0 : 1;
+            const x1 = x0 - i1 + G2;
+            const z1 = z0 - j1 + G2;
+            const x2 = x0 - 1.0 + 2.0 * G2;
+            const z2 = z0 - 1.0 + 2.0 * G2;
+            const ii = i & 255;
+            const jj = j & 255;
+            let n = 0.0;
+            let t0 = 0.5 - x0 * x0 - z0 * z0;
+            if (t0 > 0.0) {
+                t0 *= t0;
+                n += t0 * t0 * this._grad(perm[ii + perm[jj]], x0, z0);
+            }
+            let t1 = 0.5 - x1 * x1 - z1 * z1;
+            if (t1 > 0.0) {
+                t1 *= t1;
+                n += t1 * t1 * this._grad(perm[ii + i1 + perm[jj + j1]], x1, z1);
+            }
+            let t2 = 0.5 - x2 * x2 - z2 * z2;
+            if (t2 > 0.0) {
+                t2 *= t2;
+                n += t2 * t2 * this._grad(perm[ii + 1 + perm[jj + 1]], x2, z2);
+            }
+            return 70.0 * n;
+        }
+
+        // dot product of the hashed gradient and (x, z)
+        private _grad(hash: number, x: number, z: number): number {
+            const h = hash & 7;
+            return DynamicTerrainNoise._gradX[h] * x + DynamicTerrainNoise._gradZ[h] * z;
+        }
+    }
 }
@@ -1,4 +1,8 @@
-module BABYLONX {
+import { Mesh } from "@babylonjs/core/Meshes/mesh";
+import { VertexData } from "@babylonjs/core/Meshes/mesh.vertexData";
+import { Scene } from "@babylonjs/core/scene";
+
+export module BABYLONX {
     export interface IVertexPoint {
         x: any,
         y: any,
@@ -18,6 +22,16 @@ module BABYLONX {
         name: string
     }
 
+    export interface IGeometryEngine {
+        Mesh: typeof Mesh,
+        VertexData: typeof VertexData,
+    }
+
+    // mesh built from a geometry, center being the average of its positions
+    export interface IGeometryMesh extends Mesh {
+        center: IVertexPoint;
+    }
+
     export interface IVertexPushOption {
         faceUVMap: string,
         pointIndex1: any,
@@ -61,7 +75,7 @@ module BABYLONX {
         static face4UV1032 = "1032";
         static _null = 'set null anyway';
         static GetTotalLength(path: any) {
-            return null;
+            return path.getTotalLength();
         }
         static Dim(v: any, u: any) {
             return Math.sqrt(Math.pow(u.x - v.x, 2.) + Math.pow(u.y - v.y, 2.) + (GeometryBuilder.Def(u.z, GeometryBuilder._null) ? Math.pow(u.z - v.z, 2.) : 0));
@@ -326,17 +340,38 @@ module BABYLONX {
 
             return sr;
         }
-        static BuildBabylonMesh(scene: any, geo: any) {
-            return null;
+        static BuildBabylonMesh(scene: Scene, geo: any): IGeometryMesh {
+            var data = GeometryBuilder.ToBabylonGeometry(geo);
+            var mesh = new GeometryBuilder.Engine.Mesh(geo.name, scene) as IGeometryMesh;
+            data.normals = GeometryBuilder.Def(data.normals, []);
+            try {
+                GeometryBuilder.Engine.VertexData.ComputeNormals(data.positions, data.indices, data.normals);
+            } catch (e) {
+            }
+            data.applyToMesh(mesh, false);
+            var positions = data.positions || [];
+            var center = { x: 0, y: 0, z: 0 };
+            for (var i = 0; i < positions.length; i += 3.0) {
+                center.x += positions[i];
+                center.y += positions[i + 1];
+                center.z += positions[i + 2];
+            }
+            mesh.center = { x: center.x * 3.0 / positions.length, y: center.y * 3.0 / positions.length, z: center.z * 3.0 / positions.length };
+            return mesh;
         }
-        static ToBabylonGeometry(geo: any) {
-            return null;
+        static ToBabylonGeometry(geo: any): VertexData {
+            var vertexData = new GeometryBuilder.Engine.VertexData();
+            vertexData.indices = geo.faces;
+            vertexData.positions = geo.positions;
+            vertexData.normals = geo.normals;
+            vertexData.uvs = geo.uvs;
+            if (geo.uvs2 && geo.uvs2.length) vertexData.uvs2 = geo.uvs2;
+            return vertexData;
         }
-        static InitializeEngine() {
-            eval("BABYLONX.GeometryBuilder.ToBabylonGeometry = function(op) {    var vertexData = new BABYLON.VertexData();  vertexData.indices = op.faces;    vertexData.positions = op.positions;    vertexData.normals = op.normals; vertexData.uvs = op.uvs;    if (BABYLONX.GeometryBuilder.Def(op.uv2s , GeometryBuilder._null))        vertexData.uv2s = op.uv2s;    else        vertexData.uv2s = [];    return vertexData; } ");
-            eval('BABYLONX.GeometryBuilder.GetTotalLength = function(path){return path.getTotalLength();}');
-            eval("BABYLONX.GeometryBuilder.BuildBabylonMesh = function(opscene,opgeo){        var geo = BABYLONX.GeometryBuilder.ToBabylonGeometry(opgeo);    var mesh = new BABYLON.Mesh(  opgeo.name, opscene);    geo.normals = BABYLONX.GeometryBuilder.Def(geo.normals, []);    try {  BABYLON.VertexData.ComputeNormals(geo.positions, geo.indices, geo.normals);    } catch (e) {    }    geo.applyToMesh(mesh, false);  var center = { x: 0, y: 0, z: 0 };  for (i = 0; i < geo.positions.length; i += 3.0) {  center.x += geo.positions[i];  center.y += geo.positions[i + 1];  center.z += geo.positions[i + 2];  }  center = { x: center.x * 3.0 / geo.positions.length, y: center.y * 3.0 / geo.positions.length, z: center.z * 3.0 / geo.positions.length };    mesh.center = center;    return mesh; }");
-
+        // Babylon classes used to build meshes, the @babylonjs/core module unless InitializeEngine() is given another one
+        static Engine: IGeometryEngine = { Mesh, VertexData };
+        static InitializeEngine(engine?: IGeometryEngine) {
+            if (engine) GeometryBuilder.Engine = engine;
         }
     }
     export class Geometry {
@@ -1,4 +1,27 @@
-// tslint:disable no-namespace no-internal-module max-classes-per-file member-access variable-name no-eval curly prefer-for-of
+// tslint:disable no-namespace no-internal-module max-classes-per-file member-access variable-name curly prefer-for-of
+import { Camera } from "@babylonjs/core/Cameras/camera";
+import { Constants } from "@babylonjs/core/Engines/constants";
+import { DirectionalLight } from "@babylonjs/core/Lights/directionalLight";
+import { HemisphericLight } from "@babylonjs/core/Lights/hemisphericLight";
+import { Light } from "@babylonjs/core/Lights/light";
+import { PointLight } from "@babylonjs/core/Lights/pointLight";
+import { ShadowGenerator } from "@babylonjs/core/Lights/Shadows/shadowGenerator";
+import { ShadowLight } from "@babylonjs/core/Lights/shadowLight";
+import { SpotLight } from "@babylonjs/core/Lights/spotLight";
+import { Effect } from "@babylonjs/core/Materials/effect";
+import { Material } from "@babylonjs/core/Materials/material";
+import { ShaderLanguage } from "@babylonjs/core/Materials/shaderLanguage";
+import { ShaderMaterial } from "@babylonjs/core/Materials/shaderMaterial";
+import { BaseTexture } from "@babylonjs/core/Materials/Textures/baseTexture";
+import { CubeTexture } from "@babylonjs/core/Materials/Textures/cubeTexture";
+import { RawTexture } from "@babylonjs/core/Materials/Textures/rawTexture";
+import { RenderTargetTexture } from "@babylonjs/core/Materials/Textures/renderTargetTexture";
+import { Texture } from "@babylonjs/core/Materials/Textures/texture";
+import { Vector2, Vector3 } from "@babylonjs/core/Maths/math.vector";
+import { AbstractMesh } from "@babylonjs/core/Meshes/abstractMesh";
+import { PostProcess } from "@babylonjs/core/PostProcesses/postProcess";
+import { Scene } from "@babylonjs/core/scene";
+
 export module BABYLONX {
 
     export interface IColor {
@@ -37,6 +60,23 @@ export module BABYLONX {
         parallel?: boolean;
     }
 
+    /**
+     * metallic/roughness material lit by the scene lights. albedo and emissive are vec3, the others float;
+     * numbers or GLSL strings like the other options
+     */
+    export interface IPBR {
+        albedo?: any;
+        alpha?: any;
+        metallic?: any;
+        roughness?: any;
+        emissive?: any;
+
+        normal?: string;
+
+        lights?: number;
+        shadows?: boolean;
+    }
+
     export interface ITexture {
         key?: string;
         inVertex?: boolean;
@@ -48,6 +88,7 @@ export module BABYLONX {
         px?: any;
         py?: any;
         pz?: any;
+        pw?: any;
         pr?: any;
     }
 
@@ -115,6 +156,7 @@ export module BABYLONX {
         reusable?: boolean;
         defines?: string;
         onApply?: any;
+        time?: () => number;
     }
 
     export interface INutBone {
@@ -128,6 +170,14 @@ export module BABYLONX {
         array: any[];
     }
 
+    export interface IWgslShader {
+        vertex: string;
+        pixel: string;
+        attributes: string[];
+        uniforms: string[];
+        samplers: string[];
+    }
+
     export class ShaderMaterialHelperStatics {
         static Dark = false;
         static Light = true;
@@ -177,6 +227,17 @@ export module BABYLONX {
 
         static Texture2D = "txtRef_";
         static TextureCube = "cubeRef_";
+
+        static LightKind = "vLightKind";
+        static LightData = "vLightData";
+        static LightDiffuse = "vLightDiffuse";
+        static LightSpecular = "vLightSpecular";
+        static LightDirection = "vLightDirection";
+        static LightGround = "vLightGround";
+        static LightMatrix = "lightMatrix";
+        static ShadowSampler = "shadowSampler";
+        static ShadowsInfo = "shadowsInfo";
+        static DepthValues = "depthValues";
     }
 
     export class Normals {
@@ -199,38 +260,186 @@ export module BABYLONX {
     export interface IShaderHelper {
         uniforms: string[];
         attributes: string[];
+        samplers?: string[];
+    }
+
+    /**
+     * Babylon classes the helpers create. The @babylonjs/core module by default, tests can inject their own.
+     */
+    export interface IShaderEngine {
+        Effect: typeof Effect;
+        ShaderMaterial: typeof ShaderMaterial;
+        Texture: typeof Texture;
+        CubeTexture: typeof CubeTexture;
+        PostProcess: typeof PostProcess;
+        RenderTargetTexture: typeof RenderTargetTexture;
+        RawTexture: typeof RawTexture;
+        Vector2: typeof Vector2;
+        Light: typeof Light;
     }
 
     export class ShaderMaterialHelper {
-        ShaderMaterial(name: string, scene: BABYLON.Scene, shader: IShaderStruct, helpers: IShaderHelper): BABYLON.ShaderMaterial {
+        static Engine: IShaderEngine = { Effect, ShaderMaterial, Texture, CubeTexture, PostProcess, RenderTargetTexture, RawTexture, Vector2, Light };
+        private static _noShadowMaps = new WeakMap<Scene, RawTexture>();
+
+        ShaderMaterial(name: string, scene: Scene, shader: IShaderStruct, helpers: IShaderHelper): ShaderMaterial {
             return this.MakeShaderMaterialForEngine(name, scene, shader, helpers);
         }
-        MakeShaderMaterialForEngine(name: string, scene: BABYLON.Scene, shader: IShaderStruct, helpers: IShaderHelper): BABYLON.ShaderMaterial {
-            return null as any;
-        }
-        DefineTexture(txt: ITexture, scene: BABYLON.Scene): BABYLON.Texture {
-            return null as any;
-        }
-        DefineCubeTexture(txt: ITexture, scene: BABYLON.Scene): BABYLON.CubeTexture {
-            return null as any;
-        }
-        SetUniforms(meshes: any, cameraPos: any, cameraTarget: any, mouse: any, screen: any, time: any) {
-            //
-        }
-        PostProcessTextures(pps: any, name: string, txt: any) {
-            //
-        }
-        DefineRenderTarget(name: string, scale: number, scene: BABYLON.Scene): any {
-            return null as any;
+        MakeShaderMaterialForEngine(name: string, scene: Scene, shader: IShaderStruct, helpers: IShaderHelper): ShaderMaterial {
+            const engine = ShaderMaterialHelper.Engine;
+            const store: { [key: string]: string } = engine.Effect.ShadersStore;
+            store[name + "VertexShader"] = shader.Vertex;
+            store[name + "PixelShader"] = shader.Pixel;
+            return new engine.ShaderMaterial(name, scene, { vertex: name, fragment: name }, helpers);
+        }
+        /**
+         * ShaderMaterial on the sources of BuildWgsl
+         */
+        WgslShaderMaterial(name: string, scene: Scene, shader: IWgslShader): ShaderMaterial {
+            return new ShaderMaterialHelper.Engine.ShaderMaterial(name, scene, { vertexSource: shader.vertex, fragmentSource: shader.pixel }, {
+                attributes: shader.attributes,
+                uniforms: shader.uniforms,
+                samplers: shader.samplers,
+                shaderLanguage: ShaderLanguage.WGSL
+            });
+        }
+        DefineTexture(url: string, scene: Scene): Texture {
+            return new ShaderMaterialHelper.Engine.Texture(url, scene);
+        }
+        DefineCubeTexture(url: string, scene: Scene): CubeTexture {
+            const engine = ShaderMaterialHelper.Engine;
+            const texture = new engine.CubeTexture(url, scene);
+            texture.coordinatesMode = engine.Texture.PLANAR_MODE;
+            return texture;
+        }
+        SetUniforms(meshes: AbstractMesh[], cameraPos: Vector3, cameraTarget: Vector3, mouse: Vector2, screen: Vector2, time: number) {
+            for (const mesh of meshes) {
+                const material: any = mesh.material;
+                if (!material || material.ShaderSetting == null /*or undefined*/) continue;
+                const setting: ShaderSetting = material.ShaderSetting;
+                if (setting.Camera) material.setVector3(ShaderMaterialHelperStatics.Camera, cameraPos);
+                if (setting.Center) material.setVector3(ShaderMaterialHelperStatics.Center, { x: 0., y: 0., z: 0. });
+                if (setting.Mouse) material.setVector2(ShaderMaterialHelperStatics.Mouse, mouse);
+                if (setting.Screen) material.setVector2(ShaderMaterialHelperStatics.Screen, screen);
+                if (setting.GlobalTime) material.setVector4(ShaderMaterialHelperStatics.GlobalTime, { x: 0., y: 0., z: 0., w: 0. });
+                if (setting.Look) material.setVector3(ShaderMaterialHelperStatics.Look, cameraTarget);
+                if (setting.Time) material.setFloat(ShaderMaterialHelperStatics.Time, time);
+            }
+        }
+        /**
+         * sets the light uniforms of ShaderBuilder.LightUniforms from the enabled lights of the scene, packed like Babylon's own:
+         * vLightData holds the position (w: spot exponent) or the direction, vLightDiffuse the color times the scaled intensity (w: range),
+         * vLightDirection the spot direction (w: cosine of the half angle). vLightKind is the light type id, -1 for an empty slot.
+         * Babylon's light binding is not used: it needs the light uniform buffers and per light defines of its own shaders.
+         * So PBR() always uses the physical falloff of PBRMaterial; light.falloffType, spot exponent and angleScale are ignored.
+         * Directional and spot lights with a ShadowGenerator bind their shadow map, shadowsInfo.y is 1 when they do and
+         * shadowsInfo.z is 1 when the generator packs the depth in RGBA (unsigned byte shadow map).
+         * The other lights and the empty slots bind a 1x1 white map (farthest depth) so that no shadow sampler is left unbound.
+         */
+        BindLights(effect: Effect, scene: Scene, count: number, shadows: boolean) {
+            const statics = ShaderMaterialHelperStatics;
+            const types = ShaderMaterialHelper.Engine.Light;
+            const lights = scene.lights.filter((l) => l.isEnabled());
+            const camera = scene.activeCamera;
+            if (camera) effect.setVector3(statics.Camera, camera.globalPosition);
+
+            for (let i = 0; i < count; i++) {
+                const light = lights[i];
+                if (!light) {
+                    effect.setFloat(statics.LightKind + i, -1);
+                    if (shadows) effect.setTexture(statics.ShadowSampler + i, ShaderMaterialHelper.NoShadowMap(scene));
+                    continue;
+                }
+                const kind = light.getTypeID();
+                const intensity = light.getScaledIntensity();
+                effect.setFloat(statics.LightKind + i, kind);
+                effect.setFloat4(statics.LightDiffuse + i, light.diffuse.r * intensity, light.diffuse.g * intensity, light.diffuse.b * intensity, light.range);
+                effect.setFloat4(statics.LightSpecular + i, light.specular.r * intensity, light.specular.g * intensity, light.specular.b * intensity, light.radius);
+
+                if (kind === types.LIGHTTYPEID_HEMISPHERICLIGHT) {
+                    const hemispheric = light as HemisphericLight;
+                    const up = hemispheric.direction.clone().normalize();
+                    effect.setFloat4(statics.LightData + i, up.x, up.y, up.z, 0);
+                    effect.setFloat3(statics.LightGround + i, hemispheric.groundColor.r * intensity, hemispheric.groundColor.g * intensity, hemispheric.groundColor.b * intensity);
+                } else if (kind === types.LIGHTTYPEID_DIRECTIONALLIGHT) {
+                    const direction = (light as DirectionalLight).direction.clone().normalize();
+                    effect.setFloat4(statics.LightData + i, direction.x, direction.y, direction.z, 1);
+                } else {
+                    const position = (light as PointLight).getAbsolutePosition();
+                    const spot = kind === types.LIGHTTYPEID_SPOTLIGHT ? light as SpotLight : null;
+                    effect.setFloat4(statics.LightData + i, position.x, position.y, position.z, spot ? spot.exponent : 0);
+                    if (spot) {
+                        const direction = spot.direction.clone().normalize();
+                        effect.setFloat4(statics.LightDirection + i, direction.x, direction.y, direction.z, Math.cos(spot.angle * 0.5));
+                    }
+                }
+
+                if (!shadows) continue;
+                const generator = light.getShadowGenerator() as ShadowGenerator | null;
+                if (generator && camera && light.shadowEnabled && (kind === types.LIGHTTYPEID_DIRECTIONALLIGHT || kind === types.LIGHTTYPEID_SPOTLIGHT)) {
+                    const shadowLight = light as ShadowLight;
+                    const minZ = shadowLight.getDepthMinZ(camera);
+                    const map = generator.getShadowMap()!;
+                    const packed = map.textureType === Constants.TEXTURETYPE_UNSIGNED_BYTE ? 1 : 0;
+                    effect.setTexture(statics.ShadowSampler + i, map);
+                    effect.setMatrix(statics.LightMatrix + i, generator.getTransformMatrix());
+                    effect.setFloat4(statics.ShadowsInfo + i, generator.getDarkness(), 1, packed, 0);
+                    effect.setFloat2(statics.DepthValues + i, minZ, minZ + shadowLight.getDepthMaxZ(camera));
+                } else {
+                    effect.setTexture(statics.ShadowSampler + i, ShaderMaterialHelper.NoShadowMap(scene));
+                    effect.setFloat4(statics.ShadowsInfo + i, 1, 0, 0, 0);
+                }
+            }
         }
-        ShaderPostProcess(name: string, samplers: any, camera: any, scale: number, shader: IShaderStruct, helpers: IShaderHelper, option: IPostProcess): BABYLON.PostProcess {
-            return null as any;
+        /**
+         * the 1x1 white shadow map bound for the lights without a ShadowGenerator, one per scene
+         */
+        static NoShadowMap(scene: Scene): RawTexture {
+            let map = ShaderMaterialHelper._noShadowMaps.get(scene);
+            if (!map) {
+                map = ShaderMaterialHelper.Engine.RawTexture.CreateRGBATexture(new Uint8Array([255, 255, 255, 255]), 1, 1, scene, false);
+                ShaderMaterialHelper._noShadowMaps.set(scene, map);
+                scene.onDisposeObservable.addOnce(() => ShaderMaterialHelper._noShadowMaps.delete(scene));
+            }
+            return map;
+        }
+        PostProcessTextures(pps: PostProcess, name: string, txt: BaseTexture) {
+            pps.onApplyObservable.add((effect) => effect.setTexture(name, txt));
+        }
+        /**
+         * render target the size of the screen times scale, rendered with the scene; fill its renderList with the meshes to draw
+         */
+        DefineRenderTarget(name: string, scale: number, scene: Scene): RenderTargetTexture {
+            const target = new ShaderMaterialHelper.Engine.RenderTargetTexture(name, { ratio: scale }, scene);
+            scene.customRenderTargets.push(target);
+            return target;
+        }
+        /**
+         * time uniform: option.time() if given, else the number of frames the post process was applied
+         */
+        ShaderPostProcess(name: string, samplers: string[], camera: Camera, scale: number, shader: IShaderStruct, helpers: IShaderHelper, option: IPostProcess): PostProcess {
+            const engine = ShaderMaterialHelper.Engine;
+            option = Shader.Def(option, {});
+            const store: { [key: string]: string } = engine.Effect.ShadersStore;
+            store[name + "PixelShader"] = shader.Pixel;
+            const pps = new engine.PostProcess(name, name, helpers.uniforms, samplers, scale, camera,
+                Shader.Def(option.samplingMode, engine.Texture.BILINEAR_SAMPLINGMODE), option.engine, option.reusable, option.defines);
+            let frame = 0;
+            pps.onApply = (effect) => {
+                effect.setFloat(ShaderMaterialHelperStatics.Time, option.time ? option.time() : ++frame);
+                effect.setVector2(ShaderMaterialHelperStatics.Screen, new engine.Vector2(pps.width, pps.height));
+                effect.setVector3(ShaderMaterialHelperStatics.Camera, camera.position);
+                if (option.onApply) option.onApply(effect);
+            };
+            return pps;
         }
     }
 
     export class Shader {
         static _null = "set null anyway";
         static Indexer: number;
+        static Names: { [hint: string]: number } = {};
+        static Blocks: { [code: string]: ShaderStatement[] } = {};
         static ShaderIdentity: number;
         static Me: ShaderBuilder;
         static Replace(s: string, t: string, d: string) {
@@ -262,8 +471,17 @@ export module BABYLONX {
         static Index() {
             return "_" + Shader.Indexer + "_";
         }
+        /**
+         * readable variable name: hint_1, hint_2... numbered again for each material or post process
+         */
+        static Name(hint: string) {
+            const n = (Shader.Names[hint] || 0) + 1;
+            Shader.Names[hint] = n;
+            return hint + "_" + n;
+        }
         static DefCustom(t: string, c: string) {
-            this.Me.Body += t + " custom_" + this.Print(++this.Me.CustomIndexer) + "_ = " + c + ";";
+            const code = t + " custom_" + this.Print(++this.Me.CustomIndexer) + "_ = " + c + ";";
+            this.Me.Emit((b) => b.Raw(code));
         }
         static toRGB(a: any, b: any) {
             b = Shader.Def(b, 255);
@@ -292,6 +510,749 @@ export module BABYLONX {
         }
     }
 
+    export type ShaderType = "float" | "int" | "bool" | "vec2" | "vec3" | "vec4" | "mat3" | "mat4" | "sampler2D" | "samplerCube";
+    export type ShaderNodeKind = "literal" | "ref" | "raw" | "binary" | "unary" | "call" | "swizzle" | "index" | "select";
+    export type ShaderValue = ShaderNode | number | string;
+
+    /**
+     * Typed expression node. The operator helpers check the operand types and throw at build time,
+     * so a type mistake doesn't wait for the WebGL compiler. Nodes are immutable and can be shared.
+     */
+    export class ShaderNode {
+        static GenTypes: ShaderType[] = ["float", "vec2", "vec3", "vec4"];
+
+        Kind: ShaderNodeKind;
+        Type: ShaderType;
+        Name: string;
+        Value: number;
+        Args: ShaderNode[];
+
+        constructor(kind: ShaderNodeKind, type: ShaderType, name: string, args: ShaderNode[] = [], value: number = 0) {
+            this.Kind = kind;
+            this.Type = type;
+            this.Name = name;
+            this.Args = args;
+            this.Value = value;
+        }
+
+        static Float(value: number): ShaderNode {
+            return new ShaderNode("literal", "float", "", [], value);
+        }
+        static Bool(value: boolean): ShaderNode {
+            return new ShaderNode("literal", "bool", value ? "true" : "false");
+        }
+        static Ref(type: ShaderType, name: string): ShaderNode {
+            return new ShaderNode("ref", type, name);
+        }
+        /**
+         * GLSL text given by the user (options, materials from strings), trusted to be of the given type
+         */
+        static Raw(type: ShaderType, code: string): ShaderNode {
+            return new ShaderNode("raw", type, code);
+        }
+        static Sampler2D(name: string): ShaderNode {
+            return ShaderNode.Ref("sampler2D", name);
+        }
+        static SamplerCube(name: string): ShaderNode {
+            return ShaderNode.Ref("samplerCube", name);
+        }
+        /**
+         * node from a builder option: numbers become literals, strings raw GLSL of the expected type
+         */
+        static From(value: ShaderValue | undefined, type: ShaderType = "float"): ShaderNode {
+            if (value instanceof ShaderNode) {
+                if (value.Type !== type && !(value.Type === "float" && ShaderNode.Size(type) > 1 && type.indexOf("mat") === -1)) {
+                    throw new Error("ShaderBuilder: " + type + " expected, got " + value.Type);
+                }
+                return value.Type === type ? value : ShaderNode.Call(type, value);
+            }
+            if (typeof value === "number") {
+                return type === "float" ? ShaderNode.Float(value) : ShaderNode.Call(type, ShaderNode.Float(value));
+            }
+            if (value === undefined || value === null) {
+                throw new Error("ShaderBuilder: missing " + type + " value");
+            }
+            const code = Shader.Print(value);
+            const reg = new RegExp("^-?\\d+(\\.\\d*)?(e-?\\d+)?$");
+            if (type === "float" && reg.test(code)) {
+                return ShaderNode.Float(parseFloat(code));
+            }
+            return ShaderNode.Raw(type, code);
+        }
+        static Vec2(...args: ShaderValue[]): ShaderNode {
+            return ShaderNode.Call("vec2", ...args.map((a) => ShaderNode.Component(a)));
+        }
+        static Vec3(...args: ShaderValue[]): ShaderNode {
+            return ShaderNode.Call("vec3", ...args.map((a) => ShaderNode.Component(a)));
+        }
+        static Vec4(...args: ShaderValue[]): ShaderNode {
+            return ShaderNode.Call("vec4", ...args.map((a) => ShaderNode.Component(a)));
+        }
+        static Mat3(...args: ShaderValue[]): ShaderNode {
+            return ShaderNode.Call("mat3", ...args.map((a) => ShaderNode.Component(a)));
+        }
+        static Component(value: ShaderValue): ShaderNode {
+            return value instanceof ShaderNode ? value : ShaderNode.From(value, "float");
+        }
+
+        static Call(name: string, ...args: ShaderValue[]): ShaderNode {
+            const nodes = args.map((a) => {
+                if (typeof a === "string") {
+                    throw new Error("ShaderBuilder: untyped argument " + a + " for " + name + ", use ShaderNode.From()");
+                }
+                return ShaderNode.Component(a);
+            });
+            return new ShaderNode("call", ShaderNode.CallType(name, nodes.map((n) => n.Type)), name, nodes);
+        }
+        static Select(condition: ShaderNode, a: ShaderValue, b: ShaderValue): ShaderNode {
+            const na = ShaderNode.Component(a);
+            const nb = ShaderNode.Component(b);
+            if (condition.Type !== "bool" || na.Type !== nb.Type) {
+                throw new Error("ShaderBuilder: invalid select " + condition.Type + " ? " + na.Type + " : " + nb.Type);
+            }
+            return new ShaderNode("select", na.Type, "?", [condition, na, nb]);
+        }
+
+        static Size(type: ShaderType): number {
+            switch (type) {
+                case "float": case "int": case "bool": return 1;
+                case "vec2": return 2;
+                case "vec3": return 3;
+                case "vec4": return 4;
+                case "mat3": return 9;
+                case "mat4": return 16;
+            }
+            return 0;
+        }
+        static IsNumeric(type: ShaderType): boolean {
+            return type !== "bool" && ShaderNode.Size(type) > 0;
+        }
+        static Vector(size: number): ShaderType {
+            return size === 1 ? "float" : ("vec" + size) as ShaderType;
+        }
+
+        /**
+         * result type of an arithmetic operation, GLSL ES 1.0 rules: same types, float with vector or matrix, matrix by vector
+         */
+        static ArithmeticType(op: string, a: ShaderType, b: ShaderType): ShaderType {
+            if (ShaderNode.IsNumeric(a) && ShaderNode.IsNumeric(b)) {
+                if (a === b) return a;
+                if (a === "float" && b !== "int") return b;
+                if (b === "float" && a !== "int") return a;
+                if (op === "*") {
+                    if ((a === "mat4" && b === "vec4") || (a === "vec4" && b === "mat4")) return "vec4";
+                    if ((a === "mat3" && b === "vec3") || (a === "vec3" && b === "mat3")) return "vec3";
+                }
+            }
+            throw new Error("ShaderBuilder: invalid operation " + a + " " + op + " " + b);
+        }
+
+        static CallType(name: string, types: ShaderType[]): ShaderType {
+            const size = ShaderNode.Size(name as ShaderType);
+            if (size > 0 && name !== "int" && name !== "bool") {
+                return ShaderNode.ConstructorType(name as ShaderType, types);
+            }
+            const signature = ShaderNode.Signatures[name];
+            if (!signature) {
+                throw new Error("ShaderBuilder: unknown function " + name);
+            }
+            const type = signature(types);
+            if (type === null) {
+                throw new Error("ShaderBuilder: invalid arguments for " + name + "(" + types.join(", ") + ")");
+            }
+            return type;
+        }
+
+        static ConstructorType(type: ShaderType, types: ShaderType[]): ShaderType {
+            const size = ShaderNode.Size(type);
+            if (types.length === 0 || types.some((t) => !ShaderNode.IsNumeric(t))) {
+                throw new Error("ShaderBuilder: invalid arguments for " + type + "(" + types.join(", ") + ")");
+            }
+            if (types.length === 1) {
+                if (ShaderNode.Size(types[0]) === 1 || ShaderNode.Size(types[0]) >= size || (type.indexOf("mat") === 0 && types[0].indexOf("mat") === 0)) {
+                    return type;
+                }
+            } else {
+                let before = 0;
+                for (let i = 0; i < types.length - 1; i++) {
+                    before += ShaderNode.Size(types[i]);
+                }
+                if (before < size && before + ShaderNode.Size(types[types.length - 1]) >= size && types.every((t) => t.indexOf("mat") === -1)) {
+                    return type;
+                }
+            }
+            throw new Error("ShaderBuilder: invalid arguments for " + type + "(" + types.join(", ") + ")");
+        }
+
+        static Signatures: { [name: string]: (t: ShaderType[]) => ShaderType | null } = (() => {
+            const gen = (t: ShaderType) => ShaderNode.GenTypes.indexOf(t) !== -1;
+            const same = (n: number) => (t: ShaderType[]) => t.length === n && gen(t[0]) && t.every((x) => x === t[0]) ? t[0] : null;
+            const orFloat = (t: ShaderType[]) => t.length === 2 && gen(t[0]) && (t[1] === t[0] || t[1] === "float") ? t[0] : null;
+            const fixed = (args: ShaderType[], result: ShaderType) => (t: ShaderType[]) => t.length === args.length && t.every((x, i) => x === args[i]) ? result : null;
+            const table: { [name: string]: (t: ShaderType[]) => ShaderType | null } = {
+                pow: same(2), mod: orFloat, min: orFloat, max: orFloat,
+                atan: (t) => same(1)(t) || same(2)(t),
+                clamp: (t) => t.length === 3 && gen(t[0]) && t[1] === t[2] && (t[1] === t[0] || t[1] === "float") ? t[0] : null,
+                mix: (t) => t.length === 3 && gen(t[0]) && t[1] === t[0] && (t[2] === t[0] || t[2] === "float") ? t[0] : null,
+                step: (t) => t.length === 2 && gen(t[1]) && (t[0] === t[1] || t[0] === "float") ? t[1] : null,
+                smoothstep: (t) => t.length === 3 && gen(t[2]) && t[0] === t[1] && (t[0] === t[2] || t[0] === "float") ? t[2] : null,
+                length: (t) => same(1)(t) ? "float" : null,
+                distance: (t) => same(2)(t) ? "float" : null,
+                dot: (t) => same(2)(t) ? "float" : null,
+                cross: fixed(["vec3", "vec3"], "vec3"),
+                reflect: same(2),
+                refract: (t) => t.length === 3 && gen(t[0]) && t[1] === t[0] && t[2] === "float" ? t[0] : null,
+                texture2D: (t) => fixed(["sampler2D", "vec2"], "vec4")(t) || fixed(["sampler2D", "vec2", "float"], "vec4")(t),
+                textureCube: (t) => fixed(["samplerCube", "vec3"], "vec4")(t) || fixed(["samplerCube", "vec3", "float"], "vec4")(t),
+                r_x: fixed(["vec3", "float", "vec3"], "vec3"),
+                r_y: fixed(["vec3", "float", "vec3"], "vec3"),
+                r_z: fixed(["vec3", "float", "vec3"], "vec3"),
+                rotate_xy: fixed(["vec2", "vec2", "float"], "vec2"),
+                random3: fixed(["vec3"], "vec3"),
+                rand: fixed(["vec2"], "float"),
+                simplex3d: fixed(["vec3"], "float"),
+                noise: fixed(["vec3"], "float"),
+                dim: fixed(["vec3", "vec3"], "float"),
+                normalMap: fixed([], "vec3"),
+                specularMap: fixed([], "float"),
+                getIdColor: fixed(["vec4"], "float")
+            };
+            ["sin", "cos", "tan", "asin", "acos", "abs", "sign", "floor", "ceil", "fract", "exp", "log", "exp2", "log2",
+                "sqrt", "inversesqrt", "normalize", "radians", "degrees", "dFdx", "dFdy", "fwidth"].forEach((f) => { table[f] = same(1); });
+            return table;
+        })();
+
+        private Binary(op: string, other: ShaderValue, type: ShaderType): ShaderNode {
+            const b = ShaderNode.Component(other);
+            if (this.Kind === "literal" && b.Kind === "literal" && this.Type === "float" && b.Type === "float") {
+                switch (op) {
+                    case "+": return ShaderNode.Float(this.Value + b.Value);
+                    case "-": return ShaderNode.Float(this.Value - b.Value);
+                    case "*": return ShaderNode.Float(this.Value * b.Value);
+                    case "/": if (b.Value !== 0) return ShaderNode.Float(this.Value / b.Value);
+                }
+            }
+            return new ShaderNode("binary", type, op, [this, b]);
+        }
+        private Arithmetic(op: string, other: ShaderValue): ShaderNode {
+            const b = ShaderNode.Component(other);
+            return this.Binary(op, b, ShaderNode.ArithmeticType(op, this.Type, b.Type));
+        }
+        private Compare(op: string, other: ShaderValue): ShaderNode {
+            const b = ShaderNode.Component(other);
+            const ordered = op !== "==" && op !== "!=";
+            if (this.Type !== b.Type || (ordered && this.Type !== "float" && this.Type !== "int")) {
+                throw new Error("ShaderBuilder: invalid comparison " + this.Type + " " + op + " " + b.Type);
+            }
+            return this.Binary(op, b, "bool");
+        }
+        private Logic(op: string, other: ShaderNode): ShaderNode {
+            if (this.Type !== "bool" || other.Type !== "bool") {
+                throw new Error("ShaderBuilder: invalid operation " + this.Type + " " + op + " " + other.Type);
+            }
+            return this.Binary(op, other, "bool");
+        }
+
+        Add(other: ShaderValue): ShaderNode { return this.Arithmetic("+", other); }
+        Sub(other: ShaderValue): ShaderNode { return this.Arithmetic("-", other); }
+        Mul(other: ShaderValue): ShaderNode { return this.Arithmetic("*", other); }
+        Div(other: ShaderValue): ShaderNode { return this.Arithmetic("/", other); }
+        Lt(other: ShaderValue): ShaderNode { return this.Compare("<", other); }
+        Gt(other: ShaderValue): ShaderNode { return this.Compare(">", other); }
+        Le(other: ShaderValue): ShaderNode { return this.Compare("<=", other); }
+        Ge(other: ShaderValue): ShaderNode { return this.Compare(">=", other); }
+        Eq(other: ShaderValue): ShaderNode { return this.Compare("==", other); }
+        Ne(other: ShaderValue): ShaderNode { return this.Compare("!=", other); }
+        And(other: ShaderNode): ShaderNode { return this.Logic("&&", other); }
+        Or(other: ShaderNode): ShaderNode { return this.Logic("||", other); }
+
+        Neg(): ShaderNode {
+            if (!ShaderNode.IsNumeric(this.Type)) {
+                throw new Error("ShaderBuilder: invalid operation -" + this.Type);
+            }
+            return this.Kind === "literal" ? ShaderNode.Float(-this.Value) : new ShaderNode("unary", this.Type, "-", [this]);
+        }
+        Not(): ShaderNode {
+            if (this.Type !== "bool") {
+                throw new Error("ShaderBuilder: invalid operation !" + this.Type);
+            }
+            return new ShaderNode("unary", "bool", "!", [this]);
+        }
+
+        Swizzle(fields: string): ShaderNode {
+            const size = this.Type.indexOf("vec") === 0 ? ShaderNode.Size(this.Type) : 0;
+            const sets = ["xyzw", "rgba", "stpq"];
+            const set = sets.filter((s) => s.indexOf(fields[0]) !== -1)[0];
+            if (size === 0 || !set || fields.length > 4 || fields.split("").some((f) => set.indexOf(f) === -1 || set.indexOf(f) >= size)) {
+                throw new Error("ShaderBuilder: invalid swizzle " + this.Type + "." + fields);
+            }
+            return new ShaderNode("swizzle", ShaderNode.Vector(fields.length), fields, [this]);
+        }
+        get X(): ShaderNode { return this.Swizzle("x"); }
+        get Y(): ShaderNode { return this.Swizzle("y"); }
+        get Z(): ShaderNode { return this.Swizzle("z"); }
+        get W(): ShaderNode { return this.Swizzle("w"); }
+
+        Index(index: number): ShaderNode {
+            let type: ShaderType;
+            if (this.Type === "mat4" && index < 4) type = "vec4";
+            else if (this.Type === "mat3" && index < 3) type = "vec3";
+            else if (this.Type.indexOf("vec") === 0 && index < ShaderNode.Size(this.Type)) type = "float";
+            else throw new Error("ShaderBuilder: invalid index " + this.Type + "[" + index + "]");
+            return new ShaderNode("index", type, "", [this], index);
+        }
+
+        /**
+         * true if the expression may read the variable
+         */
+        Reads(name: string): boolean {
+            if (this.Kind === "ref") {
+                return this.Name === name;
+            }
+            if (this.Kind === "raw") {
+                return new RegExp("(^|[^\\w.])" + name + "($|\\W)").test(this.Name);
+            }
+            return this.Args.some((a) => a.Reads(name));
+        }
+    }
+
+    export type ShaderStatementKind = "declare" | "assign" | "if" | "raw" | "discard";
+
+    export class ShaderStatement {
+        Kind: ShaderStatementKind;
+        Name: string;
+        Type: ShaderType;
+        Operator: string;
+        Target: ShaderNode | null;
+        Value: ShaderNode | null;
+        Then: ShaderStatement[];
+        Else: ShaderStatement[];
+
+        constructor(kind: ShaderStatementKind, name: string = "", value: ShaderNode | null = null) {
+            this.Kind = kind;
+            this.Name = name;
+            this.Value = value;
+            this.Type = value ? value.Type : "float";
+            this.Operator = "=";
+            this.Target = null;
+            this.Then = [];
+            this.Else = [];
+        }
+    }
+
+    /**
+     * Statement list of a builder method. Declare() names the values and reuses an identical value already declared in the block,
+     * the names come from Shader.Name() so they are readable and the same on each build.
+     */
+    export class ShaderBlock {
+        Statements: ShaderStatement[] = [];
+        Assigned: string[] = [];
+        private declared: { [key: string]: ShaderNode } = {};
+
+        constructor(parent?: ShaderBlock) {
+            if (parent) {
+                for (const key in parent.declared) {
+                    if (parent.declared.hasOwnProperty(key)) {
+                        this.declared[key] = parent.declared[key];
+                    }
+                }
+            }
+        }
+
+        /**
+         * declares a value not assigned later, an identical value of the block is reused
+         */
+        Declare(hint: string, value: ShaderValue, type: ShaderType = "float"): ShaderNode {
+            const node = ShaderNode.From(value, value instanceof ShaderNode ? value.Type : type);
+            if (node.Kind === "ref" || node.Kind === "literal") {
+                return node;
+            }
+            const key = node.Type + " " + GlslPrinter.Expression(node);
+            if (this.declared[key]) {
+                return this.declared[key];
+            }
+            const ref = this.Variable(hint, node);
+            this.declared[key] = ref;
+            return ref;
+        }
+
+        /**
+         * declares a variable, with a generated name from the hint if name is not given
+         */
+        Variable(hint: string, value: ShaderValue, name?: string): ShaderNode {
+            const node = ShaderNode.Component(value);
+            const statement = new ShaderStatement("declare", name || Shader.Name(hint), node);
+            this.Statements.push(statement);
+            return ShaderNode.Ref(node.Type, statement.Name);
+        }
+
+        Assign(target: ShaderNode, value: ShaderValue, op: string = "="): ShaderBlock {
+            const node = ShaderNode.From(value, op === "=" ? target.Type : (value instanceof ShaderNode ? value.Type : "float"));
+            let root = target;
+            while (root.Kind === "swizzle" || root.Kind === "index") {
+                root = root.Args[0];
+            }
+            if (root.Kind !== "ref") {
+                throw new Error("ShaderBuilder: cannot assign to " + GlslPrinter.Expression(target));
+            }
+            if (op !== "=" && ShaderNode.ArithmeticType(op[0], target.Type, node.Type) !== target.Type) {
+                throw new Error("ShaderBuilder: invalid assignment " + target.Type + " " + op + " " + node.Type);
+            }
+            const statement = new ShaderStatement("assign", root.Name, node);
+            statement.Target = target;
+            statement.Operator = op;
+            this.Statements.push(statement);
+            this.Invalidate(root.Name);
+            return this;
+        }
+
+        If(condition: ShaderNode, then: (block: ShaderBlock) => void, otherwise?: (block: ShaderBlock) => void): ShaderBlock {
+            if (condition.Type !== "bool") {
+                throw new Error("ShaderBuilder: bool condition expected, got " + condition.Type);
+            }
+            const statement = new ShaderStatement("if", "", condition);
+            const thenBlock = new ShaderBlock(this);
+            then(thenBlock);
+            statement.Then = thenBlock.Statements;
+            const assigned = thenBlock.Assigned.slice();
+            if (otherwise) {
+                const elseBlock = new ShaderBlock(this);
+                otherwise(elseBlock);
+                statement.Else = elseBlock.Statements;
+                assigned.push(...elseBlock.Assigned);
+            }
+            this.Statements.push(statement);
+            assigned.forEach((name) => this.Invalidate(name));
+            return this;
+        }
+
+        /**
+         * GLSL statements given by the user, the values declared before are not reused after them
+         */
+        Raw(code: string): ShaderBlock {
+            if (code) {
+                this.Statements.push(new ShaderStatement("raw", code));
+                this.Invalidate("*");
+            }
+            return this;
+        }
+
+        Discard(): ShaderBlock {
+            this.Statements.push(new ShaderStatement("discard"));
+            return this;
+        }
+
+        private Invalidate(name: string) {
+            this.Assigned.push(name);
+            for (const key in this.declared) {
+                if (this.declared.hasOwnProperty(key)) {
+                    const ref = this.declared[key];
+                    if (name === "*" || ref.Name === name || key.substr(key.indexOf(" ") + 1).match(new RegExp("(^|[^\\w.])" + name + "($|\\W)"))) {
+                        delete this.declared[key];
+                    }
+                }
+            }
+        }
+    }
+
+    /**
+     * prints nodes and statements as GLSL ES 1.0
+     */
+    export class GlslPrinter {
+        static Precedence(node: ShaderNode): number {
+            switch (node.Kind) {
+                case "select": return 1;
+                case "binary":
+                    switch (node.Name) {
+                        case "||": return 2;
+                        case "&&": return 3;
+                        case "==": case "!=": return 4;
+                        case "<": case ">": case "<=": case ">=": return 5;
+                        case "+": case "-": return 6;
+                    }
+                    return 7;
+                case "unary": return 8;
+                case "literal": return node.Value < 0 ? 8 : 10;
+                case "raw": return new RegExp("^[\\w.]+$").test(node.Name) ? 10 : 0;
+            }
+            return 9;
+        }
+
+        static Expression(node: ShaderNode, parent: number = 0): string {
+            let code: string;
+            const p = GlslPrinter.Precedence(node);
+            switch (node.Kind) {
+                case "literal": code = node.Type === "float" ? Shader.Print(node.Value) : node.Name; break;
+                case "ref": case "raw": code = node.Name; break;
+                case "binary": code = GlslPrinter.Expression(node.Args[0], p) + " " + node.Name + " " + GlslPrinter.Expression(node.Args[1], p + 1); break;
+                case "unary": code = node.Name + GlslPrinter.Expression(node.Args[0], p + 1); break;
+                case "call": code = node.Name + "(" + node.Args.map((a) => GlslPrinter.Expression(a)).join(", ") + ")"; break;
+                case "swizzle": code = GlslPrinter.Expression(node.Args[0], p) + "." + node.Name; break;
+                case "index": code = GlslPrinter.Expression(node.Args[0], p) + "[" + node.Value + "]"; break;
+                default: code = GlslPrinter.Expression(node.Args[0], p + 1) + " ? " + GlslPrinter.Expression(node.Args[1], p + 1) + " : " + GlslPrinter.Expression(node.Args[2], p); break;
+            }
+            return p < parent ? "(" + code + ")" : code;
+        }
+
+        static Statements(statements: ShaderStatement[], indent: string = ""): string {
+            return statements.map((s) => {
+                switch (s.Kind) {
+                    case "declare": return indent + s.Type + " " + s.Name + " = " + GlslPrinter.Expression(s.Value!) + ";\n";
+                    case "assign": return indent + GlslPrinter.Expression(s.Target!) + " " + s.Operator + " " + GlslPrinter.Expression(s.Value!) + ";\n";
+                    case "raw": return indent + s.Name + "\n";
+                    case "discard": return indent + "discard;\n";
+                }
+                return indent + "if (" + GlslPrinter.Expression(s.Value!) + ") {\n" + GlslPrinter.Statements(s.Then, indent + "    ") + indent + "}" +
+                    (s.Else.length ? " else {\n" + GlslPrinter.Statements(s.Else, indent + "    ") + indent + "}" : "") + "\n";
+            }).join("");
+        }
+    }
+
+    /**
+     * prints nodes and statements as WGSL. Uniforms are read from the uniform buffer, each texture has its sampler beside it,
+     * raw GLSL given by the user is translated when it stays in the common subset (no ternary, loops or functions)
+     */
+    export class WgslPrinter {
+        static Types: { [glsl: string]: string } = {
+            float: "f32", int: "i32", bool: "bool", vec2: "vec2<f32>", vec3: "vec3<f32>", vec4: "vec4<f32>",
+            ivec2: "vec2<i32>", ivec3: "vec3<i32>", ivec4: "vec4<i32>", mat3: "mat3x3<f32>", mat4: "mat4x4<f32>",
+            sampler2D: "texture_2d<f32>", samplerCube: "texture_cube<f32>"
+        };
+        static Functions: { [glsl: string]: string } = { inversesqrt: "inverseSqrt", dFdx: "dpdx", dFdy: "dpdy" };
+        static Builtins: { [glsl: string]: string } = { gl_FrontFacing: "front_facing", gl_FragCoord: "frag_coord", gl_Position: "clip_position" };
+
+        /**
+         * same text for a body and for the raw statement holding it, so Build() results can be found again
+         */
+        static Key(code: string): string {
+            return code.replace(/[\s;]+$/, "").trim();
+        }
+
+        static Tokens(code: string): string[] {
+            const tokens = code.match(/\/\/[^\n]*|\/\*[\s\S]*?\*\/|\d*\.\d+(?:[eE][+-]?\d+)?|\d+\.?(?:[eE][+-]?\d+)?|[A-Za-z_]\w*|&&|\|\||\+\+|--|[-+*\/<>=!]=|\S/g) || [];
+            return tokens.filter((t) => t.indexOf("//") !== 0 && t.indexOf("/*") !== 0);
+        }
+
+        Vertex: boolean;
+        Uniforms: string[];
+
+        constructor(vertex: boolean, uniforms: string[]) {
+            this.Vertex = vertex;
+            this.Uniforms = uniforms;
+        }
+
+        Type(type: string): string {
+            if (!WgslPrinter.Types[type]) {
+                throw new Error("ShaderBuilder: no WGSL type for " + type);
+            }
+            return WgslPrinter.Types[type];
+        }
+
+        Name(name: string): string {
+            if (this.Uniforms.indexOf(name) !== -1) return "uniforms." + name;
+            return WgslPrinter.Builtins[name] || name;
+        }
+
+        Sample(sampler: string, args: string[]): string {
+            if (!/^\w+$/.test(sampler)) {
+                throw new Error("ShaderBuilder: WGSL needs a texture name, got " + sampler);
+            }
+            const coords = sampler + ", " + sampler + "Sampler, " + args[0];
+            if (this.Vertex) return "textureSampleLevel(" + coords + ", 0.)";
+            return args.length > 1 ? "textureSampleBias(" + coords + ", " + args[1] + ")" : "textureSample(" + coords + ")";
+        }
+
+        Call(name: string, args: string[]): string {
+            switch (name) {
+                case "texture2D": case "textureCube": case "texture": return this.Sample(args[0], args.slice(1));
+                case "mod": return "((" + args[0] + ") - (" + args[1] + ") * floor((" + args[0] + ") / (" + args[1] + ")))";
+                case "atan": if (args.length === 2) return "atan2(" + args.join(", ") + ")";
+            }
+            return (WgslPrinter.Types[name] || WgslPrinter.Functions[name] || name) + "(" + args.join(", ") + ")";
+        }
+
+        Expression(node: ShaderNode, parent: number = 0): string {
+            let code: string;
+            const p = GlslPrinter.Precedence(node);
+            switch (node.Kind) {
+                case "literal": code = node.Type === "float" ? Shader.Print(node.Value) : node.Name; break;
+                case "ref": code = this.Name(node.Name); break;
+                case "raw": code = this.RawExpression(node.Name); break;
+                case "binary": code = this.Expression(node.Args[0], p) + " " + node.Name + " " + this.Expression(node.Args[1], p + 1); break;
+                case "unary": code = node.Name + this.Expression(node.Args[0], p + 1); break;
+                case "call": code = this.CallNode(node); break;
+                case "swizzle": code = this.Expression(node.Args[0], p) + "." + node.Name.replace(/[stpq]/g, (c) => "xyzw"["stpq".indexOf(c)]); break;
+                case "index": code = this.Expression(node.Args[0], p) + "[" + node.Value + "]"; break;
+                default: code = "select(" + this.Expression(node.Args[2]) + ", " + this.Expression(node.Args[1]) + ", " + this.Expression(node.Args[0]) + ")"; break;
+            }
+            return p < parent ? "(" + code + ")" : code;
+        }
+
+        private CallNode(node: ShaderNode): string {
+            const size = ShaderNode.Size(node.Name as ShaderType);
+            const arg = node.Args[0];
+            if (size > 0 && node.Args.length === 1 && arg.Type.indexOf("mat") === -1 && ShaderNode.Size(arg.Type) > size) {
+                // GLSL drops the extra components in a constructor, WGSL needs a swizzle
+                return this.Expression(arg, 9) + "." + "xyzw".substr(0, size);
+            }
+            if (size > 1 && node.Name.indexOf("mat") === 0 && node.Args.length === 1 && arg.Type.indexOf("mat") === 0 && arg.Type !== node.Name) {
+                throw new Error("ShaderBuilder: WGSL has no " + node.Name + "(" + arg.Type + ") conversion");
+            }
+            const splat = ["clamp", "min", "max", "step", "smoothstep"].indexOf(node.Name) !== -1 && node.Type !== "float";
+            const args = node.Args.map((a) => splat && a.Type === "float" ? this.Type(node.Type) + "(" + this.Expression(a) + ")" : this.Expression(a));
+            if (node.Name === "texture2D" || node.Name === "textureCube") {
+                args[0] = arg.Name;
+            }
+            return this.Call(node.Name, args);
+        }
+
+        Statements(statements: ShaderStatement[], indent: string = ""): string {
+            return statements.map((s) => {
+                switch (s.Kind) {
+                    case "declare": return indent + "var " + s.Name + ": " + this.Type(s.Type) + " = " + this.Expression(s.Value!) + ";\n";
+                    case "assign":
+                        if (s.Target!.Kind === "swizzle" && s.Target!.Name.length > 1) {
+                            throw new Error("ShaderBuilder: WGSL cannot assign to " + GlslPrinter.Expression(s.Target!));
+                        }
+                        return indent + this.Expression(s.Target!) + " " + s.Operator + " " + this.Expression(s.Value!) + ";\n";
+                    case "raw": {
+                        const block = Shader.Blocks[WgslPrinter.Key(s.Name)];
+                        return block ? this.Statements(block, indent) : this.Raw(s.Name, indent);
+                    }
+                    case "discard": return indent + "discard;\n";
+                }
+                return indent + "if (" + this.Expression(s.Value!) + ") {\n" + this.Statements(s.Then, indent + "    ") + indent + "}" +
+                    (s.Else.length ? " else {\n" + this.Statements(s.Else, indent + "    ") + indent + "}" : "") + "\n";
+            }).join("");
+        }
+
+        RawExpression(code: string): string {
+            return this.TokenExpression(WgslPrinter.Tokens(code));
+        }
+
+        /**
+         * translates GLSL statements: declarations, assignments, calls, if/else and discard
+         */
+        Raw(code: string, indent: string = ""): string {
+            const t = WgslPrinter.Tokens(code);
+            let i = 0;
+            const until = (stops: string[]) => {
+                const start = i;
+                let depth = 0;
+                while (i < t.length && (depth > 0 || stops.indexOf(t[i]) === -1)) {
+                    if (t[i] === "(" || t[i] === "[") depth++;
+                    if (t[i] === ")" || t[i] === "]") depth--;
+                    i++;
+                }
+                return t.slice(start, i);
+            };
+            const statement = (pad: string): string => {
+                const token = t[i];
+                if (token === ";") {
+                    i++;
+                    return "";
+                }
+                if (token === "{") {
+                    return pad + "{\n" + block(pad + "    ") + pad + "}\n";
+                }
+                if (token === "if") {
+                    i += 2;
+                    const condition = this.TokenExpression(until([")"]));
+                    i++;
+                    let s = pad + "if (" + condition + ") {\n" + block(pad + "    ") + pad + "}";
+                    if (t[i] === "else") {
+                        i++;
+                        s += " else {\n" + block(pad + "    ") + pad + "}";
+                    }
+                    return s + "\n";
+                }
+                if (token === "for" || token === "while" || token === "?" || token === "}") {
+                    throw new Error("ShaderBuilder: no WGSL translation for '" + token + "' in " + code);
+                }
+                let qualifier = "var";
+                while (["const", "highp", "mediump", "lowp"].indexOf(t[i]) !== -1) {
+                    if (t[i] === "const") qualifier = "const";
+                    i++;
+                }
+                if (WgslPrinter.Types[t[i]] && /^[A-Za-z_]/.test(t[i + 1] || "") && t[i + 2] !== "(") {
+                    const type = WgslPrinter.Types[t[i++]];
+                    let s = "";
+                    while (i < t.length) {
+                        const name = t[i++];
+                        let value = "";
+                        if (t[i] === "=") {
+                            i++;
+                            value = " = " + this.TokenExpression(until([",", ";"]));
+                        }
+                        s += pad + qualifier + " " + name + ": " + type + value + ";\n";
+                        if (t[i++] !== ",") break;
+                    }
+                    return s;
+                }
+                const expression = until([";"]);
+                i++;
+                return pad + this.TokenExpression(expression) + ";\n";
+            };
+            const block = (pad: string): string => {
+                if (t[i] !== "{") {
+                    return statement(pad);
+                }
+                i++;
+                let s = "";
+                while (i < t.length && t[i] !== "}") {
+                    s += statement(pad);
+                }
+                i++;
+                return s;
+            };
+
+            let result = "";
+            while (i < t.length) {
+                result += statement(indent);
+            }
+            return result;
+        }
+
+        private TokenExpression(t: string[]): string {
+            const out: string[] = [];
+            for (let i = 0; i < t.length; i++) {
+                const token = t[i];
+                if (token === "?") {
+                    throw new Error("ShaderBuilder: no WGSL translation for '?:' in " + t.join(" "));
+                }
+                if (/^[A-Za-z_]/.test(token) && t[i + 1] === "(") {
+                    const args: string[] = [];
+                    let depth = 0;
+                    let start = i + 2;
+                    let j = i + 1;
+                    for (; j < t.length; j++) {
+                        if (t[j] === "(" || t[j] === "[") depth++;
+                        if (t[j] === ")" || t[j] === "]") depth--;
+                        if ((depth === 1 && t[j] === ",") || depth === 0) {
+                            if (j > start) args.push(this.TokenExpression(t.slice(start, j)));
+                            start = j + 1;
+                        }
+                        if (depth === 0) break;
+                    }
+                    out.push(this.Call(token, args));
+                    i = j;
+                } else if (/^[A-Za-z_]/.test(token) && t[i - 1] !== ".") {
+                    out.push(this.Name(token));
+                } else {
+                    out.push(token);
+                }
+            }
+            let code = "";
+            out.forEach((s, k) => {
+                const prev = out[k - 1];
+                const tight = k === 0 || [".", ",", ")", "]", "["].indexOf(s) !== -1 || prev === "." || prev === "(" || prev === "[" ||
+                    ((prev === "-" || prev === "!") && !/[\w.)\]]$/.test(out[k - 2] || "("));
+                code += (tight ? "" : " ") + s;
+            });
+            return code;
+        }
+    }
+
     export function Helper(): ShaderBuilder {
         const setting = Shader.Me.Setting;
         const instance = new ShaderBuilder();
@@ -356,6 +1317,8 @@ export module BABYLONX {
         Time?: boolean;
         GlobalTime?: boolean;
         ReflectMatrix?: boolean;
+        Lights?: number;
+        Shadows?: boolean;
 
         Helpers?: boolean;
 
@@ -371,9 +1334,12 @@ export module BABYLONX {
         Fragment: string[];
         Helpers: string[];
         Uniforms: string[];
+        Samplers: string[];
         Varings: string[];
         Vertex: string[];
         CustomIndexer: number;
+        Statements: ShaderStatement[];
+        VertexStatements: ShaderStatement[];
 
         Parent?: ShaderBuilder;
 
@@ -399,8 +1365,11 @@ export module BABYLONX {
             this.Fragment = [];
             this.Helpers = [];
             this.Uniforms = [];
+            this.Samplers = [];
             this.Varings = [];
             this.Vertex = [];
+            this.Statements = [];
+            this.VertexStatements = [];
 
             this.Setting.Uv = true;
             this.Setting.Time = true;
@@ -415,16 +1384,17 @@ export module BABYLONX {
             this.CustomIndexer = 1;
             Shader.Me = this;
         }
-        static InitializeEngine() {
-            eval(Shader.Replace(Shader.Replace("BABYLONX.ShaderMaterialHelper.prototype.MakeShaderMaterialForEngine=function(name,scene,shader,helpers){BABYLON.Effect.ShadersStore[name+#[QT]VertexShader#[QT]]=shader.Vertex;BABYLON.Effect.ShadersStore[name+#[QT]PixelShader#[QT]]=shader.Pixel;return new BABYLON.ShaderMaterial(name,scene,{vertex:name,fragment:name},helpers);}", "#[QT]", '"'), "#[T]", "'"));
-            eval(Shader.Replace(Shader.Replace("BABYLONX.ShaderMaterialHelper.prototype.DefineTexture = function (option, sc) { var tx = new BABYLON.Texture(option, sc); return tx; } ", "#[QT]", '"'), "#[T]", "'"));
-            eval(Shader.Replace(Shader.Replace("BABYLONX.ShaderMaterialHelper.prototype.DefineCubeTexture = function (option, sc) { var tx = new BABYLON.CubeTexture(option, sc); tx.coordinatesMode = BABYLON.Texture.PLANAR_MODE; return tx; }  ", "#[QT]", '"'), "#[T]", "'"));
-            eval(Shader.Replace(Shader.Replace("BABYLONX.ShaderMaterialHelper.prototype.SetUniforms = function (meshes, cameraPos, cameraTarget, mouse, screen, time) { for (var ms in meshes) { ms = meshes[ms]; if (ms.material && (ms.material.ShaderSetting != null || ms.material.ShaderSetting != undefined)) { if (ms.material.ShaderSetting.Camera)                ms.material.setVector3(BABYLONX.ShaderMaterialHelperStatics.Camera, cameraPos); if (ms.material.ShaderSetting.Center)                ms.material.setVector3(BABYLONX.ShaderMaterialHelperStatics.Center, { x: 0., y: 0., z: 0. }); if (ms.material.ShaderSetting.Mouse)                ms.material.setVector2(BABYLONX.ShaderMaterialHelperStatics.Mouse, mouse); if (ms.material.ShaderSetting.Screen)                ms.material.setVector2(BABYLONX.ShaderMaterialHelperStatics.Screen, screen); if (ms.material.ShaderSetting.GlobalTime)                ms.material.setVector4(BABYLONX.ShaderMaterialHelperStatics.GlobalTime, { x: 0., y: 0., z: 0., w: 0. }); if (ms.material.ShaderSetting.Look)                ms.material.setVector3(BABYLONX.ShaderMaterialHelperStatics.Look, cameraTarget); if (ms.material.ShaderSetting.Time)                ms.material.setFloat(BABYLONX.ShaderMaterialHelperStatics.Time, time);        }        }    }", "#[QT]", '"'), "#[T]", "'"));
-            eval(Shader.Replace(Shader.Replace("BABYLONX.ShaderMaterialHelper.prototype.ShaderPostProcess = function (name, samplers, camera, scale, shader, helpers, option) {if (!option) option = {};if (!option.samplingMode) option.samplingMode = BABYLON.Texture.BILINEAR_SAMPLINGMODE;BABYLON.Effect.ShadersStore[name + #[QT]PixelShader#[QT]] = shader.Pixel;var pps = new BABYLON.PostProcess(name, name, helpers.uniforms, samplers, scale, camera, option.samplingMode);pps.onApply = function (effect) {effect.setFloat(#[T]time#[T], time);effect.setVector2(#[QT]screen#[QT], { x: pps.width, y: pps.height });effect.setVector3(#[QT]camera#[QT], camera.position);if (option && option.onApply)option.onApply(effect);};return pps;} ", "#[QT]", '"'), "#[T]", "'"));
-            eval(Shader.Replace(Shader.Replace("BABYLONX.ShaderMaterialHelper.prototype.PostProcessTextures = function (pps, name, txt) {pps._effect.setTexture(name, txt);}", "#[QT]", '"'), "#[T]", "'"));
+        /**
+         * the helpers create Babylon objects through ShaderMaterialHelper.Engine, the imported @babylonjs/core by default;
+         * pass another engine (a test double, a different Babylon build) to replace it
+         */
+        static InitializeEngine(engine?: IShaderEngine) {
+            if (engine) {
+                ShaderMaterialHelper.Engine = engine;
+            }
         }
-        static ColorIdRenderTarget: any;
-        static InitializePostEffects(scene: any, scale: number) {
+        static ColorIdRenderTarget: RenderTargetTexture;
+        static InitializePostEffects(scene: Scene, scale: number) {
             ShaderBuilder.ColorIdRenderTarget = new ShaderMaterialHelper().DefineRenderTarget("ColorId", scale, scene);
         }
 
@@ -589,6 +1559,12 @@ export module BABYLONX {
                 this.Vertex.push("uniform  mat4 " + ShaderMaterialHelperStatics.ReflectMatrix + ";");
                 this.Fragment.push("uniform  mat4 " + ShaderMaterialHelperStatics.ReflectMatrix + ";");
             }
+            if (this.Setting.Lights) {
+                for (const [name, type] of ShaderBuilder.LightUniforms(this.Setting.Lights, !!this.Setting.Shadows)) {
+                    (type === "sampler2D" ? this.Samplers : this.Uniforms).push(name);
+                    this.Fragment.push("uniform  " + type + " " + name + ";");
+                }
+            }
             if (this.Setting.Helpers) {
                 const sresult = Shader.Join([
                     "vec3 random3(vec3 c) {   float j = 4096.0*sin(dot(c,vec3(17.0, 59.4, 15.0)));   vec3 r;   r.z = fract(512.0*j); j *= .125;  r.x = fract(512.0*j); j *= .125; r.y = fract(512.0*j);  return r-0.5;  } ",
@@ -715,7 +1691,7 @@ void main(void) { \n\
 }");
         }
 
-        PrepareMaterial(material: any, scene: any): BABYLON.Material {
+        PrepareMaterial(material: any, scene: any): Material {
             material.ShaderSetting = this.Setting;
 
             if (!this.Setting.Transparency) {
@@ -793,19 +1769,27 @@ void main(void) { \n\
                 }
             }
 
-            delete Shader.Me;
+            if (this.Setting.Lights) {
+                const count = this.Setting.Lights;
+                const shadows = !!this.Setting.Shadows;
+                material.onBindObservable.add(() => new ShaderMaterialHelper().BindLights(material.getEffect(), scene, count, shadows));
+            }
+
+            Shader.Me = undefined!;
             return material;
         }
 
         Build(): string {
             Shader.Me.Parent!.Setting = Shader.Me.Setting;
             Shader.Me = Shader.Me.Parent!;
+            Shader.Blocks[WgslPrinter.Key(this.Body)] = this.Statements;
             return this.Body;
         }
 
         BuildVertex(): string {
             Shader.Me.Parent!.Setting = Shader.Me.Setting;
             Shader.Me = Shader.Me.Parent!;
+            Shader.Blocks[WgslPrinter.Key(this.VertexBody)] = this.VertexStatements;
             return this.VertexBody;
         }
 
@@ -819,29 +1803,61 @@ void main(void) { \n\
             return this;
         }
 
-        BuildMaterial(scene: BABYLON.Scene): BABYLON.Material {
+        /**
+         * the vertex and pixel GLSL once the frame is prepared
+         */
+        Sources(): IShaderStruct {
+            return {
+                Pixel: Shader.Join(this.Fragment)
+                    .replace("#[Source]", this.Body),
+                Vertex: Shader.Join(this.Vertex)
+                    .replace("#[Source]", Shader.Def(this.VertexBody, ""))
+                    .replace("#[AfterFinishVertex]", Shader.Def(this.AfterVertex, ""))
+            };
+        }
+
+        /**
+         * GLSL of the material, or of the post process, without creating any Babylon object: no WebGL context or scene
+         * is needed, so Node tools can validate and compare what a chain produces. Ends the chain like BuildMaterial.
+         */
+        BuildShaders(postProcess: boolean = false): IShaderStruct {
+            if (postProcess) {
+                this.Setting.Screen = true;
+                this.Setting.Mouse = true;
+                this.Setting.Time = true;
+                this.Setting.CameraShot = true;
+                this.PrepareBeforePostProcessBuild();
+            } else {
+                this.PrepareBeforeMaterialBuild();
+            }
+            const sources = this.Sources();
+            Shader.Indexer = 1;
+            Shader.Names = {};
+            Shader.Blocks = {};
+            Shader.Me = undefined!;
+            return sources;
+        }
+
+        BuildMaterial(scene: Scene): Material {
             this.PrepareBeforeMaterialBuild();
 
             if (Shader.ShaderIdentity == null/*or undefined*/) Shader.ShaderIdentity = 0;
             Shader.ShaderIdentity++;
 
             const shaderMaterial = new ShaderMaterialHelper().ShaderMaterial("ShaderBuilder_" + Shader.ShaderIdentity, scene,
-                {
-                    Pixel: Shader.Join(this.Fragment)
-                        .replace("#[Source]", this.Body),
-                    Vertex: Shader.Join(this.Vertex)
-                        .replace("#[Source]", Shader.Def(this.VertexBody, ""))
-                        .replace("#[AfterFinishVertex]", Shader.Def(this.AfterVertex, ""))
-                }, {
+                this.Sources(), {
                     uniforms: this.Uniforms,
-                    attributes: this.Attributes
+                    attributes: this.Attributes,
+                    samplers: this.Samplers
                 });
             Shader.Indexer = 1;
+            Shader.Names = {};
+            Shader.Blocks = {};
 
             return this.PrepareMaterial(shaderMaterial, scene);
         }
 
-        BuildPostProcess(camera: any, scene: any, scale: number, option: IPostProcess): BABYLON.PostProcess {
+        BuildPostProcess(camera: any, scene: any, scale: number, option: IPostProcess): PostProcess {
             this.Setting.Screen = true;
             this.Setting.Mouse = true;
             this.Setting.Time = true;
@@ -871,16 +1887,12 @@ void main(void) { \n\
             }
 
             const shaderPps = new ShaderMaterialHelper().ShaderPostProcess("ShaderBuilder_" + Shader.ShaderIdentity , samplers, camera, scale,
-                {
-                    Pixel: Shader.Join(this.Fragment)
-                        .replace("#[Source]", this.Body),
-                    Vertex: Shader.Join(this.Vertex)
-                        .replace("#[Source]", Shader.Def(this.VertexBody, ""))
-                        .replace("#[AfterFinishVertex]", Shader.Def(this.AfterVertex, ""))
-                }, {
+                this.Sources(), {
                     uniforms: this.Uniforms,
                     attributes: this.Attributes
                 }, option);
+            Shader.Names = {};
+            Shader.Blocks = {};
 
             if (this.Setting.Texture2Ds != null) {
                 for (const s in this.Setting.Texture2Ds) {
@@ -895,21 +1907,211 @@ void main(void) { \n\
             return shaderPps;
         }
 
+        static WgslHelpers = [
+            "fn random3(c: vec3<f32>) -> vec3<f32> { var j = 4096. * sin(dot(c, vec3<f32>(17., 59.4, 15.))); var r: vec3<f32>; r.z = fract(512. * j); j *= .125; r.x = fract(512. * j); j *= .125; r.y = fract(512. * j); return r - 0.5; }",
+            "fn rand(co: vec2<f32>) -> f32 { return fract(sin(dot(co, vec2<f32>(12.9898, 78.233))) * 43758.5453); }",
+            "const F3 = 0.3333333; const G3 = 0.1666667;",
+            "fn simplex3d(p: vec3<f32>) -> f32 { let s = floor(p + dot(p, vec3<f32>(F3))); let x = p - s + dot(s, vec3<f32>(G3)); let e = step(vec3<f32>(0.), x - x.yzx); let i1 = e * (1. - e.zxy); let i2 = 1. - e.zxy * (1. - e); let x1 = x - i1 + G3; let x2 = x - i2 + 2. * G3; let x3 = x - 1. + 3. * G3; var w = max(vec4<f32>(0.6) - vec4<f32>(dot(x, x), dot(x1, x1), dot(x2, x2), dot(x3, x3)), vec4<f32>(0.)); var d = vec4<f32>(dot(random3(s), x), dot(random3(s + i1), x1), dot(random3(s + i2), x2), dot(random3(s + 1.), x3)); w *= w; w *= w; d *= w; return dot(d, vec4<f32>(52.)); }",
+            "fn noise(m: vec3<f32>) -> f32 { return 0.5333333 * simplex3d(m) + 0.2666667 * simplex3d(2. * m) + 0.1333333 * simplex3d(4. * m) + 0.0666667 * simplex3d(8. * m); }",
+            "fn dim(p1: vec3<f32>, p2: vec3<f32>) -> f32 { return distance(p1, p2); }",
+            "fn rotate_xy(pr1: vec2<f32>, pr2: vec2<f32>, alpha: f32) -> vec2<f32> { let pp2 = pr2 - pr1; let a = alpha * 3.14159265 / 180.; return vec2<f32>(pr1.x + pp2.x * cos(a) - pp2.y * sin(a), pr1.y + pp2.x * sin(a) + pp2.y * cos(a)); }",
+            "fn r_y(n: vec3<f32>, a: f32, c: vec3<f32>) -> vec3<f32> { let p = rotate_xy(c.xz, n.xz, a); return vec3<f32>(p.x, n.y, p.y); }",
+            "fn r_x(n: vec3<f32>, a: f32, c: vec3<f32>) -> vec3<f32> { let p = rotate_xy(c.yz, n.yz, a); return vec3<f32>(n.x, p.x, p.y); }",
+            "fn r_z(n: vec3<f32>, a: f32, c: vec3<f32>) -> vec3<f32> { let p = rotate_xy(c.xy, n.xy, a); return vec3<f32>(p.x, p.y, n.z); }",
+            "fn getIdColor(a: vec4<f32>) -> f32 { let b = 255.; let c = 255. / b; let x = floor(a.x * 256. / c); let y = floor(a.y * 256. / c); let z = floor(a.z * 256. / c); return z * b * b + y * b + x; }"
+        ];
+
+        /**
+         * WGSL sources of the material in the dialect of Babylon's WGSL ShaderMaterial: uniform, attribute and varying declarations
+         * read through uniforms, vertexInputs and fragmentInputs. Babylon gathers the uniforms in one uniform buffer and binds
+         * each texture with its sampler. Ends the chain like BuildMaterial, BuildWgslMaterial makes the material.
+         */
+        BuildWgsl(): IWgslShader {
+            this.Setting = Shader.Me.Setting;
+            const setting = this.Setting;
+            const lines = (code: string[]) => code.filter((line) => line !== "").map((line) => line.replace(/\n$/, "")).join("\n");
+            if (this.FragmentBeforeMain) {
+                throw new Error("ShaderBuilder: FragmentBeforeMain has no WGSL translation");
+            }
+
+            const uniforms: Array<[string, string]> = [];
+            const textures: Array<[string, string]> = [];
+            const uniform = (name: string, type: string) => {
+                const list = type.indexOf("sampler") === 0 ? textures : uniforms;
+                if (!list.some((u) => u[0] === name)) list.push([name, type]);
+            };
+            uniform(ShaderMaterialHelperStatics.uniformWorldViewProjection, "mat4");
+            if (setting.VertexView || setting.FragmentView) uniform(ShaderMaterialHelperStatics.uniformView, "mat4");
+            if (setting.VertexWorld || setting.FragmentWorld) uniform(ShaderMaterialHelperStatics.uniformWorld, "mat4");
+            if (setting.VertexViewProjection || setting.FragmentViewProjection) uniform(ShaderMaterialHelperStatics.uniformViewProjection, "mat4");
+            if (setting.VertexWorldView || setting.FragmentWorldView) uniform(ShaderMaterialHelperStatics.uniformWorldView, "mat4");
+            if (setting.ReflectMatrix) uniform(ShaderMaterialHelperStatics.ReflectMatrix, "mat4");
+            if (setting.GlobalTime) uniform(ShaderMaterialHelperStatics.GlobalTime, "vec4");
+            if (setting.Center) uniform(ShaderMaterialHelperStatics.Center, "vec3");
+            if (setting.Camera) uniform(ShaderMaterialHelperStatics.Camera, "vec3");
+            if (setting.Look) uniform(ShaderMaterialHelperStatics.Look, "vec3");
+            if (setting.Mouse) uniform(ShaderMaterialHelperStatics.Mouse, "vec2");
+            if (setting.Screen) uniform(ShaderMaterialHelperStatics.Screen, "vec2");
+            if (setting.Time) uniform(ShaderMaterialHelperStatics.Time, "float");
+            if (setting.Flags) uniform(ShaderMaterialHelperStatics.uniformFlags, "float");
+            if (setting.Lights) {
+                for (const [name, type] of ShaderBuilder.LightUniforms(setting.Lights, !!setting.Shadows)) uniform(name, type);
+            }
+            const custom = new RegExp("uniform\\s+(\\w+)\\s+(\\w+)\\s*;", "g");
+            let match: RegExpExecArray | null;
+            while ((match = custom.exec((this.VertexUniforms || "") + (this.FragmentUniforms || "")))) {
+                uniform(match[2], match[1]);
+            }
+            if (setting.Texture2Ds) {
+                for (const s in setting.Texture2Ds) {
+                    if (setting.Texture2Ds.hasOwnProperty(s)) uniform(ShaderMaterialHelperStatics.Texture2D + s, "sampler2D");
+                }
+            }
+            if (setting.TextureCubes) {
+                for (const s in setting.TextureCubes) {
+                    if (setting.TextureCubes.hasOwnProperty(s)) uniform(ShaderMaterialHelperStatics.TextureCube + s, "samplerCube");
+                }
+            }
+
+            const names = uniforms.map((u) => u[0]);
+            const vertex = new WgslPrinter(true, names);
+            const fragment = new WgslPrinter(false, names);
+            const declarations = lines([
+                uniforms.map((u) => "uniform " + u[0] + " : " + vertex.Type(u[1]) + ";").join("\n"),
+                textures.map((t) => "var " + t[0] + "Sampler : sampler;\nvar " + t[0] + " : " + vertex.Type(t[1]) + ";").join("\n")
+            ]);
+
+            const attributes: Array<[string, string]> = [[ShaderMaterialHelperStatics.AttrPosition, ShaderMaterialHelperStatics.AttrTypeForPosition],
+                [ShaderMaterialHelperStatics.AttrNormal, ShaderMaterialHelperStatics.AttrTypeForNormal]];
+            const varyings: Array<[string, string]> = [[ShaderMaterialHelperStatics.Position, "vec3"], [ShaderMaterialHelperStatics.Normal, "vec3"]];
+            if (setting.Uv) {
+                attributes.push([ShaderMaterialHelperStatics.AttrUv, ShaderMaterialHelperStatics.AttrTypeForUv]);
+                varyings.push([ShaderMaterialHelperStatics.Uv, "vec2"]);
+            }
+            if (setting.Uv2) {
+                attributes.push([ShaderMaterialHelperStatics.AttrUv2, ShaderMaterialHelperStatics.AttrTypeForUv2]);
+                varyings.push([ShaderMaterialHelperStatics.Uv2, "vec2"]);
+            }
+            if (setting.WorldPosition) {
+                varyings.push([ShaderMaterialHelperStatics.WorldPosition, "vec3"], [ShaderMaterialHelperStatics.WorldNormal, "vec3"]);
+            }
+            // the varyings are also module variables: the builder statements read them by name in both stages
+            const frame = lines([
+                declarations,
+                varyings.map((v) => "varying " + v[0] + " : " + vertex.Type(v[1]) + ";").join("\n"),
+                varyings.map((v) => "var<private> " + v[0] + " : " + vertex.Type(v[1]) + ";").join("\n"),
+                setting.Helpers ? lines(ShaderBuilder.WgslHelpers) : ""
+            ]);
+
+            const copy = (from: string, to: string) => varyings.map((v) => "    " + to + v[0] + " = " + from + v[0] + ";").join("\n");
+
+            const vertexSource = lines([
+                attributes.map((a) => "attribute " + a[0] + " : " + vertex.Type(a[1]) + ";").join("\n"),
+                frame,
+                "@vertex",
+                "fn main(input : VertexInputs) -> FragmentInputs {",
+                "    " + ShaderMaterialHelperStatics.Position + " = vertexInputs." + ShaderMaterialHelperStatics.AttrPosition + ";",
+                "    " + ShaderMaterialHelperStatics.Normal + " = vertexInputs." + ShaderMaterialHelperStatics.AttrNormal + ";",
+                setting.Uv ? "    " + ShaderMaterialHelperStatics.Uv + " = vertexInputs." + ShaderMaterialHelperStatics.AttrUv + ";" : "",
+                setting.Uv2 ? "    " + ShaderMaterialHelperStatics.Uv2 + " = vertexInputs." + ShaderMaterialHelperStatics.AttrUv2 + ";" : "",
+                "    var result = vec4<f32>(" + ShaderMaterialHelperStatics.Position + ", 1.);",
+                vertex.Statements(this.VertexStatements, "    "),
+                "    var clip_position = uniforms." + ShaderMaterialHelperStatics.uniformWorldViewProjection + " * result;",
+                vertex.Raw(Shader.Def(this.AfterVertex, ""), "    "),
+                "    vertexOutputs.position = clip_position;",
+                copy("", "vertexOutputs."),
+                "}"
+            ]);
+
+            const pixelSource = lines([
+                frame,
+                "var<private> front_facing: bool;",
+                "var<private> frag_coord: vec4<f32>;",
+                setting.NormalMap ? lines([
+                    "fn normalMap() -> vec3<f32> {",
+                    "    var result = vec4<f32>(0.);",
+                    fragment.Raw(setting.NormalMap, "    "),
+                    "    result = vec4<f32>(normalize(" + fragment.RawExpression(Shader.Print(setting.Normal)) + " - (normalize(result.xyz) * 2. - vec3<f32>(1.)) * max(-0.5, min(0.5, " +
+                    fragment.RawExpression(Shader.Print(setting.NormalOpacity)) + "))), 1.);",
+                    "    return result.xyz;",
+                    "}"]) : "",
+                setting.SpecularMap ? lines([
+                    "fn specularMap() -> f32 {",
+                    "    var result = vec4<f32>(0.);",
+                    "    var float_result = 0.;",
+                    fragment.Raw(setting.SpecularMap, "    "),
+                    "    return float_result;",
+                    "}"]) : "",
+                "@fragment",
+                "fn main(input : FragmentInputs) -> FragmentOutputs {",
+                copy("fragmentInputs.", ""),
+                "    front_facing = fragmentInputs.frontFacing;",
+                "    frag_coord = fragmentInputs.position;",
+                "    var discardState = 0;",
+                "    var result = vec4<f32>(0.);",
+                fragment.Statements(this.Statements, "    "),
+                "    fragmentOutputs.color = result;",
+                "}"
+            ]);
+
+            Shader.Indexer = 1;
+            Shader.Names = {};
+            Shader.Blocks = {};
+            Shader.Me = undefined!;
+
+            return {
+                vertex: vertexSource,
+                pixel: pixelSource,
+                attributes: attributes.map((a) => a[0]),
+                uniforms: names,
+                samplers: textures.map((t) => t[0])
+            };
+        }
+        /**
+         * material of BuildWgsl for WebGPU engines, set up like BuildMaterial
+         */
+        BuildWgslMaterial(scene: Scene): Material {
+            const shader = this.BuildWgsl();
+
+            if (Shader.ShaderIdentity == null/*or undefined*/) Shader.ShaderIdentity = 0;
+            Shader.ShaderIdentity++;
+
+            const shaderMaterial = new ShaderMaterialHelper().WgslShaderMaterial("ShaderBuilder_" + Shader.ShaderIdentity, scene, shader);
+            return this.PrepareMaterial(shaderMaterial, scene);
+        }
+
+        /**
+         * appends the statements built by the callback to the fragment body, or to the vertex body
+         */
+        Emit(build: (block: ShaderBlock) => void, vertex: boolean = false): ShaderBuilder {
+            const block = new ShaderBlock();
+            build(block);
+            if (vertex) {
+                this.VertexBody = Shader.Def(this.VertexBody, "");
+                this.VertexBody += GlslPrinter.Statements(block.Statements);
+                this.VertexStatements.push(...block.Statements);
+            } else {
+                this.Body = Shader.Def(this.Body, "");
+                this.Body += GlslPrinter.Statements(block.Statements);
+                this.Statements.push(...block.Statements);
+            }
+            return this;
+        }
+
+        static Flag(index: number): ShaderNode {
+            const flags = ShaderNode.Ref("float", ShaderMaterialHelperStatics.uniformFlags);
+            return ShaderNode.Call("floor", ShaderNode.Call("mod", flags.Div(ShaderNode.Call("pow", 2, ShaderNode.From(index))), 2)).Eq(1);
+        }
+
         Event(index: number, mat: string): ShaderBuilder {
             Shader.Me.Setting.Flags = true;
-            Shader.Indexer++;
-            this.Body = Shader.Def(this.Body, "");
-            this.Body += "  if ( floor(mod( " + ShaderMaterialHelperStatics.uniformFlags + "/pow(2.," + Shader.Print(index) + "),2.)) == 1.) { " + mat + " } ";
-            return this;
+            return this.Emit((b) => b.If(ShaderBuilder.Flag(index), (t) => t.Raw(mat)));
         }
 
         EventVertex(index: number, mat: string): ShaderBuilder {
             Shader.Me.Setting.Flags = true;
             Shader.Me.Setting.Vertex = true;
-            Shader.Indexer++;
-            this.VertexBody = Shader.Def(this.VertexBody, "");
-            this.VertexBody += " if( floor(mod( " + ShaderMaterialHelperStatics.uniformFlags + "/pow(2.," + Shader.Print(index) + "),2.)) == 1. ){ " + mat + "}";
-            return this;
+            return this.Emit((b) => b.If(ShaderBuilder.Flag(index), (t) => t.Raw(mat)), true);
         }
 
         Transparency(): ShaderBuilder {
@@ -950,9 +2152,7 @@ void main(void) { \n\
         }
 
         VertexShader(mat: any): ShaderBuilder {
-            this.VertexBody = Shader.Def(this.VertexBody, "");
-            this.VertexBody += mat;
-            return this;
+            return this.Emit((b) => b.Raw(mat), true);
         }
 
         Solid(color: IColor): ShaderBuilder {
@@ -961,9 +2161,7 @@ void main(void) { \n\
             color.r = Shader.Def(color.r, 0.);
             color.g = Shader.Def(color.g, 0.);
             color.b = Shader.Def(color.b, 0.);
-            this.Body = Shader.Def(this.Body, "");
-            this.Body += " result = vec4(" + Shader.Print(color.r) + "," + Shader.Print(color.g) + "," + Shader.Print(color.b) + "," + Shader.Print(color.a) + ");";
-            return this;
+            return this.Emit((b) => b.Assign(ShaderBuilder.Result, ShaderNode.Vec4(color.r, color.g, color.b, color.a)));
         }
 
         GetMapIndex(key: string): any {
@@ -997,71 +2195,37 @@ void main(void) { \n\
         }
 
         Nut(value: string, option: INut): ShaderBuilder {
-            Shader.Indexer++;
             option = Shader.Def(option, {});
             option.frame = Shader.Def(option.frame, "sin(time*0.4)");
 
-            let sresult = Shader.Join([
-                "float nut#[Ind]= " + Shader.Print(value) + ";",
-                "float nut_ts#[Ind] = " + Shader.Print(option.frame) + ";",
-                this.Func((me: any) => {
-                    const f = [];
-                    for (let i = 0; i < option.bones.length; i++) {
-                        f.push("vec3 nut_p#[Ind]_" + i + " = " + option.bones[i].center + ";");
-                    }
-                    return Shader.Join(f);
-                }),
-                this.Func((me: any) => {
-                    const f = [];
-                    for (let i = 0; i < option.bones.length; i++) {
-                        f.push("if(nut#[Ind] " + option.bones[i].bet + "){ ");
-
+            return this.Emit((b) => {
+                const nut = b.Variable("nut", ShaderNode.From(value));
+                const ts = b.Declare("nutFrame", ShaderNode.From(option.frame!));
+                const pivots = option.bones.map((bone) => b.Variable("nutPivot", ShaderNode.From(bone.center, "vec3")));
+                const rotations: Array<[string, string]> = [["x", "r_x"], ["y", "r_y"], ["z", "r_z"]];
+                for (let i = 0; i < option.bones.length; i++) {
+                    const bone = option.bones[i];
+                    b.If(ShaderNode.Raw("bool", nut.Name + " " + bone.bet), (t) => {
                         for (let j = 0; j < option.array.length; j++) {
-                            if (option.bones[i].rotation.x !== null && option.bones[i].rotation.x !== undefined) {
-                                f.push(option.array[j] + " = r_x(" + option.array[j] +
-                                    ",nut_ts#[Ind]*" + Shader.Print(option.bones[i].rotation.x)
-                                    + ",nut_p#[Ind]_" + i + ");");
-                                for (let v = i + 1; v < option.bones.length; v++) {
-                                    f.push("nut_p#[Ind]_" + v + " = r_x(nut_p#[Ind]_" + v +
-                                        ",nut_ts#[Ind]*" + Shader.Print(option.bones[i].rotation.x)
-                                        + ",nut_p#[Ind]_" + i + ");");
-                                }
-                            }
-
-                            if (option.bones[i].rotation.y !== null && option.bones[i].rotation.y !== undefined) {
-                                f.push(option.array[j] + " = r_y(" + option.array[j] + ",nut_ts#[Ind]*" + Shader.Print(option.bones[i].rotation.y)
-                                    + ",nut_p#[Ind]_" + i + ");");
-                                for (let v = i + 1; v < option.bones.length; v++) {
-                                    f.push("nut_p#[Ind]_" + v + " = r_y(nut_p#[Ind]_" + v + ",nut_ts#[Ind]*" + Shader.Print(option.bones[i].rotation.y)
-                                        + ",nut_p#[Ind]_" + i + ");");
+                            const target = ShaderNode.Ref("vec3", option.array[j]);
+                            rotations.forEach(([axis, f]) => {
+                                const angle = (bone.rotation as any)[axis];
+                                if (angle !== null && angle !== undefined) {
+                                    const a = ts.Mul(ShaderNode.From(angle));
+                                    t.Assign(target, ShaderNode.Call(f, target, a, pivots[i]));
+                                    for (let v = i + 1; v < option.bones.length; v++) {
+                                        t.Assign(pivots[v], ShaderNode.Call(f, pivots[v], a, pivots[i]));
+                                    }
                                 }
-                            }
-
-                            if (option.bones[i].rotation.z !== null && option.bones[i].rotation.z !== undefined) {
-                                f.push(option.array[j] + " = r_z(" + option.array[j] + ",nut_ts#[Ind]*" + Shader.Print(option.bones[i].rotation.z)
-                                    + ",nut_p#[Ind]_" + i + ");");
-                                for (let v = i + 1; v < option.bones.length; v++) {
-                                    f.push("nut_p#[Ind]_" + v + " = r_z(nut_p#[Ind]_" + v + ",nut_ts#[Ind]*" + Shader.Print(option.bones[i].rotation.z)
-                                        + ",nut_p#[Ind]_" + i + ");");
-                                }
-                            }
+                            });
                         }
-                        f.push("}");
-                    }
-                    return Shader.Join(f);
-                })
-            ]);
-
-            sresult = Shader.Replace(sresult, "#[Ind]", Shader.Indexer.toString()) + " result = vec4(pos,1.);";
-
-            this.VertexBody = Shader.Def(this.VertexBody, "");
-            this.VertexBody += sresult;
-
-            return this;
+                    });
+                }
+                b.Assign(ShaderBuilder.Result, ShaderNode.Vec4(ShaderBuilder.Position, 1));
+            }, true);
         }
 
         Map(option: IMap): ShaderBuilder {
-            Shader.Indexer++;
             option = Shader.Def(option, { path: "/images/color.png" });
 
             let s = 0.;
@@ -1116,274 +2280,191 @@ void main(void) { \n\
 
             const frameLength = Math.min(option.animationFrameEnd! - option.animationFrameStart!, option.indexCount! * option.indexCount!);
 
-            let uv = Shader.Def(option.uv, ShaderMaterialHelperStatics.Uv);
-            if (option.uv === "planar") {
-                uv = ShaderMaterialHelperStatics.Position;
-            } else {
-                uv = "vec3(" + option.uv + ".x," + option.uv + ".y,0.)";
-            }
+            const uv = option.uv === "planar" ? ShaderBuilder.Position : ShaderNode.Vec3(ShaderNode.From(option.uv!, "vec2"), 0);
 
             option.scaleX /= option.indexCount!;
             option.scaleY /= option.indexCount!;
 
-            const rotate = ["vec3 centeri#[Ind] = " + ShaderMaterialHelperStatics.Center + ";",
-                "vec3 ppo#[Ind] = r_z( " + uv + "," + Shader.Print(option.rotation!.x) + ",centeri#[Ind]);  ",
-                " ppo#[Ind] = r_y( ppo#[Ind]," + Shader.Print(option.rotation!.y) + ",centeri#[Ind]);  ",
-                " ppo#[Ind] = r_x( ppo#[Ind]," + Shader.Print(option.rotation!.x) + ",centeri#[Ind]); ",
-                "vec3 nrm#[Ind] = r_z( " + option.normal + "," + Shader.Print(option.rotation!.x) + ",centeri#[Ind]);  ",
-                " nrm#[Ind] = r_y( nrm#[Ind]," + Shader.Print(option.rotation!.y) + ",centeri#[Ind]);  ",
-                " nrm#[Ind] = r_x( nrm#[Ind]," + Shader.Print(option.rotation!.z) + ",centeri#[Ind]);  "].join("\n\
-");
-
-            let sresult = Shader.Join([rotate,
-                " vec4 color#[Ind] = texture2D(" +
-                refInd + " ,ppo#[Ind].xy*vec2(" +
-                Shader.Print(option.scaleX) + "," + Shader.Print(option.scaleY) + ")+vec2(" +
-                Shader.Print(option.x) + "," + Shader.Print(option.y) + ")" + (option.bias == null /*or undefined*/ || Shader.Print(option.bias) === "0." ? "" : "," + Shader.Print(option.bias)) + ");",
-                " if(nrm#[Ind].z < " + Shader.Print(option.normalLevel) + "){ ",
-                (option.alpha ? " result =  color#[Ind];" : "result = vec4(color#[Ind].rgb , 1.); "),
-                "}"]);
-
-            if (option.indexCount! > 1 || option.tiled) {
-                option.columnIndex = option.indexCount! - option.columnIndex! + 1.0;
-                sresult = [
-                    " vec3 uvt#[Ind] = vec3(" + uv + ".x*" + Shader.Print(option.scaleX) + "+" + Shader.Print(option.x) + "," + uv + ".y*" + Shader.Print(option.scaleY) + "+" + Shader.Print(option.y) + ",0.0);     ",
-                    "             ",
-                    " float xst#[Ind] = 1./(" + Shader.Print(option.indexCount) + "*2.);                                                    ",
-                    " float yst#[Ind] =1./(" + Shader.Print(option.indexCount) + "*2.);                                                     ",
-                    " float xs#[Ind] = 1./" + Shader.Print(option.indexCount) + ";                                                     ",
-                    " float ys#[Ind] = 1./" + Shader.Print(option.indexCount) + ";                                                     ",
-                    " float yid#[Ind] = " + Shader.Print(option.columnIndex - 1.0) + " ;                                                      ",
-                    " float xid#[Ind] =  " + Shader.Print(option.rowIndex! - 1.0) + ";                                                      ",
-                    option.animation ? " float ind_a#[Ind] = floor(mod(time*0.001*" + Shader.Print(option.animationSpeed) + ",   " + Shader.Print(frameLength) + " )+" + Shader.Print(option.animationFrameStart) + ");" +
-                        " yid#[Ind] = " + Shader.Print(option.indexCount) + "- floor(ind_a#[Ind] /  " + Shader.Print(option.indexCount) + ");" +
-                        " xid#[Ind] =  floor(mod(ind_a#[Ind] ,  " + Shader.Print(option.indexCount) + ")); "
-                        : "",
-                    " float xi#[Ind] = mod(uvt#[Ind].x ,xs#[Ind])+xs#[Ind]*xid#[Ind]  ;                                   ",
-                    " float yi#[Ind] = mod(uvt#[Ind].y ,ys#[Ind])+ys#[Ind]*yid#[Ind]  ;                                   ",
-
-                    "                                                                       ",
-                    " float xi2#[Ind] = mod(uvt#[Ind].x -xs#[Ind]*0.5 ,xs#[Ind])+xs#[Ind]*xid#[Ind]      ;                     ",
-                    " float yi2#[Ind] = mod(uvt#[Ind].y -ys#[Ind]*0.5,ys#[Ind])+ys#[Ind]*yid#[Ind]   ;                         ",
-                    "                                                                       ",
-                    "                                                                       ",
-                    " vec4 f#[Ind] = texture2D(" + refInd + ",vec2(xi#[Ind],yi#[Ind])) ;                             ",
-                    " result =   f#[Ind] ;                                               ",
-                    (option.tiled ? [" vec4 f2#[Ind] = texture2D(" + refInd + ",vec2(xi2#[Ind]+xid#[Ind] ,yi#[Ind])) ;                      ",
-                        " vec4 f3#[Ind] = texture2D(" + refInd + ",vec2(xi#[Ind],yi2#[Ind]+yid#[Ind])) ;                       ",
-                        " vec4 f4#[Ind] = texture2D(" + refInd + ",vec2(xi2#[Ind]+xid#[Ind],yi2#[Ind]+yid#[Ind])) ;                  ",
-                        "                                                                       ",
-                        "                                                                       ",
-                        " float ir#[Ind]  = 0.,ir2#[Ind] = 0.;                                              ",
-                        "                                                                       ",
-                        "     if( yi2#[Ind]  >= yid#[Ind] *ys#[Ind] ){                                            ",
-                        "         ir2#[Ind]  = min(2.,max(0.,( yi2#[Ind]-yid#[Ind] *ys#[Ind])*2.0/ys#[Ind] ))   ;             ",
-                        "         if(ir2#[Ind] > 1.0) ir2#[Ind] =1.0-(ir2#[Ind]-1.0);                             ",
-                        "         ir2#[Ind] = min(1.0,max(0.0,pow(ir2#[Ind]," + Shader.Print(15.) + " )*" + Shader.Print(3.) + ")); ",
-                        "         result =  result *(1.0-ir2#[Ind]) +f3#[Ind]*ir2#[Ind]  ;           ",
-
-                        "     }                                                                 ",
-
-                        " if( xi2#[Ind]  >= xid#[Ind] *xs#[Ind]   ){                                               ",
-                        "         ir2#[Ind]  = min(2.,max(0.,( xi2#[Ind]-xid#[Ind] *xs#[Ind])*2.0/xs#[Ind] ))   ;             ",
-                        "         if(ir2#[Ind] > 1.0) ir2#[Ind] =1.0-(ir2#[Ind]-1.0);                             ",
-                        "         ir2#[Ind] = min(1.0,max(0.0,pow(ir2#[Ind]," + Shader.Print(15.) + " )*" + Shader.Print(3.) + ")); ",
-
-                        "         result = result *(1.0-ir2#[Ind]) +f2#[Ind]*ir2#[Ind]  ;           ",
-
-                        "     }  ",
-                        " if( xi2#[Ind]  >= xid#[Ind] *xs#[Ind]  && xi2#[Ind]  >= xid#[Ind] *xs#[Ind]  ){                                               ",
-                        "         ir2#[Ind]  = min(2.,max(0.,( xi2#[Ind]-xid#[Ind] *xs#[Ind])*2.0/xs#[Ind] ))   ;             ",
-                        "  float       ir3#[Ind]  = min(2.,max(0.,( yi2#[Ind]-yid#[Ind] *ys#[Ind])*2.0/ys#[Ind] ))   ;             ",
-                        "         if(ir2#[Ind] > 1.0) ir2#[Ind] =1.0-(ir2#[Ind]-1.0);                             ",
-                        "         if(ir3#[Ind] > 1.0) ir3#[Ind] =1.0-(ir3#[Ind]-1.0);                             ",
-                        "         ir2#[Ind] = min(1.0,max(0.0,pow(ir2#[Ind]," + Shader.Print(15.) + " )*" + Shader.Print(3.) + ")); ",
-                        "         ir3#[Ind] = min(1.0,max(0.0,pow(ir3#[Ind]," + Shader.Print(15.) + " )*" + Shader.Print(3.) + ")); ",
-                        "         ir2#[Ind] = min(1.0,max(0.0, ir2#[Ind]* ir3#[Ind] )); ",
-                        " if(nrm#[Ind].z < " + Shader.Print(option.normalLevel) + "){ ",
-                        (option.alpha ? "    result =  result *(1.0-ir2#[Ind]) +f4#[Ind]* ir2#[Ind]   ;" : "    result = vec4(result.xyz*(1.0-ir2#[Ind]) +f4#[Ind].xyz* ir2#[Ind]   ,1.0); "),
-                        "}",
-                        "     }  "
-                    ].join("\n") : "")
-                ].join("\n");
-            }
-
-            sresult = Shader.Replace(sresult, "#[Ind]", "_" + Shader.Indexer + "_");
-
-            this.Body = Shader.Def(this.Body, "");
-            this.Body += sresult;
+            const sampler = ShaderNode.Sampler2D(refInd);
+            const hasBias = !(option.bias == null /*or undefined*/ || Shader.Print(option.bias) === "0.");
+            const texture = (coords: ShaderNode) => hasBias ? ShaderNode.Call("texture2D", sampler, coords, ShaderNode.From(option.bias)) : ShaderNode.Call("texture2D", sampler, coords);
+            const rotation = option.rotation!;
+            const center = ShaderBuilder.Center;
+
+            return this.Emit((b) => {
+                const normal = b.Declare("mapNormal", ShaderNode.Call("r_x", ShaderNode.Call("r_y", ShaderNode.Call("r_z",
+                    ShaderNode.From(option.normal!, "vec3"), ShaderNode.From(rotation.x), center), ShaderNode.From(rotation.y), center), ShaderNode.From(rotation.z), center));
+                const facing = normal.Z.Lt(ShaderNode.From(option.normalLevel));
+
+                if (!(option.indexCount! > 1 || option.tiled)) {
+                    const coords = b.Declare("mapUv", ShaderNode.Call("r_x", ShaderNode.Call("r_y", ShaderNode.Call("r_z",
+                        uv, ShaderNode.From(rotation.x), center), ShaderNode.From(rotation.y), center), ShaderNode.From(rotation.x), center));
+                    const color = b.Declare("mapColor", texture(coords.Swizzle("xy").Mul(ShaderNode.Vec2(option.scaleX, option.scaleY)).Add(ShaderNode.Vec2(option.x, option.y))));
+                    b.If(facing, (t) => t.Assign(ShaderBuilder.Result, option.alpha ? color : ShaderNode.Vec4(color.Swizzle("rgb"), 1)));
+                    return;
+                }
 
-            return this;
+                const columnIndex = option.indexCount! - option.columnIndex! + 1.0;
+                const tiles = ShaderNode.From(option.indexCount);
+                const tileUv = b.Declare("tileUv", uv.Swizzle("xy").Mul(ShaderNode.Vec2(option.scaleX, option.scaleY)).Add(ShaderNode.Vec2(option.x, option.y)));
+                const size = b.Declare("tileSize", ShaderNode.Float(1).Div(tiles));
+                let row: ShaderNode = ShaderNode.Float(option.rowIndex! - 1.0);
+                let column: ShaderNode = ShaderNode.Float(columnIndex - 1.0);
+                if (option.animation) {
+                    const time = ShaderNode.Ref("float", ShaderMaterialHelperStatics.Time);
+                    const frame = b.Declare("tileFrame", ShaderNode.Call("floor", ShaderNode.Call("mod", time.Mul(0.001).Mul(ShaderNode.From(option.animationSpeed)),
+                        ShaderNode.From(frameLength)).Add(ShaderNode.From(option.animationFrameStart))));
+                    column = b.Declare("tileColumn", tiles.Sub(ShaderNode.Call("floor", frame.Div(tiles))));
+                    row = b.Declare("tileRow", ShaderNode.Call("floor", ShaderNode.Call("mod", frame, tiles)));
+                }
+                const xi = b.Declare("tileX", ShaderNode.Call("mod", tileUv.X, size).Add(size.Mul(row)));
+                const yi = b.Declare("tileY", ShaderNode.Call("mod", tileUv.Y, size).Add(size.Mul(column)));
+                b.Assign(ShaderBuilder.Result, texture(ShaderNode.Vec2(xi, yi)));
+                if (!option.tiled) {
+                    return;
+                }
+                const xi2 = b.Declare("tileX", ShaderNode.Call("mod", tileUv.X.Sub(size.Mul(0.5)), size).Add(size.Mul(row)));
+                const yi2 = b.Declare("tileY", ShaderNode.Call("mod", tileUv.Y.Sub(size.Mul(0.5)), size).Add(size.Mul(column)));
+                const f2 = b.Declare("tileColor", texture(ShaderNode.Vec2(xi2.Add(row), yi)));
+                const f3 = b.Declare("tileColor", texture(ShaderNode.Vec2(xi, yi2.Add(column))));
+                const f4 = b.Declare("tileColor", texture(ShaderNode.Vec2(xi2.Add(row), yi2.Add(column))));
+                // seam weight: 0 in the tile, rising to 1 on its border
+                const seam = (v: ShaderNode, id: ShaderNode) => {
+                    const ramp = ShaderNode.Float(1).Sub(ShaderNode.Call("abs", ShaderNode.Call("clamp", v.Sub(id.Mul(size)).Mul(2).Div(size), 0, 2).Sub(1)));
+                    return ShaderNode.Call("clamp", ShaderNode.Call("pow", ramp, 15).Mul(3), 0, 1);
+                };
+                const seamX = b.Declare("seam", seam(xi2, row));
+                const seamY = b.Declare("seam", seam(yi2, column));
+                b.If(yi2.Ge(column.Mul(size)), (t) => t.Assign(ShaderBuilder.Result, ShaderNode.Call("mix", ShaderBuilder.Result, f3, seamY)));
+                b.If(xi2.Ge(row.Mul(size)), (t) => {
+                    t.Assign(ShaderBuilder.Result, ShaderNode.Call("mix", ShaderBuilder.Result, f2, seamX));
+                    const corner = t.Declare("seam", ShaderNode.Call("clamp", seamX.Mul(seamY), 0, 1));
+                    t.If(facing, (c) => c.Assign(ShaderBuilder.Result, option.alpha ? ShaderNode.Call("mix", ShaderBuilder.Result, f4, corner) :
+                        ShaderNode.Vec4(ShaderNode.Call("mix", ShaderBuilder.Result.Swizzle("xyz"), f4.Swizzle("xyz"), corner), 1)));
+                });
+            });
         }
 
         Multi(mats: any[], combine: boolean): ShaderBuilder {
             combine = Shader.Def(combine, true);
-            Shader.Indexer++;
-
-            let pre = "";
-            const ps = ["", "", "", ""];
-            let psh = "0.0";
-            for (let i = 0; i < mats.length; i++) {
-                if (mats[i].result === undefined || mats[i].result === null) mats[i] = { result: mats[i], opacity: 1.0 };
-
-                pre += " vec4 result#[Ind]" + i + ";result#[Ind]" + i + " = vec4(0.,0.,0.,0.); float rp#[Ind]" + i + " = " + Shader.Print(mats[i].opacity) + "; \n\
-";
-                pre += mats[i].result + "\n\
-                ";
-                pre += " result#[Ind]" + i + " = result; \n\
-";
-
-                ps[0] += (i === 0 ? "" : " + ") + "result#[Ind]" + i + ".x*rp#[Ind]" + i;
-                ps[1] += (i === 0 ? "" : " + ") + "result#[Ind]" + i + ".y*rp#[Ind]" + i;
-                ps[2] += (i === 0 ? "" : " + ") + "result#[Ind]" + i + ".z*rp#[Ind]" + i;
-                ps[3] += (i === 0 ? "" : " + ") + "result#[Ind]" + i + ".w*rp#[Ind]" + i;
-
-                psh += "+" + Shader.Print(mats[i].opacity);
-            }
-
-            if (combine) {
-                ps[0] = "(" + ps[0] + ")/(" + Shader.Print(psh) + ")";
-                ps[1] = "(" + ps[1] + ")/(" + Shader.Print(psh) + ")";
-                ps[2] = "(" + ps[2] + ")/(" + Shader.Print(psh) + ")";
-                ps[3] = "(" + ps[3] + ")/(" + Shader.Print(psh) + ")";
-            }
-
-            pre += "result = vec4(" + ps[0] + "," + ps[1] + "," + ps[2] + "," + ps[3] + ");";
 
-            this.Body = Shader.Def(this.Body, "");
-            this.Body += Shader.Replace(pre, "#[Ind]", "_" + Shader.Indexer + "_");
-
-            return this;
+            return this.Emit((b) => {
+                let sum: ShaderNode | null = null;
+                let total: ShaderNode = ShaderNode.Float(0);
+                for (let i = 0; i < mats.length; i++) {
+                    if (mats[i].result === undefined || mats[i].result === null) mats[i] = { result: mats[i], opacity: 1.0 };
+                    b.Raw(mats[i].result);
+                    const layer = b.Variable("layer", ShaderBuilder.Result);
+                    const opacity = ShaderNode.From(mats[i].opacity);
+                    sum = sum ? sum.Add(layer.Mul(opacity)) : layer.Mul(opacity);
+                    total = total.Add(opacity);
+                }
+                if (sum) {
+                    b.Assign(ShaderBuilder.Result, combine ? sum.Div(total) : sum);
+                }
+            });
         }
 
         Back(mat: string): ShaderBuilder {
             Shader.Me.Setting.Back = true;
             mat = Shader.Def(mat, "");
-            this.Body = Shader.Def(this.Body, "");
-            this.Body += "if(" + ShaderMaterialHelperStatics.face_back + "){" + mat + ";}";
-            return this;
+            return this.Emit((b) => b.If(ShaderNode.Raw("bool", ShaderMaterialHelperStatics.face_back), (t) => t.Raw(mat + ";")));
         }
 
         InLine(mat: string): ShaderBuilder {
             mat = Shader.Def(mat, "");
-            this.Body = Shader.Def(this.Body, "");
-            this.Body += mat;
-            return this;
+            return this.Emit((b) => b.Raw(mat));
         }
 
         Front(mat: string): ShaderBuilder {
             mat = Shader.Def(mat, "");
-            this.Body = Shader.Def(this.Body, "");
-            this.Body += "if(" + ShaderMaterialHelperStatics.face_front + "){" + mat + ";}";
-            return this;
+            return this.Emit((b) => b.If(ShaderNode.Raw("bool", ShaderMaterialHelperStatics.face_front), (t) => t.Raw(mat + ";")));
         }
 
         Range(mat1: string, mat2: string, option: IRange): ShaderBuilder {
-            Shader.Indexer++;
-            const k = Shader.Indexer;
-
             option.start = Shader.Def(option.start, 0.);
             option.end = Shader.Def(option.end, 1.);
             option.direction = Shader.Def(option.direction, ShaderMaterialHelperStatics.Position + ".y");
 
-            let sresult = [
-                "float s_r_dim#[Ind] = " + option.direction + ";",
-                "if(s_r_dim#[Ind] > " + Shader.Print(option.end) + "){",
-                mat2,
-                "}",
-                "else { ",
-                mat1,
-                "   vec4 mat1#[Ind]; mat1#[Ind]  = result;",
-                "   if(s_r_dim#[Ind] > " + Shader.Print(option.start) + "){ ",
-                mat2,
-                "       vec4 mati2#[Ind];mati2#[Ind] = result;",
-                "       float s_r_cp#[Ind]  = (s_r_dim#[Ind] - (" + Shader.Print(option.start) + "))/(" + Shader.Print(option.end) + "-(" + Shader.Print(option.start) + "));",
-                "       float s_r_c#[Ind]  = 1.0 - s_r_cp#[Ind];",
-                "       result = vec4(mat1#[Ind].x*s_r_c#[Ind]+mati2#[Ind].x*s_r_cp#[Ind],mat1#[Ind].y*s_r_c#[Ind]+mati2#[Ind].y*s_r_cp#[Ind],mat1#[Ind].z*s_r_c#[Ind]+mati2#[Ind].z*s_r_cp#[Ind],mat1#[Ind].w*s_r_c#[Ind]+mati2#[Ind].w*s_r_cp#[Ind]);",
-                "   }",
-                "   else { result = mat1#[Ind]; }",
-                "}"
-            ].join("\n\
-");
-
-            sresult = Shader.Replace(sresult, "#[Ind]", "_" + Shader.Indexer + "_");
-
-            this.Body = Shader.Def(this.Body, "");
-            this.Body += sresult;
-
-            return this;
+            const start = ShaderNode.From(option.start);
+            const end = ShaderNode.From(option.end);
+
+            return this.Emit((b) => {
+                const dim = b.Declare("range", ShaderNode.From(option.direction));
+                b.If(dim.Gt(end), (t) => t.Raw(mat2), (e) => {
+                    e.Raw(mat1);
+                    const from = e.Variable("rangeFrom", ShaderBuilder.Result);
+                    e.If(dim.Gt(start), (t) => {
+                        t.Raw(mat2);
+                        t.Assign(ShaderBuilder.Result, ShaderNode.Call("mix", from, ShaderBuilder.Result, dim.Sub(start).Div(end.Sub(start))));
+                    });
+                });
+            });
         }
 
         Reference(index: number, mat?: any): ShaderBuilder {
             if (Shader.Me.References == null /*or undefined*/) Shader.Me.References = "";
 
-            let sresult = "vec4 resHelp#[Ind] = result;";
-
-            if (Shader.Me.References!.indexOf("," + index + ",") === -1) {
+            const declare = Shader.Me.References!.indexOf("," + index + ",") === -1;
+            if (declare) {
                 Shader.Me.References! += "," + index + ",";
-                sresult += " vec4 result_" + index + " = vec4(0.);\n\
-                ";
             }
-            if (mat == null /*or undefined*/) {
-                sresult += "  result_" + index + " = result;";
-            } else {
-                sresult += mat + "\n\
-                 result_" + index + " = result;";
-            }
-
-            sresult += "result = resHelp#[Ind] ;";
-            sresult = Shader.Replace(sresult, "#[Ind]", "_" + Shader.Indexer + "_");
 
-            this.Body = Shader.Def(this.Body, "");
-            this.Body += sresult;
-
-            return this;
+            return this.Emit((b) => {
+                const saved = b.Variable("resHelp", ShaderBuilder.Result);
+                const reference = declare ? b.Variable("result", ShaderNode.Vec4(0), "result_" + index) : ShaderNode.Ref("vec4", "result_" + index);
+                if (mat != null /*or undefined*/) {
+                    b.Raw(mat);
+                }
+                b.Assign(reference, ShaderBuilder.Result);
+                b.Assign(ShaderBuilder.Result, saved);
+            });
         }
 
         ReplaceColor(index: number, color: number, mat: string, option: IReplaceColor): ShaderBuilder {
-            Shader.Indexer++;
             option = Shader.Def(option, {});
 
-            const d = Shader.Def(option.rangeStep, -0.280);
-            const d2 = Shader.Def(option.rangePower, 0.0);
-            const d3 = Shader.Def(option.colorIndex, 0.0);
-            const d4 = Shader.Def(option.colorStep, 1.0);
+            const d = ShaderNode.From(Shader.Def(option.rangeStep, -0.280));
+            const d2 = ShaderNode.From(Shader.Def(option.rangePower, 0.0));
+            const d3 = ShaderNode.From(Shader.Def(option.colorIndex, 0.0));
+            const d4 = ShaderNode.From(Shader.Def(option.colorStep, 1.0));
             const ilg = Shader.Def(option.indexToEnd, false);
+            const reference = ShaderNode.Ref("vec4", "result_" + index);
+
+            return this.Emit((b) => {
+                const channel = (field: string) => {
+                    const v = reference.Swizzle(field).Mul(d4).Sub(d3);
+                    return b.Declare("channel", ilg ? ShaderNode.Call("clamp", v, 0, 1) : ShaderNode.Select(v.Gt(1), 0, ShaderNode.Call("max", 0, v)));
+                };
+                const rr = channel("x");
+                const rg = channel("y");
+                const rb = channel("z");
+                const high = ShaderNode.Float(0.5).Add(d);
+                const low = ShaderNode.Float(0.5).Sub(d);
+                const lg = (c: ShaderNode) => c.Gt(high);
+                const lw = (c: ShaderNode) => c.Lt(low);
+
+                let cond: ShaderNode;
+                let r: ShaderNode;
+                switch (color) {
+                    case Helper.White: cond = lg(rr).And(lg(rg)).And(lg(rb)); r = rr.Add(rg).Add(rb).Div(3); break;
+                    case Helper.Cyan: cond = lw(rr).And(lg(rg)).And(lg(rb)); r = rg.Add(rb).Div(2).Sub(rr); break;
+                    case Helper.Pink: cond = lg(rr).And(lw(rg)).And(lg(rb)); r = rr.Add(rb).Div(2).Sub(rg); break;
+                    case Helper.Yellow: cond = lg(rr).And(lg(rg)).And(lw(rb)); r = rr.Add(rg).Div(2).Sub(rb); break;
+                    case Helper.Blue: cond = lw(rr).And(lw(rg)).And(lg(rb)); r = rb.Sub(rr.Add(rg).Div(2)); break;
+                    case Helper.Red: cond = lg(rr).And(lw(rg)).And(lw(rb)); r = rr.Sub(rg.Add(rb).Div(2)); break;
+                    case Helper.Green: cond = lw(rr).And(lg(rg)).And(lw(rb)); r = rg.Sub(rr.Add(rb).Div(2)); break;
+                    case Helper.Black: cond = lw(rr).And(lw(rg)).And(lw(rb)); r = ShaderNode.Float(1).Sub(rr.Add(rg).Add(rb).Div(3)); break;
+                    default: throw new Error("ShaderBuilder: unknown color " + color);
+                }
 
-            const lg = " > 0.5 + " + Shader.Print(d) + " ";
-            const lw = " < 0.5 - " + Shader.Print(d) + " ";
-            let rr = "((result_" + index + ".x*" + Shader.Print(d4) + "-" + Shader.Print(d3) + ")>1.0 ? 0. : max(0.,(result_" + index + ".x*" + Shader.Print(d4) + "-" + Shader.Print(d3) + ")))";
-            let rg = "((result_" + index + ".y*" + Shader.Print(d4) + "-" + Shader.Print(d3) + ")>1.0 ? 0. : max(0.,(result_" + index + ".y*" + Shader.Print(d4) + "-" + Shader.Print(d3) + ")))";
-            let rb = "((result_" + index + ".z*" + Shader.Print(d4) + "-" + Shader.Print(d3) + ")>1.0 ? 0. : max(0.,(result_" + index + ".z*" + Shader.Print(d4) + "-" + Shader.Print(d3) + ")))";
-            if (ilg) {
-                rr = "min(1.0, max(0.,(result_" + index + ".x*" + Shader.Print(d4) + "-" + Shader.Print(d3) + ")))";
-                rg = "min(1.0, max(0.,(result_" + index + ".y*" + Shader.Print(d4) + "-" + Shader.Print(d3) + ")))";
-                rb = "min(1.0, max(0.,(result_" + index + ".z*" + Shader.Print(d4) + "-" + Shader.Print(d3) + ")))";
-            }
-            const a = " && ";
-            const p = " + ";
-
-            let r = "";
-            let cond = "";
-
-            switch (color) {
-                case Helper.White: cond = rr + lg + a + rg + lg + a + rb + lg; r = "(" + rr + p + rg + p + rb + ")/3.0"; break;
-                case Helper.Cyan: cond = rr + lw + a + rg + lg + a + rb + lg; r = "(" + rg + p + rb + ")/2.0 - (" + rr + ")/1.0"; break;
-                case Helper.Pink: cond = rr + lg + a + rg + lw + a + rb + lg; r = "(" + rr + p + rb + ")/2.0 - (" + rg + ")/1.0"; break;
-                case Helper.Yellow: cond = rr + lg + a + rg + lg + a + rb + lw; r = "(" + rr + p + rg + ")/2.0 - (" + rb + ")/1.0"; break;
-                case Helper.Blue: cond = rr + lw + a + rg + lw + a + rb + lg; r = "(" + rb + ")/1.0 - (" + rr + p + rg + ")/2.0"; break;
-                case Helper.Red: cond = rr + lg + a + rg + lw + a + rb + lw; r = "(" + rr + ")/1.0 - (" + rg + p + rb + ")/2.0"; break;
-                case Helper.Green: cond = rr + lw + a + rg + lg + a + rb + lw; r = "(" + rg + ")/1.0 - (" + rr + p + rb + ")/2.0"; break;
-                case Helper.Black: cond = rr + lw + a + rg + lw + a + rb + lw; r = "1.0-(" + rr + p + rg + p + rb + ")/3.0"; break;
-            }
-
-            let sresult = " if( " + cond + " ) { vec4 oldrs#[Ind] = vec4(result);float al#[Ind] = max(0.0,min(1.0," + r + "+(" + Shader.Print(d2) + "))); float  l#[Ind] =  1.0-al#[Ind];  " + mat + " result = result*al#[Ind] +  oldrs#[Ind] * l#[Ind];    }";
-            sresult = Shader.Replace(sresult, "#[Ind]", "_" + Shader.Indexer + "_");
-
-            this.Body = Shader.Def(this.Body, "");
-            this.Body += sresult;
-
-            return this;
+                b.If(cond, (t) => {
+                    const old = t.Variable("oldResult", ShaderBuilder.Result);
+                    const amount = t.Variable("amount", ShaderNode.Call("clamp", r.Add(d2), 0, 1));
+                    t.Raw(mat);
+                    t.Assign(ShaderBuilder.Result, ShaderNode.Call("mix", old, ShaderBuilder.Result, amount));
+                });
+            });
         }
 
         Blue(index: number, mat: string, option: IReplaceColor): ShaderBuilder {
@@ -1412,7 +2493,6 @@ void main(void) { \n\
         }
 
         ReflectCube(option: IReflectMap): ShaderBuilder {
-            Shader.Indexer++;
             option = Shader.Def(option, { path: "/images/cube/a" });
 
             let s = Shader.Me.GetCubeMapIndex(option.path);
@@ -1440,7 +2520,10 @@ void main(void) { \n\
             Shader.Me.Setting.Camera = true;
             Shader.Me.Setting.ReflectMatrix = true;
 
-            let sresult = "";
+            const hasBias = !(option.bias == null /*or undefined*/ || Shader.Print(option.bias) === "0.");
+            const normal = ShaderNode.From(option.normal!, "vec3");
+            const camera = ShaderBuilder.Camera;
+            const position = ShaderBuilder.Position;
 
             if (option.equirectangular) {
                 option.path = Shader.Def(option.path, "/images/cube/roofl1.jpg");
@@ -1455,37 +2538,35 @@ void main(void) { \n\
                 Shader.Me.Setting.VertexWorld = true;
                 Shader.Me.Setting.FragmentWorld = true;
 
-                sresult = " vec3 nWorld#[Ind] = normalize( mat3( world[0].xyz, world[1].xyz, world[2].xyz ) *  " + option.normal + "); " +
-                " vec3 vReflect#[Ind] = normalize( reflect( normalize(  " + ShaderMaterialHelperStatics.Camera + "- vec3(world * vec4(" + ShaderMaterialHelperStatics.Position + ", 1.0))),  nWorld#[Ind] ) ); " +
-                "float yaw#[Ind] = .5 - atan( vReflect#[Ind].z, -1.* vReflect#[Ind].x ) / ( 2.0 * 3.14159265358979323846264);  " +
-                " float pitch#[Ind] = .5 - atan( vReflect#[Ind].y, length( vReflect#[Ind].xz ) ) / ( 3.14159265358979323846264);  " +
-                " vec3 color#[Ind] = texture2D( " + ShaderMaterialHelperStatics.Texture2D + s + ", vec2( yaw#[Ind], pitch#[Ind])" + (option.bias == null /*or undefined*/ || Shader.Print(option.bias) === "0." ? "" : "," + Shader.Print(option.bias)) + " ).rgb; result = vec4(color#[Ind] ,1.);";
-
-            } else {
-                option.path = Shader.Def(option.path, "/images/cube/a");
-
-                sresult = [
-                    "vec3 viewDir#[Ind] =  " + ShaderMaterialHelperStatics.Position + " - " + ShaderMaterialHelperStatics.Camera + " ;",
-                    "  viewDir#[Ind] =r_x(viewDir#[Ind] ," + Shader.Print(option.rotation!.x) + ",  " + ShaderMaterialHelperStatics.Center + ");",
-                    "  viewDir#[Ind] =r_y(viewDir#[Ind] ," + Shader.Print(option.rotation!.y) + "," + ShaderMaterialHelperStatics.Center + ");",
-                    "  viewDir#[Ind] =r_z(viewDir#[Ind] ," + Shader.Print(option.rotation!.z) + "," + ShaderMaterialHelperStatics.Center + ");",
-
-                    "vec3 coords#[Ind] = " + (option.refract ? "refract" : "reflect") + "(viewDir#[Ind]" + (option.revers ? "*vec3(1.0)" : "*vec3(-1.0)") + ", " + option.normal + " " + (option.refract ? ",(" + Shader.Print(option.refractMap) + ")" : "") + " )+" + ShaderMaterialHelperStatics.Position + "; ",
-                    "vec3 vReflectionUVW#[Ind] = vec3( " + ShaderMaterialHelperStatics.ReflectMatrix + " *  vec4(coords#[Ind], 0)); ",
-                    "vec3 rc#[Ind]= textureCube(" +
-                    ShaderMaterialHelperStatics.TextureCube + s + ", vReflectionUVW#[Ind] " + (option.bias == null /*or undefined*/ || Shader.Print(option.bias) === "0." ? "" : "," + Shader.Print(option.bias)) + ").rgb;",
-
-                    "result =result  + vec4(rc#[Ind].x ,rc#[Ind].y,rc#[Ind].z, " + (!option.alpha ? "1." : "(rc#[Ind].x+rc#[Ind].y+rc#[Ind].z)/3.0 ") + ")*(min(1.,max(0.," + Shader.Print(option.reflectMap) + ")));  "
-                ].join("\n\
-            ");
+                const world = ShaderBuilder.World;
+                const sampler = ShaderNode.Sampler2D(ShaderMaterialHelperStatics.Texture2D + s);
+                return this.Emit((b) => {
+                    const nWorld = b.Declare("worldNormal", ShaderNode.Call("normalize", ShaderNode.Mat3(world.Index(0).Swizzle("xyz"), world.Index(1).Swizzle("xyz"), world.Index(2).Swizzle("xyz")).Mul(normal)));
+                    const worldPosition = b.Declare("worldPosition", ShaderNode.Vec3(world.Mul(ShaderNode.Vec4(position, 1))));
+                    const reflected = b.Declare("reflected", ShaderNode.Call("normalize", ShaderNode.Call("reflect", ShaderNode.Call("normalize", camera.Sub(worldPosition)), nWorld)));
+                    const yaw = b.Declare("yaw", ShaderNode.Float(0.5).Sub(ShaderNode.Call("atan", reflected.Z, reflected.X.Neg()).Div(2 * Math.PI)));
+                    const pitch = b.Declare("pitch", ShaderNode.Float(0.5).Sub(ShaderNode.Call("atan", reflected.Y, ShaderNode.Call("length", reflected.Swizzle("xz"))).Div(Math.PI)));
+                    const coords = ShaderNode.Vec2(yaw, pitch);
+                    const color = b.Declare("reflectColor", (hasBias ? ShaderNode.Call("texture2D", sampler, coords, ShaderNode.From(option.bias)) : ShaderNode.Call("texture2D", sampler, coords)).Swizzle("rgb"));
+                    b.Assign(ShaderBuilder.Result, ShaderNode.Vec4(color, 1));
+                });
             }
 
-            sresult = Shader.Replace(sresult, "#[Ind]", "_" + Shader.Indexer + "_");
-
-            this.Body = Shader.Def(this.Body, "");
-            this.Body += sresult;
-
-            return this;
+            option.path = Shader.Def(option.path, "/images/cube/a");
+            const rotation = option.rotation!;
+            const center = ShaderBuilder.Center;
+            const cube = ShaderNode.SamplerCube(ShaderMaterialHelperStatics.TextureCube + s);
+            return this.Emit((b) => {
+                const viewDir = b.Declare("viewDir", ShaderNode.Call("r_z", ShaderNode.Call("r_y", ShaderNode.Call("r_x",
+                    position.Sub(camera), ShaderNode.From(rotation.x), center), ShaderNode.From(rotation.y), center), ShaderNode.From(rotation.z), center));
+                const incident = option.revers ? viewDir : viewDir.Neg();
+                const bounced = option.refract ? ShaderNode.Call("refract", incident, normal, ShaderNode.From(option.refractMap)) : ShaderNode.Call("reflect", incident, normal);
+                const coords = b.Declare("reflectCoords", bounced.Add(position));
+                const uvw = b.Declare("reflectUvw", ShaderNode.Vec3(ShaderNode.Ref("mat4", ShaderMaterialHelperStatics.ReflectMatrix).Mul(ShaderNode.Vec4(coords, 0))));
+                const rc = b.Declare("reflectColor", (hasBias ? ShaderNode.Call("textureCube", cube, uvw, ShaderNode.From(option.bias)) : ShaderNode.Call("textureCube", cube, uvw)).Swizzle("rgb"));
+                const alpha = option.alpha ? rc.X.Add(rc.Y).Add(rc.Z).Div(3) : ShaderNode.Float(1);
+                b.Assign(ShaderBuilder.Result, ShaderBuilder.Result.Add(ShaderNode.Vec4(rc, alpha).Mul(ShaderNode.Call("clamp", ShaderNode.From(option.reflectMap), 0, 1))));
+            });
         }
 
         NormalMap(val: string, mat: string): ShaderBuilder {
@@ -1537,89 +2618,189 @@ void main(void) { \n\
                 c_c.a = c_c.a - 1.0;
             }
 
-            Shader.Indexer++;
-
             Shader.Me.Setting.Camera = true;
             Shader.Me.Setting.FragmentWorld = true;
             Shader.Me.Setting.VertexWorld = true;
             Shader.Me.Setting.Helpers = true;
             Shader.Me.Setting.Center = true;
 
-            let sresult = Shader.Join([
-                "  vec3 dir#[Ind] = normalize(  vec3(world * vec4(" + ShaderMaterialHelperStatics.Position + ",1.)) - " + ShaderMaterialHelperStatics.Camera + ");",
-
-                "  dir#[Ind] =r_x(dir#[Ind] ," + Shader.Print(option.rotation!.x) + ",vec3(" + ShaderMaterialHelperStatics.Center + "));",
-                "  dir#[Ind] =r_y(dir#[Ind] ," + Shader.Print(option.rotation!.y) + ",vec3(" + ShaderMaterialHelperStatics.Center + "));",
-                "  dir#[Ind] =r_z(dir#[Ind] ," + Shader.Print(option.rotation!.z) + ",vec3(" + ShaderMaterialHelperStatics.Center + "));",
-
-                "  vec4 p1#[Ind] = vec4(" + option.direction + ",.0);                                ",
-                "  vec4 c1#[Ind] = vec4(" + Shader.Print(c_c.r) + "," + Shader.Print(c_c.g) + "," + Shader.Print(c_c.b) + ",0.0); ",
-
-                "  vec3 vnrm#[Ind] = normalize(vec3(world * vec4(" + option.normal + ", 0.0)));          ",
-                "  vec3 l#[Ind]= normalize(p1#[Ind].xyz " +
-                    (!option.parallel ? "- vec3(world * vec4(" + ShaderMaterialHelperStatics.Position + ",1.))  " : "")
-                    + ");   ",
-                "  vec3 vw#[Ind]= normalize(camera -  vec3(world * vec4(" + ShaderMaterialHelperStatics.Position + ",1.)));  ",
-                "  vec3 aw#[Ind]= normalize(vw#[Ind]+ l#[Ind]);  ",
-                "  float sc#[Ind]= max(0.,min(1., dot(vnrm#[Ind], aw#[Ind])));   ",
-                "  sc#[Ind]= pow(sc#[Ind]*min(1.,max(0.," + Shader.Print(option.specular) + ")), (" + Shader.Print(option.specularPower! * 1000.) + "))/" + Shader.Print(option.specularLevel) + " ;  ",
-
-                " float  ph#[Ind]= pow(" + Shader.Print(option.phonge) + "*2., (" + Shader.Print(option.phongePower) + "*0.3333))/(" + Shader.Print(option.phongeLevel) + "*3.) ;  ",
-                "  float ndl#[Ind] = max(0., dot(vnrm#[Ind], l#[Ind]));                            ",
-                "  float ls#[Ind] = " + (option.supplement ? "1.0 -" : "") + "max(0.,min(1.,ndl#[Ind]*ph#[Ind]*(" + Shader.Print(option.reducer) + "))) ;         ",
-                "  result  += vec4( c1#[Ind].xyz*( ls#[Ind])*" + Shader.Print(c_c.a) + " ,  ls#[Ind]); ",
-                "  float ls2#[Ind] = " + (option.supplement ? "0.*" : "1.*") + "max(0.,min(1., sc#[Ind]*(" + Shader.Print(option.reducer) + "))) ;         ",
-                "  result  += vec4( c1#[Ind].xyz*( ls2#[Ind])*" + Shader.Print(c_c.a) + " ,  ls2#[Ind]); "
-            ]);
+            const world = ShaderBuilder.World;
+            const reducer = ShaderNode.From(option.reducer);
+            const color = ShaderNode.Vec3(c_c.r, c_c.g, c_c.b).Mul(ShaderNode.From(c_c.a));
+
+            return this.Emit((b) => {
+                const worldPosition = b.Declare("worldPosition", ShaderNode.Vec3(world.Mul(ShaderNode.Vec4(ShaderBuilder.Position, 1))));
+                const direction = ShaderNode.From(option.direction!, "vec3");
+                const normal = b.Declare("lightNormal", ShaderNode.Call("normalize", ShaderNode.Vec3(world.Mul(ShaderNode.Vec4(ShaderNode.From(option.normal!, "vec3"), 0)))));
+                const light = b.Declare("lightDir", ShaderNode.Call("normalize", option.parallel ? direction : direction.Sub(worldPosition)));
+                const view = b.Declare("viewDir", ShaderNode.Call("normalize", ShaderBuilder.Camera.Sub(worldPosition)));
+                const half = b.Declare("halfDir", ShaderNode.Call("normalize", view.Add(light)));
+                const specular = b.Declare("specular", ShaderNode.Call("pow",
+                    ShaderNode.Call("clamp", ShaderNode.Call("dot", normal, half), 0, 1).Mul(ShaderNode.Call("clamp", ShaderNode.From(option.specular), 0, 1)),
+                    ShaderNode.From(option.specularPower! * 1000.)).Div(ShaderNode.From(option.specularLevel)));
+                const phong = b.Declare("phong", ShaderNode.Call("pow", ShaderNode.From(option.phonge).Mul(2), ShaderNode.From(option.phongePower).Mul(0.3333))
+                    .Div(ShaderNode.From(option.phongeLevel).Mul(3)));
+                const diffuse = ShaderNode.Call("clamp", ShaderNode.Call("max", 0, ShaderNode.Call("dot", normal, light)).Mul(phong).Mul(reducer), 0, 1);
+                const ls = b.Declare("lightAmount", option.supplement ? ShaderNode.Float(1).Sub(diffuse) : diffuse);
+                b.Assign(ShaderBuilder.Result, ShaderNode.Vec4(color.Mul(ls), ls), "+=");
+                if (!option.supplement) {
+                    const ls2 = b.Declare("lightAmount", ShaderNode.Call("clamp", specular.Mul(reducer), 0, 1));
+                    b.Assign(ShaderBuilder.Result, ShaderNode.Vec4(color.Mul(ls2), ls2), "+=");
+                }
+            });
+        }
+
+        /**
+         * the uniforms of count scene lights, Babylon's light uniform names with the light index appended
+         */
+        static LightUniforms(count: number, shadows: boolean): Array<[string, ShaderType]> {
+            const statics = ShaderMaterialHelperStatics;
+            const list: Array<[string, ShaderType]> = [];
+            for (let i = 0; i < count; i++) {
+                list.push([statics.LightKind + i, "float"], [statics.LightData + i, "vec4"], [statics.LightDiffuse + i, "vec4"],
+                    [statics.LightSpecular + i, "vec4"], [statics.LightDirection + i, "vec4"], [statics.LightGround + i, "vec3"]);
+                if (shadows) {
+                    list.push([statics.LightMatrix + i, "mat4"], [statics.ShadowsInfo + i, "vec4"], [statics.DepthValues + i, "vec2"],
+                        [statics.ShadowSampler + i, "sampler2D"]);
+                }
+            }
+            return list;
+        }
 
-            sresult = Shader.Replace(sresult, "#[Ind]", "_" + Shader.Indexer + "_");
+        /**
+         * Cook-Torrance GGX shading of the current result (or option.albedo) by the point, directional, spot and hemispheric
+         * lights of the scene, bound on each draw by ShaderMaterialHelper.BindLights. Falloff and light intensities follow
+         * PBRMaterial with its default physical falloff: inverse square distance, spherical gaussian spot cone, no 1/PI on the diffuse term.
+         */
+        PBR(option: IPBR): ShaderBuilder {
+            option = Shader.Def(option, {});
+            option.metallic = Shader.Def(option.metallic, 0.);
+            option.roughness = Shader.Def(option.roughness, 0.5);
+            option.normal = Shader.Def(option.normal, Normals.Map);
+            option.lights = Shader.Def(option.lights, 4);
+            option.shadows = Shader.Def(option.shadows, false);
+
+            const setting = Shader.Me.Setting;
+            setting.Camera = true;
+            setting.FragmentWorld = true;
+            setting.VertexWorld = true;
+            setting.Lights = Math.max(Shader.Def(setting.Lights, 0), option.lights!);
+            setting.Shadows = setting.Shadows || option.shadows;
+
+            const statics = ShaderMaterialHelperStatics;
+            const world = ShaderBuilder.World;
+            const emissive = option.emissive && option.emissive.r !== undefined ?
+                ShaderNode.Vec3(option.emissive.r, option.emissive.g, option.emissive.b) : option.emissive ? ShaderNode.From(option.emissive, "vec3") : null;
+
+            return this.Emit((b) => {
+                const albedo = b.Variable("albedo", option.albedo !== undefined ? ShaderNode.From(option.albedo, "vec3") : ShaderBuilder.Result.Swizzle("xyz"));
+                const alpha = b.Variable("alpha", option.alpha !== undefined ? ShaderNode.From(option.alpha) : ShaderNode.Float(1));
+                const metallic = b.Declare("metallic", ShaderNode.Call("clamp", ShaderNode.From(option.metallic), 0, 1));
+                const roughness = b.Declare("roughness", ShaderNode.Call("clamp", ShaderNode.From(option.roughness), 0.04, 1));
+                const worldPosition = b.Declare("worldPosition", ShaderNode.Vec3(world.Mul(ShaderNode.Vec4(ShaderBuilder.Position, 1))));
+                const normal = b.Declare("pbrNormal", ShaderNode.Call("normalize", ShaderNode.Vec3(world.Mul(ShaderNode.Vec4(ShaderNode.From(option.normal!, "vec3"), 0)))));
+                const view = b.Declare("viewDir", ShaderNode.Call("normalize", ShaderBuilder.Camera.Sub(worldPosition)));
+                const nDotV = b.Declare("nDotV", ShaderNode.Call("max", ShaderNode.Call("dot", normal, view), 0.0001));
+                const f0 = b.Declare("f0", ShaderNode.Call("mix", ShaderNode.Vec3(0.04), albedo, metallic));
+                const alphaG2 = b.Declare("alphaG2", ShaderNode.Call("pow", roughness, 4));
+                const k = b.Declare("geometryK", roughness.Add(1).Mul(roughness.Add(1)).Div(8));
+                const diffuseAlbedo = b.Declare("diffuseAlbedo", albedo.Mul(ShaderNode.Float(1).Sub(metallic)));
+                const lighting = b.Variable("lighting", ShaderNode.Vec3(0));
+
+                for (let i = 0; i < option.lights!; i++) {
+                    const kind = ShaderNode.Ref("float", statics.LightKind + i);
+                    const data = ShaderNode.Ref("vec4", statics.LightData + i);
+                    const diffuse = ShaderNode.Ref("vec4", statics.LightDiffuse + i);
+                    const specular = ShaderNode.Ref("vec4", statics.LightSpecular + i);
+                    const direction = ShaderNode.Ref("vec4", statics.LightDirection + i);
+                    const ground = ShaderNode.Ref("vec3", statics.LightGround + i);
+
+                    b.If(kind.Eq(3), (h) => {
+                        const weight = ShaderNode.Call("dot", normal, data.Swizzle("xyz")).Mul(0.5).Add(0.5);
+                        h.Assign(lighting, ShaderNode.Call("mix", ground, diffuse.Swizzle("rgb"), weight).Mul(diffuseAlbedo), "+=");
+                    }, (e) => e.If(kind.Ge(0), (d) => {
+                        const directional = kind.Eq(1);
+                        const toLight = d.Declare("toLight", ShaderNode.Select(directional, data.Swizzle("xyz").Neg(), data.Swizzle("xyz").Sub(worldPosition)));
+                        const distance = d.Declare("lightDistance", ShaderNode.Call("length", toLight));
+                        const light = d.Declare("lightDir", toLight.Div(ShaderNode.Call("max", distance, 0.0001)));
+                        const cosAngle = d.Declare("cosAngle", ShaderNode.Call("dot", direction.Swizzle("xyz"), light.Neg()));
+                        const falloff = ShaderNode.Select(directional, 1, ShaderNode.Float(1).Div(ShaderNode.Call("max", distance.Mul(distance), 0.0001)));
+                        // 1% of the intensity at the half angle: kappa = -log2(0.01) / (1 - cos(half angle))
+                        const kappa = ShaderNode.Float(6.64385618977).Div(ShaderNode.Call("max", ShaderNode.Float(1).Sub(direction.Swizzle("w")), 0.0001));
+                        const cone = ShaderNode.Select(kind.Eq(2), ShaderNode.Call("exp2", cosAngle.Sub(1).Mul(kappa)), 1);
+                        let attenuation = d.Declare("attenuation", falloff.Mul(cone));
+
+                        if (option.shadows) {
+                            const lightClip = d.Declare("lightClip", ShaderNode.Ref("mat4", statics.LightMatrix + i).Mul(ShaderNode.Vec4(worldPosition, 1)));
+                            const shadowUv = d.Declare("shadowUv", lightClip.Swizzle("xy").Div(lightClip.Swizzle("w")).Mul(0.5).Add(0.5));
+                            const depthValues = ShaderNode.Ref("vec2", statics.DepthValues + i);
+                            const shadowsInfo = ShaderNode.Ref("vec4", statics.ShadowsInfo + i);
+                            const depthMetric = ShaderNode.Call("clamp", lightClip.Swizzle("z").Add(depthValues.Swizzle("x")).Div(depthValues.Swizzle("y")), 0, 1);
+                            const texel = d.Declare("shadowTexel", ShaderNode.Call("texture2D", ShaderNode.Sampler2D(statics.ShadowSampler + i), shadowUv));
+                            // unpack() of Babylon's shadow map shaders for the depth packed in RGBA
+                            const unpacked = ShaderNode.Call("dot", texel, ShaderNode.Vec4(1 / (255 * 255 * 255), 1 / (255 * 255), 1 / 255, 1));
+                            const shadowDepth = d.Declare("shadowDepth", ShaderNode.Call("mix", texel.Swizzle("x"), unpacked, shadowsInfo.Swizzle("z")));
+                            const inside = shadowUv.Swizzle("x").Ge(0).And(shadowUv.Swizzle("x").Le(1)).And(shadowUv.Swizzle("y").Ge(0)).And(shadowUv.Swizzle("y").Le(1));
+                            const shadow = ShaderNode.Select(inside.And(depthMetric.Gt(shadowDepth)),
+                                ShaderNode.Call("mix", 1, shadowsInfo.Swizzle("x"), shadowsInfo.Swizzle("y")), 1);
+                            attenuation = d.Declare("attenuation", attenuation.Mul(shadow));
+                        }
 
-            this.Body = Shader.Def(this.Body, "");
-            this.Body += sresult;
+                        const half = d.Declare("halfDir", ShaderNode.Call("normalize", view.Add(light)));
+                        const nDotL = d.Declare("nDotL", ShaderNode.Call("clamp", ShaderNode.Call("dot", normal, light), 0, 1));
+                        const nDotH = d.Declare("nDotH", ShaderNode.Call("clamp", ShaderNode.Call("dot", normal, half), 0, 1));
+                        const vDotH = ShaderNode.Call("clamp", ShaderNode.Call("dot", view, half), 0, 1);
+                        const fresnel = d.Declare("fresnel", f0.Add(ShaderNode.Vec3(1).Sub(f0).Mul(ShaderNode.Call("pow", ShaderNode.Float(1).Sub(vDotH), 5))));
+                        const denominator = d.Declare("ggx", nDotH.Mul(nDotH).Mul(alphaG2.Sub(1)).Add(1));
+                        const distribution = alphaG2.Div(denominator.Mul(denominator).Mul(Math.PI));
+                        const visibility = ShaderNode.Float(0.25).Div(nDotL.Mul(ShaderNode.Float(1).Sub(k)).Add(k).Mul(nDotV.Mul(ShaderNode.Float(1).Sub(k)).Add(k)));
+                        const diffuseTerm = ShaderNode.Vec3(1).Sub(fresnel).Mul(diffuseAlbedo).Mul(diffuse.Swizzle("rgb"));
+                        const specularTerm = fresnel.Mul(distribution.Mul(visibility)).Mul(specular.Swizzle("rgb"));
+                        d.Assign(lighting, diffuseTerm.Add(specularTerm).Mul(nDotL.Mul(attenuation)), "+=");
+                    }));
+                }
 
-            return this;
+                b.Assign(ShaderBuilder.Result, ShaderNode.Vec4(emissive ? lighting.Add(emissive) : lighting, alpha));
+            });
         }
 
         Effect(option: IEffect): ShaderBuilder {
             const op = Shader.Def(option, {});
-            Shader.Indexer++;
-
-            let sresult = [
-                "vec4 res#[Ind] = vec4(0.);",
-
-                "res#[Ind].x = " + (op.px ? Shader.Replace(Shader.Replace(Shader.Replace(Shader.Replace(op.px, "px", "result.x"), "py", "result.y"), "pz", "result.z"), "pw", "result.w") + ";" : " result.x;"),
-                "res#[Ind].y = " + (op.py ? Shader.Replace(Shader.Replace(Shader.Replace(Shader.Replace(op.py, "px", "result.x"), "py", "result.y"), "pz", "result.z"), "pw", "result.w") + ";" : " result.y;"),
-                "res#[Ind].z = " + (op.pz ? Shader.Replace(Shader.Replace(Shader.Replace(Shader.Replace(op.pz, "px", "result.x"), "py", "result.y"), "pz", "result.z"), "pw", "result.w") + ";" : " result.z;"),
-                "res#[Ind].w = " + (op.pw ? Shader.Replace(Shader.Replace(Shader.Replace(Shader.Replace(op.pw, "px", "result.x"), "py", "result.y"), "pz", "result.z"), "pw", "result.w") + ";" : " result.w;"),
-                "res#[Ind]  = " + (op.pr ? " vec4(" + Shader.Replace(Shader.Replace(Shader.Replace(Shader.Replace(Shader.Replace(op.pr, "pr", "res#[Ind].x"), "px", "result.x"), "py", "result.y"), "pz", "result.z"), "pw", "result.w") + ","
-                    + Shader.Replace(Shader.Replace(Shader.Replace(Shader.Replace(Shader.Replace(op.pr, "pr", "res#[Ind].y"), "px", "result.x"), "py", "result.y"), "pz", "result.z"), "pw", "result.w") + "," +
-                    Shader.Replace(Shader.Replace(Shader.Replace(Shader.Replace(Shader.Replace(op.pr, "pr", "res#[Ind].z"), "px", "result.x"), "py", "result.y"), "pz", "result.z"), "pw", "result.w")
-                    + "," +
-                    Shader.Replace(Shader.Replace(Shader.Replace(Shader.Replace(Shader.Replace(op.pr, "pr", "res#[Ind].w"), "px", "result.x"), "py", "result.y"), "pz", "result.z"), "pw", "result.w")
-                    + ");" : " res#[Ind]*1.0;"),
-                "result = res#[Ind] ;"
-            ].join("\n\
-");
-            sresult = Shader.Replace(sresult, "#[Ind]", "_" + Shader.Indexer + "_");
-
-            this.Body = Shader.Def(this.Body, "");
-            this.Body += sresult;
+            const fields: { [placeholder: string]: string } = { px: "result.x", py: "result.y", pz: "result.z", pw: "result.w" };
+            const channel = (code: any, field: string) => code ? ShaderNode.From(ShaderBuilder.Substitute(Shader.Print(code), fields), "float") : ShaderBuilder.Result.Swizzle(field);
+
+            return this.Emit((b) => {
+                let res = b.Declare("effect", ShaderNode.Vec4(channel(op.px, "x"), channel(op.py, "y"), channel(op.pz, "z"), channel(op.pw, "w")));
+                if (op.pr) {
+                    const pr = (field: string) => ShaderNode.From(ShaderBuilder.Substitute(Shader.Print(op.pr), { pr: res.Name + "." + field, ...fields }), "float");
+                    res = b.Declare("effect", ShaderNode.Vec4(pr("x"), pr("y"), pr("z"), pr("w")));
+                }
+                b.Assign(ShaderBuilder.Result, res);
+            });
+        }
 
-            return this;
+        /**
+         * replaces the placeholder identifiers of a user expression, whole words only
+         */
+        static Substitute(code: string, values: { [placeholder: string]: string }): string {
+            return code.replace(/[A-Za-z_]\w*/g, (word, offset: number) => values.hasOwnProperty(word) && code[offset - 1] !== "." ? values[word] : word);
         }
 
         IdColor(id: number, w: number): ShaderBuilder {
             let kg = { r: 0.0, g: 0.0, b: .0 };
             kg = Shader.torgb(id.valueOf() * 1.0, 255);
-            this.Body = Shader.Def(this.Body, "");
-            this.Body += "result = vec4(" + Shader.Print(kg.r) + "," + Shader.Print(kg.g) + "," + Shader.Print(Math.max(kg.b, 0.0)) + "," + Shader.Print(w) + ");";
-            return this;
+            return this.Emit((b) => b.Assign(ShaderBuilder.Result, ShaderNode.Vec4(kg.r, kg.g, Math.max(kg.b, 0.0), w)));
         }
 
         Discard(): ShaderBuilder {
-            this.Body = Shader.Def(this.Body, "");
-            this.Body += "discard;";
-            return this;
+            return this.Emit((b) => b.Discard());
         }
+
+        static Result = ShaderNode.Ref("vec4", "result");
+        static Position = ShaderNode.Ref("vec3", ShaderMaterialHelperStatics.Position);
+        static Center = ShaderNode.Ref("vec3", ShaderMaterialHelperStatics.Center);
+        static Camera = ShaderNode.Ref("vec3", ShaderMaterialHelperStatics.Camera);
+        static World = ShaderNode.Ref("mat4", ShaderMaterialHelperStatics.uniformWorld);
+
     }
 }
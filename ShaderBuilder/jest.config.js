@@ -0,0 +1,13 @@
+const config = {
+    verbose: true,
+    testEnvironment: 'node',
+    testMatch: ['**/test/**/*.test.ts'],
+    testPathIgnorePatterns: ['/node_modules/'],
+    moduleFileExtensions: ['ts', 'js'],
+    extensionsToTreatAsEsm: ['.ts'],
+    transform: {
+        '^.+\\.ts$': ['ts-jest', { useESM: true }]
+    }
+};
+
+export default config;
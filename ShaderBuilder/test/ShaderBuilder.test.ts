@@ -0,0 +1,259 @@
+import { spawnSync } from 'child_process';
+import { chmodSync } from 'fs';
+import glslang from 'glslang-validator-prebuilt-predownloaded';
+import { parseWgsl, validate as validateModule } from 'naga-wasm';
+import { FreeCamera } from '@babylonjs/core/Cameras/freeCamera';
+import { NullEngine } from '@babylonjs/core/Engines/nullEngine';
+import { Finalize, Initialize, Process } from '@babylonjs/core/Engines/Processors/shaderProcessor';
+import type { ProcessingOptions } from '@babylonjs/core/Engines/Processors/shaderProcessingOptions';
+import { WebGPUShaderProcessingContext } from '@babylonjs/core/Engines/WebGPU/webgpuShaderProcessingContext';
+import { WebGPUShaderProcessorWGSL } from '@babylonjs/core/Engines/WebGPU/webgpuShaderProcessorsWGSL';
+import { DirectionalLight } from '@babylonjs/core/Lights/directionalLight';
+import { ShadowGenerator } from '@babylonjs/core/Lights/Shadows/shadowGenerator';
+import '@babylonjs/core/Lights/Shadows/shadowGeneratorSceneComponent';
+import { Effect } from '@babylonjs/core/Materials/effect';
+import { ShaderLanguage } from '@babylonjs/core/Materials/shaderLanguage';
+import { ShaderMaterial } from '@babylonjs/core/Materials/shaderMaterial';
+import { Vector3 } from '@babylonjs/core/Maths/math.vector';
+import { PostProcess } from '@babylonjs/core/PostProcesses/postProcess';
+import { Scene } from '@babylonjs/core/scene';
+import { BABYLONX } from '../Babylonx.ShaderBuilder';
+
+type Chain = (builder: BABYLONX.ShaderBuilder) => BABYLONX.ShaderBuilder;
+
+// compiles one stage with glslangValidator as WebGL 1 GLSL, returns its log when it fails
+function validate(source: string, stage: 'vert' | 'frag'): string {
+    const result = spawnSync(glslang.path, ['--stdin', '-S', stage], { input: '#version 100\n' + source, encoding: 'utf8', timeout: 20000 });
+    return result.status === 0 ? '' : String(result.error || '') + result.stdout + result.stderr;
+}
+
+// runs Babylon's WGSL shader processor like a WebGPU engine does, then validates both stages with naga, returns the error when one fails
+function validateWgsl(shader: BABYLONX.IWgslShader): string {
+    const processor = new WebGPUShaderProcessorWGSL();
+    const processingContext = new WebGPUShaderProcessingContext(ShaderLanguage.WGSL);
+    const options = (isFragment: boolean): ProcessingOptions => ({
+        defines: [], indexParameters: {}, isFragment, shouldUseHighPrecisionShader: true, supportsUniformBuffers: true, shadersRepository: '',
+        includesShadersStore: {}, processor, version: '', platformName: 'WEBGPU', processingContext, isNDCHalfZRange: true, useReverseDepthBuffer: false
+    });
+    let vertex = '';
+    let fragment = '';
+    Initialize(options(false));
+    Process(shader.vertex, options(false), (code) => vertex = code);
+    Process(shader.pixel, options(true), (code) => fragment = code);
+    const stages = Finalize(vertex, fragment, options(true));
+    try {
+        validateModule(parseWgsl(stages.vertexCode));
+        validateModule(parseWgsl(stages.fragmentCode));
+        return '';
+    } catch (error) {
+        return String((error as { formatted?: string }).formatted || error);
+    }
+}
+
+// the package ships its binaries without the executable bit
+beforeAll(() => {
+    if (process.platform !== 'win32') chmodSync(glslang.path, 0o755);
+});
+
+// one chain per public builder method, the method under test being the last one called
+const materials: { [method: string]: Chain } = {
+    Solid: (b) => b.Solid({ r: 1, g: 0.5, b: 0.2, a: 0.8 }),
+    Map: (b) => b.Map({ path: 'a.png', scaleX: 2, rotation: { x: 0, y: 0, z: 45 } }),
+    Multi: (b) => b.Multi(['result = vec4(1.,0.,0.,1.);', { result: 'result = vec4(0.,1.,0.,1.);', opacity: 0.5 }], true),
+    Back: (b) => b.Solid({ r: 1 }).Back('result = vec4(0.,0.,1.,1.);'),
+    Front: (b) => b.Solid({ r: 1 }).Front('result = vec4(0.,0.,1.,1.);'),
+    InLine: (b) => b.InLine('result = vec4(0.2);'),
+    Range: (b) => b.Range('result = vec4(1.,0.,0.,1.);', 'result = vec4(0.,1.,0.,1.);', { start: 0, end: 1, direction: 'pos.y' }),
+    Reference: (b) => b.Map({ path: 'a.png' }).Reference(1).Solid({ g: 1 }).Reference(1, 'result = result * 0.5;'),
+    ReplaceColor: (b) => b.Map({ path: 'a.png' }).Reference(1).ReplaceColor(1, BABYLONX.Helper.Green, 'result = vec4(0.,0.,1.,1.);', { rangeStep: 0.4 }),
+    Blue: (b) => b.Map({ path: 'a.png' }).Reference(1).Blue(1, 'result = vec4(1.,0.,0.,1.);', {}),
+    Cyan: (b) => b.Map({ path: 'a.png' }).Reference(1).Cyan(1, 'result = vec4(1.,0.,0.,1.);', {}),
+    Red: (b) => b.Map({ path: 'a.png' }).Reference(1).Red(1, 'result = vec4(0.,0.,1.,1.);', {}),
+    Yellow: (b) => b.Map({ path: 'a.png' }).Reference(1).Yellow(1, 'result = vec4(0.,0.,1.,1.);', {}),
+    Green: (b) => b.Map({ path: 'a.png' }).Reference(1).Green(1, 'result = vec4(0.,0.,1.,1.);', {}),
+    Pink: (b) => b.Map({ path: 'a.png' }).Reference(1).Pink(1, 'result = vec4(0.,0.,1.,1.);', {}),
+    White: (b) => b.Map({ path: 'a.png' }).Reference(1).White(1, 'result = vec4(0.,0.,1.,1.);', {}),
+    Black: (b) => b.Map({ path: 'a.png' }).Reference(1).Black(1, 'result = vec4(0.,0.,1.,1.);', {}),
+    ReflectCube: (b) => b.ReflectCube({ path: 'cube' }),
+    Reflect: (b) => b.Solid({ r: 1 }).Reflect({ path: 'cube' }, 0.5),
+    NormalMap: (b) => b.Map({ path: 'a.png' }).NormalMap('0.3', 'result = texture2D(txtRef_0, vuv)').Light({}),
+    SpecularMap: (b) => b.Map({ path: 'a.png' }).SpecularMap('float_result = 0.5').Light({}),
+    Light: (b) => b.Solid({ r: 1 }).Light({ phonge: 0.5, specular: 1, direction: 'vec3(1.,1.,0.)' }),
+    PBR: (b) => b.Map({ path: 'a.png' }).PBR({ metallic: 0.2, roughness: 0.6, emissive: { r: 0, g: 0.1, b: 0.2 }, lights: 2, shadows: true }),
+    Effect: (b) => b.Solid({ r: 1 }).Effect({ px: 'px*0.5', pw: '1.', pr: 'pow(pr,2.)' }),
+    IdColor: (b) => b.Solid({ r: 1 }).IdColor(1, 0.5),
+    Discard: (b) => b.Solid({ r: 1 }).Discard(),
+    Event: (b) => b.Solid({ r: 1 }).Event(1, 'result = vec4(0.,1.,0.,1.);'),
+    EventVertex: (b) => b.Solid({ r: 1 }).EventVertex(1, 'pos.y += 1.;'),
+    Nut: (b) => b.Solid({ r: 1 }).Nut('pos.y', { bones: [{ bet: '>0.5', center: 'vec3(0.,0.5,0.)', rotation: { x: 1, y: 0, z: 0 } }], array: ['pos', 'nrm'] }),
+    VertexShader: (b) => b.VertexShader('pos.x += 1.;').Solid({ r: 1 }),
+    Instance: (b) => b.Instance().Solid({ r: 1 }),
+    Transparency: (b) => b.Solid({ r: 1, a: 0.5 }).Transparency(),
+    DisableAlphaTesting: (b) => b.Solid({ r: 1, a: 0.5 }).Transparency().DisableAlphaTesting(),
+    Wired: (b) => b.Solid({ r: 1 }).Wired(),
+    SetUniform: (b) => b.SetUniform('level', 'float').Solid({ r: 'level' }),
+    Func: (b) => b.Func((me: BABYLONX.ShaderBuilder) => me.Solid({ b: 1 })),
+    Build: (b) => b.Multi([BABYLONX.Helper().Solid({ r: 1 }).Build(), { result: BABYLONX.Helper().Map({ path: 'a.png' }).Build(), opacity: 0.5 }], true),
+    BuildVertex: (b) => b.VertexShader(BABYLONX.Helper().EventVertex(1, 'pos.y += 1.;').BuildVertex()).Solid({ r: 1 }),
+    Emit: (b) => b.Emit((block) => block.Assign(BABYLONX.ShaderBuilder.Result, BABYLONX.ShaderNode.Vec4(0.5, 0.5, 0.5, 1))),
+};
+
+const postProcesses: { [method: string]: Chain } = {
+    Map: (b) => b.Map({ path: 'a.png' }),
+    ImportSamplers: (b) => b.ImportSamplers(['depth']).InLine('result = texture2D(depth, vuv);'),
+    PostEffect1: (b) => b.PostEffect1(1, 'result = vec4(1.) - result;').Map({ path: 'a.png' }),
+    PostEffect2: (b) => b.PostEffect2(1, 'result = vec4(1.) - result;').Map({ path: 'a.png' }),
+};
+
+function check(chain: Chain, postProcess: boolean) {
+    const sources = chain(new BABYLONX.ShaderBuilder()).BuildShaders(postProcess);
+    expect(validate(sources.Vertex, 'vert')).toBe('');
+    expect(validate(sources.Pixel, 'frag')).toBe('');
+    expect(sources.Vertex).toMatchSnapshot('vertex');
+    expect(sources.Pixel).toMatchSnapshot('fragment');
+}
+
+describe('ShaderBuilder material GLSL', () => {
+    for (const method in materials) {
+        it(method, () => check(materials[method], false));
+    }
+});
+
+describe('ShaderBuilder post process GLSL', () => {
+    for (const method in postProcesses) {
+        it(method, () => check(postProcesses[method], true));
+    }
+});
+
+describe('ShaderBuilder sources', () => {
+    it('Sources', () => {
+        const builder = new BABYLONX.ShaderBuilder().Map({ path: 'a.png' }).Light({});
+        builder.PrepareBeforeMaterialBuild();
+        const sources = builder.Sources();
+        BABYLONX.Shader.Me = undefined!;
+        BABYLONX.Shader.Indexer = 1;
+        BABYLONX.Shader.Names = {};
+        BABYLONX.Shader.Blocks = {};
+        expect(validate(sources.Vertex, 'vert')).toBe('');
+        expect(validate(sources.Pixel, 'frag')).toBe('');
+        expect(sources).toEqual(new BABYLONX.ShaderBuilder().Map({ path: 'a.png' }).Light({}).BuildShaders());
+    });
+});
+
+// the chains of the WGSL target, each run through Babylon's WGSL processor
+const wgslMaterials: { [method: string]: Chain } = {
+    Solid: materials.Solid,
+    Map: materials.Map,
+    Multi: materials.Multi,
+    Build: materials.Build,
+    Back: materials.Back,
+    Range: materials.Range,
+    ReflectCube: materials.ReflectCube,
+    NormalMap: materials.NormalMap,
+    SpecularMap: materials.SpecularMap,
+    Light: materials.Light,
+    PBR: materials.PBR,
+    IdColor: materials.IdColor,
+    Discard: materials.Discard,
+    Event: materials.Event,
+    EventVertex: materials.EventVertex,
+    Nut: materials.Nut,
+    VertexShader: materials.VertexShader,
+    SetUniform: materials.SetUniform,
+    Emit: materials.Emit,
+};
+
+describe('ShaderBuilder WGSL', () => {
+    for (const method in wgslMaterials) {
+        it(method, () => {
+            const shader = wgslMaterials[method](new BABYLONX.ShaderBuilder()).BuildWgsl();
+            expect(validateWgsl(shader)).toBe('');
+            expect(shader).toMatchSnapshot();
+        });
+    }
+
+    it('BuildWgslMaterial', () => {
+        const engine = new NullEngine();
+        const scene = new Scene(engine);
+        try {
+            const material = new BABYLONX.ShaderBuilder().Map({ path: 'a.png' }).Light({}).BuildWgslMaterial(scene) as ShaderMaterial;
+            expect(material).toBeInstanceOf(ShaderMaterial);
+            expect(material.options.shaderLanguage).toBe(ShaderLanguage.WGSL);
+            expect(material.options.samplers).toEqual(['txtRef_0']);
+        } finally {
+            scene.dispose();
+            engine.dispose();
+        }
+    });
+});
+
+describe('ShaderBuilder post process', () => {
+    it('BuildPostProcess', () => {
+        const engine = new NullEngine();
+        const scene = new Scene(engine);
+        try {
+            const camera = new FreeCamera('camera', new Vector3(0, 0, -10), scene);
+            const postProcess = new BABYLONX.ShaderBuilder().Map({ path: 'a.png' }).BuildPostProcess(camera, scene, 1, {});
+            expect(postProcess).toBeInstanceOf(PostProcess);
+            const pixel = Effect.ShadersStore[postProcess.name + 'PixelShader'];
+            expect(validate(pixel, 'frag')).toBe('');
+            expect(pixel).toMatchSnapshot();
+        } finally {
+            BABYLONX.Shader.Me = undefined!;
+            BABYLONX.Shader.Indexer = 1;
+            scene.dispose();
+            engine.dispose();
+        }
+    });
+});
+
+describe('ShaderBuilder lights', () => {
+    it('BindLights flags packed shadow maps and scales the intensities', () => {
+        const engine = new NullEngine();
+        const scene = new Scene(engine);
+        try {
+            new FreeCamera('camera', new Vector3(0, 0, -10), scene);
+            const light = new DirectionalLight('light', new Vector3(0, -1, 0), scene);
+            light.intensity = 2;
+            light.intensityMode = DirectionalLight.INTENSITYMODE_ILLUMINANCE;
+            const generator = new ShadowGenerator(64, light);
+            const values: { [name: string]: number[] } = {};
+            const record = (name: string, ...value: number[]) => { values[name] = value; };
+            const effect = { setFloat: record, setFloat2: record, setFloat3: record, setFloat4: record, setVector3() {}, setMatrix() {}, setTexture() {} };
+            new BABYLONX.ShaderMaterialHelper().BindLights(effect as unknown as Effect, scene, 2, true);
+            const intensity = light.getScaledIntensity();
+            expect(values.vLightDiffuse0.slice(0, 3)).toEqual([intensity, intensity, intensity]);
+            expect(values.shadowsInfo0[2]).toBe(generator.getShadowMap()!.textureType === 0 ? 1 : 0);
+            expect(values.vLightKind1).toEqual([-1]);
+        } finally {
+            scene.dispose();
+            engine.dispose();
+        }
+    });
+});
+
+describe('ShaderBuilder engine', () => {
+    it('creates its materials with the classes given to InitializeEngine', () => {
+        const engine = new NullEngine();
+        const scene = new Scene(engine);
+        const defaults = BABYLONX.ShaderMaterialHelper.Engine;
+        const created: string[] = [];
+        class RecordingMaterial extends ShaderMaterial {
+            constructor(...args: ConstructorParameters<typeof ShaderMaterial>) {
+                super(...args);
+                created.push(this.name);
+            }
+        }
+
+        BABYLONX.ShaderBuilder.InitializeEngine({ ...defaults, ShaderMaterial: RecordingMaterial });
+        try {
+            const material = new BABYLONX.ShaderBuilder().Solid({ r: 1 }).BuildMaterial(scene);
+            expect(material).toBeInstanceOf(RecordingMaterial);
+            expect(created).toEqual([material.name]);
+        } finally {
+            BABYLONX.ShaderBuilder.InitializeEngine(defaults);
+            scene.dispose();
+            engine.dispose();
+        }
+    });
+});